@@ -1,154 +1,94 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Scene from './components/Scene';
 import Controls from './components/Controls';
-import { BrickData, ToolMode, BrickColor, BrickType } from './types';
-import { BRICK_TYPES } from './constants';
-import { generateLegoFromImage } from './services/geminiService';
-
-// Helper to optimize 1x1 voxels into larger standard bricks
-const optimizeBricks = (rawBricks: {x: number, y: number, z: number, color: string}[]): BrickData[] => {
-  if (!rawBricks || !Array.isArray(rawBricks)) return [];
-  
-  const optimized: BrickData[] = [];
-  
-  // Group bricks by Layer (Y) and Color
-  const bricksByLayerColor = new Map<string, Set<string>>();
-  
-  rawBricks.forEach(b => {
-    if (!b) return;
-    const key = `${b.y},${b.color}`;
-    if (!bricksByLayerColor.has(key)) {
-      bricksByLayerColor.set(key, new Set());
-    }
-    bricksByLayerColor.get(key)?.add(`${b.x},${b.z}`);
-  });
-
-  // Filter out special types for auto-optimization (keep strictly standard blocks)
-  const standardTypes = (BRICK_TYPES || []).filter(t => !t.specialType).sort((a, b) => 
-    (b.sizeX * b.sizeZ) - (a.sizeX * a.sizeZ)
-  );
-
-  // Process each layer/color group
-  bricksByLayerColor.forEach((coordsSet, key) => {
-    const [yStr, color] = key.split(',');
-    const y = parseInt(yStr);
-    
-    // Convert Set to array and sort to process systematically (top-left to bottom-right)
-    const coords = Array.from(coordsSet).map(c => {
-      const [x, z] = c.split(',').map(Number);
-      return { x, z };
-    }).sort((a, b) => {
-      if (a.z !== b.z) return a.z - b.z;
-      return a.x - b.x;
-    });
-
-    const processed = new Set<string>();
-
-    coords.forEach(({ x, z }) => {
-      const coordKey = `${x},${z}`;
-      if (processed.has(coordKey)) return;
-
-      // Try to fit the largest possible brick starting at (x, z)
-      let bestFit: { type: BrickType, rotated: boolean } | null = null;
-
-      for (const brickType of standardTypes) {
-         // Try Standard Orientation
-         let fit = true;
-         for(let i = 0; i < brickType.sizeX; i++) {
-           for(let j = 0; j < brickType.sizeZ; j++) {
-              if (!coordsSet.has(`${x + i},${z + j}`) || processed.has(`${x + i},${z + j}`)) {
-                fit = false;
-                break;
-              }
-           }
-           if(!fit) break;
-         }
-         if (fit) {
-           bestFit = { type: brickType, rotated: false };
-           break; // Found best fit because we are iterating by size desc
-         }
-
-         // Try Rotated Orientation (if dimensions differ)
-         if (brickType.sizeX !== brickType.sizeZ) {
-           fit = true;
-           // Rotated: sizeX acts as depth (z), sizeZ acts as width (x)
-           const rWidth = brickType.sizeZ;
-           const rDepth = brickType.sizeX;
-
-           for(let i = 0; i < rWidth; i++) {
-              for(let j = 0; j < rDepth; j++) {
-                 if (!coordsSet.has(`${x + i},${z + j}`) || processed.has(`${x + i},${z + j}`)) {
-                   fit = false;
-                   break;
-                 }
-              }
-              if(!fit) break;
-           }
-           if (fit) {
-              bestFit = { type: brickType, rotated: true };
-              break;
-           }
-         }
-      }
-
-      if (bestFit) {
-         const width = bestFit.rotated ? bestFit.type.sizeZ : bestFit.type.sizeX;
-         const depth = bestFit.rotated ? bestFit.type.sizeX : bestFit.type.sizeZ;
-
-         // Mark as processed
-         for(let i = 0; i < width; i++) {
-            for(let j = 0; j < depth; j++) {
-               processed.add(`${x + i},${z + j}`);
-            }
-         }
-
-         optimized.push({
-            id: uuidv4(),
-            x,
-            y,
-            z,
-            color,
-            sizeX: width,
-            sizeZ: depth,
-            rotation: bestFit.rotated ? 90 : 0 
-         });
-      } else {
-         // Fallback 1x1 
-         if (!processed.has(coordKey)) {
-            processed.add(coordKey);
-            optimized.push({
-               id: uuidv4(),
-               x,
-               y,
-               z,
-               color,
-               sizeX: 1,
-               sizeZ: 1
-            });
-         }
-      }
-    });
-  });
-
-  return optimized;
-};
+import ProjectLibrary from './components/ProjectLibrary';
+import PartsListPanel from './components/PartsListPanel';
+import InventoryPanel from './components/InventoryPanel';
+import HollowDialog from './components/HollowDialog';
+import OptimizeDialog from './components/OptimizeDialog';
+import InstructionsViewer from './components/InstructionsViewer';
+import SettingsPanel from './components/SettingsPanel';
+import BaseplateDialog from './components/BaseplateDialog';
+import { Baseplate, BrickData, ToolMode, BrickColor, BrickType, AutosaveRecord, ProjectRecord, ExportFormat, MeshExportOptions, GenerationSettings, GenerationRequest, Voxel, InventoryItem, LiftedGroup } from './types';
+import { BRICK_TYPES, PLATES_PER_BRICK } from './constants';
+import { generateBuild, getProvider, loadGenerationSettings, saveGenerationSettings } from './services/generationService';
+import { repairGeneratedBuild, describeRepairReport, toPreviewVoxels } from './services/generationRepair';
+import { GenerationError, classifyGenerationError, describeGenerationError } from './services/generationErrors';
+import { quantizeVoxels } from './services/colorQuantize';
+import { optimizeBuild } from './services/brickOptimizer';
+import { brickShapeFor, getBrickRotation } from './services/brickGeometry';
+import { validatePlacement } from './services/placement';
+import { baseplateCenter, createDefaultBaseplates } from './services/baseplates';
+import { fitShapeToBaseplate } from './services/buildShape';
+import { createSpatialIndex } from './services/spatialIndex';
+import { loadInventory, saveInventory } from './services/inventory';
+import { applyVoxelDiff, toEditRequest } from './services/buildDiff';
+import { saveProject, getProject, writeAutosave, readAutosave, captureThumbnail } from './services/projectStore';
+import { exportBuildFile, parseBuildFile, BuildFileError, BUILD_FILE_EXTENSION } from './services/buildFile';
+import { exportLDraw, importLDraw } from './services/ldraw';
+import { exportGLB, exportOBJ, exportSTL } from './services/meshExport';
+import { downloadFile, readFileAsText, toFileName } from './services/fileUtils';
+
+const UNTITLED_PROJECT = 'Untitled Build';
 
 function App() {
   const [hasApiKey, setHasApiKey] = useState(false);
   const [bricks, setBricks] = useState<BrickData[]>([]);
+  // Occupancy of `bricks`, kept in step by showBricks
+  const occupancy = useRef(createSpatialIndex()).current;
   // History Management
   const [history, setHistory] = useState<BrickData[][]>([[]]);
   const [currentHistoryIndex, setCurrentHistoryIndex] = useState(0);
 
   const [toolMode, setToolMode] = useState<ToolMode>('VIEW');
   const [selectedColor, setSelectedColor] = useState<string>(BrickColor.RED);
-  const [selectedBrickType, setSelectedBrickType] = useState<BrickType>(BRICK_TYPES?.[0] || { label: '1x1', sizeX: 1, sizeZ: 1 });
+  const [selectedBrickType, setSelectedBrickType] = useState<BrickType>(BRICK_TYPES[0]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [rotated, setRotated] = useState(false);
+  const [rotation, setRotation] = useState(0); // Degrees for new bricks: 0, 90, 180 or 270
   const [buildKey, setBuildKey] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [liftedGroup, setLiftedGroup] = useState<{ bricks: BrickData[], anchorId: string } | null>(null);
+  const [animatingIds, setAnimatingIds] = useState<Set<string> | null>(null);
+  // Bricks that appear in place without dropping in
+  const [settledIds, setSettledIds] = useState<Set<string> | null>(null);
+  // Image the current build was generated from, offered again when refining it
+  const [sourceImage, setSourceImage] = useState<File | null>(null);
+  const [liftedGroup, setLiftedGroup] = useState<LiftedGroup | null>(null);
+
+  // Project Library
+  const [currentProject, setCurrentProject] = useState<{ id: string | null, name: string }>({ id: null, name: UNTITLED_PROJECT });
+  const [isDirty, setIsDirty] = useState(false);
+  const [baseplates, setBaseplates] = useState<Baseplate[]>(createDefaultBaseplates);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isPartsListOpen, setIsPartsListOpen] = useState(false);
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [isHollowOpen, setIsHollowOpen] = useState(false);
+  const [isOptimizeOpen, setIsOptimizeOpen] = useState(false);
+  const [inventory, setInventory] = useState<InventoryItem[]>(() => loadInventory());
+  // Parts the inventory optimizer couldn't cover in the last generation
+  const [missingParts, setMissingParts] = useState<BrickData[]>([]);
+  const [isMissingPartsOpen, setIsMissingPartsOpen] = useState(false);
+  const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isBaseplatesOpen, setIsBaseplatesOpen] = useState(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [repairNotes, setRepairNotes] = useState<string[]>([]);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  const [lastGeneration, setLastGeneration] = useState<
+    { type: 'generate', request: GenerationRequest } | { type: 'refine', instruction: string, includeImage: boolean } | null
+  >(null);
+  // Bricks parsed so far while a provider streams its answer
+  const [streamPreview, setStreamPreview] = useState<BrickData[]>([]);
+  const streamPreviewRef = useRef(streamPreview);
+  streamPreviewRef.current = streamPreview;
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [recovery, setRecovery] = useState<AutosaveRecord | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Mirrors currentProject so autosave callbacks don't need it as a dependency
+  const currentProjectRef = useRef(currentProject);
+  currentProjectRef.current = currentProject;
+  const baseplatesRef = useRef(baseplates);
+  baseplatesRef.current = baseplates;
 
   // Persistent AudioContext to prevent garbage collection issues and lag
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -167,6 +107,17 @@ function App() {
     checkKey();
   }, []);
 
+  // Crash recovery: offer to restore an autosave that was never saved to a project
+  useEffect(() => {
+    readAutosave()
+      .then(autosave => {
+        if (autosave && autosave.dirty && autosave.bricks.length > 0) {
+          setRecovery(autosave);
+        }
+      })
+      .catch(e => console.warn("Could not read autosave", e));
+  }, []);
+
   const handleSelectKey = async () => {
     const win = window as any;
     if (win.aistudio) {
@@ -175,6 +126,16 @@ function App() {
     }
   };
 
+  const updateGenerationSettings = useCallback((settings: GenerationSettings) => {
+    setGenerationSettings(settings);
+    saveGenerationSettings(settings);
+  }, []);
+
+  const updateInventory = useCallback((items: InventoryItem[]) => {
+    setInventory(items);
+    saveInventory(items);
+  }, []);
+
   // Sound Effect - Plays when a brick hits the ground/another brick
   const playLandedSound = useCallback(() => {
     try {
@@ -229,7 +190,34 @@ function App() {
     }
   }, []);
 
+  // Bricks drop in sequence (15ms apart); keep the animation flag up until the last one lands
+  const startDropAnimation = useCallback((brickCount: number, brickIds: Set<string> | null = null) => {
+    setAnimatingIds(brickIds);
+    setIsAnimating(true);
+    const duration = brickCount * 15 + 1000;
+    setTimeout(() => setIsAnimating(false), duration);
+  }, []);
+
+  // ---- Autosave ----
+  const persistAutosave = useCallback((newBricks: BrickData[], dirty: boolean) => {
+    const { id, name } = currentProjectRef.current;
+    writeAutosave({ bricks: newBricks, baseplates: baseplatesRef.current, projectId: id, projectName: name, dirty })
+      .catch(e => console.warn("Autosave failed", e));
+  }, []);
+
+  const markChanged = useCallback((newBricks: BrickData[]) => {
+    setIsDirty(true);
+    setRecovery(null);
+    persistAutosave(newBricks, true);
+  }, [persistAutosave]);
+
   // ---- History Logic ----
+  // Every change to the board goes through here so the occupancy index never lags behind
+  const showBricks = useCallback((newBricks: BrickData[]) => {
+    occupancy.sync(newBricks);
+    setBricks(newBricks);
+  }, [occupancy]);
+
   const saveToHistory = useCallback((newBricks: BrickData[]) => {
     setHistory(prev => {
       const newHistory = prev.slice(0, currentHistoryIndex + 1);
@@ -237,35 +225,225 @@ function App() {
       return newHistory;
     });
     setCurrentHistoryIndex(prev => prev + 1);
-    setBricks(newBricks);
-  }, [currentHistoryIndex]);
+    showBricks(newBricks);
+    markChanged(newBricks);
+  }, [currentHistoryIndex, markChanged, showBricks]);
+
+  // Replaces the whole history, e.g. when opening a project
+  const resetHistory = useCallback((newBricks: BrickData[]) => {
+    setSourceImage(null);
+    setHistory([newBricks]);
+    setCurrentHistoryIndex(0);
+    showBricks(newBricks);
+    setLiftedGroup(null);
+  }, [showBricks]);
 
   const undo = useCallback(() => {
     if (currentHistoryIndex > 0) {
       const newIndex = currentHistoryIndex - 1;
       setCurrentHistoryIndex(newIndex);
       if (history[newIndex]) {
-        setBricks(history[newIndex]);
+        showBricks(history[newIndex]);
         setLiftedGroup(null);
+        markChanged(history[newIndex]);
       }
     }
-  }, [history, currentHistoryIndex]);
+  }, [history, currentHistoryIndex, markChanged, showBricks]);
 
   const redo = useCallback(() => {
     if (currentHistoryIndex < history.length - 1) {
       const newIndex = currentHistoryIndex + 1;
       setCurrentHistoryIndex(newIndex);
       if (history[newIndex]) {
-        setBricks(history[newIndex]);
+        showBricks(history[newIndex]);
         setLiftedGroup(null);
+        markChanged(history[newIndex]);
+      }
+    }
+  }, [history, currentHistoryIndex, markChanged, showBricks]);
+
+  // ---- Baseplates ----
+  // They belong to the project like its name, outside the undo history
+  const showBaseplates = useCallback((newBaseplates: Baseplate[]) => {
+    baseplatesRef.current = newBaseplates;
+    setBaseplates(newBaseplates);
+  }, []);
+
+  const handleBaseplatesChange = useCallback((newBaseplates: Baseplate[]) => {
+    showBaseplates(newBaseplates);
+    markChanged(bricks);
+  }, [bricks, markChanged, showBaseplates]);
+
+  const placementOptions = useMemo(
+    () => ({ ...generationSettings.building, baseplates }),
+    [generationSettings.building, baseplates]
+  );
+
+  // ---- Project Library ----
+  const applySavedProject = useCallback((record: ProjectRecord) => {
+    setCurrentProject({ id: record.id, name: record.name });
+    currentProjectRef.current = { id: record.id, name: record.name };
+    setIsDirty(false);
+    setRecovery(null);
+    persistAutosave(record.bricks, false);
+  }, [persistAutosave]);
+
+  const handleSaveProject = useCallback(async () => {
+    const record = await saveProject({
+      id: currentProject.id || undefined,
+      name: currentProject.name,
+      bricks,
+      baseplates,
+      thumbnail: captureThumbnail(canvasRef.current),
+    });
+    applySavedProject(record);
+  }, [bricks, baseplates, currentProject, applySavedProject]);
+
+  const handleSaveProjectAs = useCallback(async (name: string) => {
+    const record = await saveProject({
+      name,
+      bricks,
+      baseplates,
+      thumbnail: captureThumbnail(canvasRef.current),
+    });
+    applySavedProject(record);
+  }, [bricks, baseplates, applySavedProject]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    const record = await getProject(id);
+    if (!record) throw new Error(`Project ${id} not found`);
+    resetHistory(record.bricks);
+    showBaseplates(record.baseplates);
+    applySavedProject(record);
+    setBuildKey(prev => prev + 1);
+  }, [resetHistory, showBaseplates, applySavedProject]);
+
+  const handleProjectRenamed = useCallback((record: ProjectRecord) => {
+    if (record.id === currentProject.id) {
+      setCurrentProject({ id: record.id, name: record.name });
+    }
+  }, [currentProject.id]);
+
+  const handleProjectDeleted = useCallback((id: string) => {
+    // The build stays on the board; it just no longer belongs to a saved project
+    if (id === currentProject.id) {
+      setCurrentProject({ id: null, name: currentProject.name });
+      setIsDirty(true);
+    }
+  }, [currentProject]);
+
+  const handleRestoreRecovery = useCallback(() => {
+    if (!recovery) return;
+    const restored = { id: recovery.projectId, name: recovery.projectName || UNTITLED_PROJECT };
+    setCurrentProject(restored);
+    currentProjectRef.current = restored;
+    resetHistory(recovery.bricks);
+    showBaseplates(recovery.baseplates);
+    setIsDirty(true);
+    setRecovery(null);
+    setBuildKey(prev => prev + 1);
+  }, [recovery, resetHistory, showBaseplates]);
+
+  const handleDiscardRecovery = useCallback(() => {
+    setRecovery(null);
+    persistAutosave(bricks, false);
+  }, [bricks, persistAutosave]);
+
+  // Stable so the viewer's keyboard listener isn't re-bound every render
+  const closeInstructions = useCallback(() => setIsInstructionsOpen(false), []);
+
+  // ---- Import / Export ----
+  const handleExport = useCallback(async (format: ExportFormat, meshOptions: MeshExportOptions) => {
+    const name = currentProject.name;
+    try {
+      if (format === 'brick-json') {
+        const json = exportBuildFile(bricks, baseplates, { name });
+        downloadFile(json, toFileName(name, BUILD_FILE_EXTENSION), 'application/json');
+      } else if (format === 'ldraw') {
+        const { text, skipped, skippedBaseplates } = exportLDraw(bricks, baseplates, name);
+        downloadFile(text, toFileName(name, 'ldr'), 'text/plain');
+        const left = [
+          skipped > 0 && `${skipped} brick(s)`,
+          skippedBaseplates > 0 && `${skippedBaseplates} baseplate(s)`,
+        ].filter(Boolean);
+        if (left.length > 0) {
+          alert(`${left.join(' and ')} have no LDraw equivalent and were left out. LDraw has studded 16x16 and 32x32 baseplates.`);
+        }
+      } else if (format === 'gltf') {
+        const glb = await exportGLB(bricks, baseplates, meshOptions);
+        downloadFile(glb, toFileName(name, 'glb'), 'model/gltf-binary');
+      } else if (format === 'stl') {
+        downloadFile(exportSTL(bricks, baseplates, meshOptions), toFileName(name, 'stl'), 'model/stl');
+      } else if (format === 'obj') {
+        const mtlName = toFileName(name, 'mtl');
+        const { obj, mtl } = exportOBJ(bricks, baseplates, meshOptions, mtlName);
+        downloadFile(obj, toFileName(name, 'obj'), 'text/plain');
+        downloadFile(mtl, mtlName, 'text/plain');
       }
+    } catch (error) {
+      console.error("Failed to export build", error);
+      alert(error instanceof Error ? error.message : "Failed to export build.");
     }
-  }, [history, currentHistoryIndex]);
+  }, [bricks, baseplates, currentProject.name]);
+
+  // Opens imported bricks as a new, unsaved project. Formats without baseplates get the default board
+  const loadImportedBricks = useCallback((newBricks: BrickData[], name: string, newBaseplates = createDefaultBaseplates()) => {
+    const imported = { id: null, name };
+    setCurrentProject(imported);
+    currentProjectRef.current = imported;
+    resetHistory(newBricks);
+    showBaseplates(newBaseplates);
+    markChanged(newBricks);
+    setToolMode('VIEW');
+    setBuildKey(prev => prev + 1);
+    startDropAnimation(newBricks.length);
+  }, [resetHistory, showBaseplates, markChanged, startDropAnimation]);
+
+  const handleImport = useCallback(async (file: File) => {
+    const baseName = file.name.replace(/\.(brick\.json|json|ldr|mpd)$/i, '');
+    try {
+      const text = await readFileAsText(file);
+
+      if (/\.(ldr|mpd)$/i.test(file.name)) {
+        const result = importLDraw(text);
+        if (result.bricks.length === 0) {
+          throw new Error("No supported parts were found in this LDraw file.");
+        }
+        loadImportedBricks(result.bricks, baseName, result.baseplates.length > 0 ? result.baseplates : undefined);
+
+        const notes = [
+          ...result.unsupported.map(u => `${u.count}× ${u.part}`),
+          ...result.warnings,
+        ];
+        if (notes.length > 0) {
+          alert(`Imported ${result.bricks.length} bricks. Some parts couldn't be represented:\n\n• ${notes.slice(0, 12).join('\n• ')}`);
+        }
+        return;
+      }
+
+      const parsed = parseBuildFile(text);
+      loadImportedBricks(parsed.bricks, parsed.metadata.name || baseName, parsed.baseplates);
+    } catch (error) {
+      console.error("Failed to import build", error);
+      if (error instanceof BuildFileError && error.issues.length > 0) {
+        const shown = error.issues.slice(0, 8).join('\n• ');
+        const more = error.issues.length > 8 ? `\n…and ${error.issues.length - 8} more` : '';
+        alert(`${error.message}\n\n• ${shown}${more}`);
+      } else {
+        alert(error instanceof Error ? error.message : "Failed to import build.");
+      }
+    }
+  }, [loadImportedBricks]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
       if (e.metaKey || e.ctrlKey) {
-        if (e.key.toLowerCase() === 'z') {
+        if (e.key.toLowerCase() === 's') {
+          handleSaveProject().catch(err => console.error("Save failed", err));
+          e.preventDefault();
+        } else if (e.key.toLowerCase() === 'z') {
           if (e.shiftKey) {
             redo();
           } else {
@@ -280,72 +458,52 @@ function App() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo]);
+  }, [undo, redo, handleSaveProject]);
 
 
   // Helper: Get Liftable Group (Upwards only)
   // Allows breaking a stack by grabbing a middle brick.
-  const getLiftableBricks = (startBrickId: string, allBricks: BrickData[]): string[] => {
-    const startBrick = allBricks.find(b => b.id === startBrickId);
-    if (!startBrick) return [];
+  const getLiftableBricks = (startBrickId: string): Set<string> => {
+    const startBrick = occupancy.get(startBrickId);
+    if (!startBrick) return new Set();
 
     const queue = [startBrick];
     const resultIds = new Set<string>([startBrickId]);
 
-    // Check intersection/overlap
-    const isOverlapping = (b1: BrickData, b2: BrickData) => {
-        const b1W = b1.sizeX || 1;
-        const b1D = b1.sizeZ || 1;
-        const b2W = b2.sizeX || 1;
-        const b2D = b2.sizeZ || 1;
-
-        // Use slight margin to catch exact alignments
-        const xOverlap = Math.max(b1.x, b2.x) < Math.min(b1.x + b1W, b2.x + b2W);
-        const zOverlap = Math.max(b1.z, b2.z) < Math.min(b1.z + b1D, b2.z + b2D);
-        return xOverlap && zOverlap;
-    };
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      
-      // Find all bricks immediately ON TOP of 'current'
+    for (let head = 0; head < queue.length; head++) {
+      // Find all bricks clicked onto the studs of the current one
       // This enforces upward-only traversal
-      const supported = allBricks.filter(b => 
-        !resultIds.has(b.id) && 
-        b.y === current.y + 1 &&
-        isOverlapping(current, b)
-      );
-
-      supported.forEach(b => {
+      occupancy.bricksOnTop(queue[head]).forEach(b => {
+        if (resultIds.has(b.id)) return;
         resultIds.add(b.id);
         queue.push(b);
       });
     }
 
-    return Array.from(resultIds);
+    return resultIds;
   };
 
   const rotateLiftedGroup = useCallback(() => {
     if (!liftedGroup) {
-        setRotated(prev => !prev);
+        setRotation(prev => (prev + 90) % 360);
         return;
     }
     
     setLiftedGroup(prev => {
         if (!prev) return null;
+        const { x: px, z: pz } = prev.pivot;
         const newBricks = prev.bricks.map(b => {
-            // Rotate 90 degrees around anchor (0,0)
-            const newOffsetX = b.offsetZ!;
-            const newOffsetZ = -b.offsetX! - (b.sizeX || 1); // Compensate for pivot
-            
+            // Quarter turn about the pivot, the same way a brick's rotation turns its shape:
+            // the footprint [x, x + sizeX] x [z, z + sizeZ] maps to (z, -x) around the pivot
+            const offsetX = b.offsetX || 0;
+            const offsetZ = b.offsetZ || 0;
             return {
                 ...b,
-                offsetX: newOffsetX,
-                offsetZ: newOffsetZ,
-                // Swap dimensions
+                offsetX: px + (offsetZ - pz),
+                offsetZ: pz - (offsetX + (b.sizeX || 1) - px),
                 sizeX: b.sizeZ,
                 sizeZ: b.sizeX,
-                rotation: b.rotation === 0 ? 90 : 0
+                rotation: (getBrickRotation(b) + 90) % 360
             };
         });
         return { ...prev, bricks: newBricks };
@@ -354,6 +512,7 @@ function App() {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.key.toLowerCase() === 'r' && !e.metaKey && !e.ctrlKey) {
         rotateLiftedGroup();
       }
@@ -363,33 +522,29 @@ function App() {
   }, [rotateLiftedGroup]);
 
   const addBrick = useCallback((x: number, y: number, z: number) => {
-    const sizeX = rotated ? selectedBrickType.sizeZ : selectedBrickType.sizeX;
-    const sizeZ = rotated ? selectedBrickType.sizeX : selectedBrickType.sizeZ;
-
     const newBrick: BrickData = {
       id: uuidv4(),
       x,
       y,
       z,
       color: selectedColor,
-      sizeX,
-      sizeZ,
-      rotation: rotated ? 90 : 0,
-      specialType: selectedBrickType.specialType
+      ...brickShapeFor(selectedBrickType, rotation),
     };
-    
+    // The ghost already shows why it doesn't fit
+    if (validatePlacement([newBrick], occupancy, placementOptions)) return;
+
     const newBricks = [...(bricks || []), newBrick];
     saveToHistory(newBricks);
     playLandedSound();
-  }, [bricks, selectedColor, selectedBrickType, rotated, playLandedSound, saveToHistory]);
+  }, [bricks, occupancy, selectedColor, selectedBrickType, rotation, placementOptions, playLandedSound, saveToHistory]);
 
   const handleLiftBrick = (brickId: string) => {
     if (!bricks) return;
     
     // Use new Lift logic: Grab clicked brick + everything physically supported by it
-    const liftableIds = getLiftableBricks(brickId, bricks);
+    const liftableIds = getLiftableBricks(brickId);
     
-    const group = bricks.filter(b => liftableIds.includes(b.id));
+    const group = bricks.filter(b => liftableIds.has(b.id));
     const anchorBrick = group.find(b => b.id === brickId);
 
     if (!anchorBrick) return;
@@ -402,9 +557,15 @@ function App() {
         offsetZ: b.z - anchorBrick.z,
     }));
 
-    const remainingBricks = bricks.filter(b => !liftableIds.includes(b.id));
+    // Turn about the centre of the group's footprint so it doesn't wander off when rotated
+    const minX = Math.min(...groupWithOffsets.map(b => b.offsetX));
+    const maxX = Math.max(...groupWithOffsets.map(b => b.offsetX + (b.sizeX || 1)));
+    const minZ = Math.min(...groupWithOffsets.map(b => b.offsetZ));
+    const maxZ = Math.max(...groupWithOffsets.map(b => b.offsetZ + (b.sizeZ || 1)));
+
+    const remainingBricks = bricks.filter(b => !liftableIds.has(b.id));
     saveToHistory(remainingBricks);
-    setLiftedGroup({ bricks: groupWithOffsets, anchorId: brickId });
+    setLiftedGroup({ bricks: groupWithOffsets, anchorId: brickId, pivot: { x: (minX + maxX) / 2, z: (minZ + maxZ) / 2 } });
     playLandedSound();
   };
 
@@ -413,25 +574,16 @@ function App() {
 
     const proposedBricks = liftedGroup.bricks.map(b => ({
         ...b,
-        x: anchorX + (b.offsetX || 0),
+        x: anchorX + Math.round(b.offsetX || 0),
         y: anchorY + (b.offsetY || 0),
-        z: anchorZ + (b.offsetZ || 0),
+        z: anchorZ + Math.round(b.offsetZ || 0),
         offsetX: undefined,
         offsetY: undefined,
         offsetZ: undefined
     }));
 
-    // Collision Check
-    const hasCollision = proposedBricks.some(pb => {
-        return (bricks || []).some(eb => {
-             const xOverlap = Math.max(pb.x, eb.x) < Math.min(pb.x + (pb.sizeX||1), eb.x + (eb.sizeX||1));
-             const zOverlap = Math.max(pb.z, eb.z) < Math.min(pb.z + (pb.sizeZ||1), eb.z + (eb.sizeZ||1));
-             const yOverlap = pb.y === eb.y;
-             return xOverlap && zOverlap && yOverlap;
-        });
-    });
-
-    if (!hasCollision) {
+    // Same rules as building; the ghost shows why a drop doesn't fit
+    if (!validatePlacement(proposedBricks, occupancy, placementOptions)) {
         const newBricks = [...(bricks || []), ...proposedBricks];
         saveToHistory(newBricks);
         setLiftedGroup(null);
@@ -449,47 +601,140 @@ function App() {
     setLiftedGroup(null);
   }, [saveToHistory]);
 
+  // Removing hidden bricks is one history step, so a single undo brings them back
+  const handleHollow = useCallback((hollowed: BrickData[]) => {
+    saveToHistory(hollowed);
+    setIsHollowOpen(false);
+  }, [saveToHistory]);
+
+  // Re-packed bricks get new ids; they appear in place rather than dropping in, as one undo step
+  const handleOptimize = useCallback((optimized: BrickData[]) => {
+    saveToHistory(optimized);
+    setSettledIds(new Set(optimized.map(b => b.id)));
+    setIsOptimizeOpen(false);
+  }, [saveToHistory]);
+
   const handleReplay = useCallback(() => {
-    setIsAnimating(true);
     setBuildKey(prev => prev + 1);
-    const duration = (bricks?.length || 0) * 15 + 1000;
-    setTimeout(() => setIsAnimating(false), duration);
-  }, [bricks]);
+    startDropAnimation(bricks?.length || 0);
+  }, [bricks, startDropAnimation]);
+
+  // Provider call plus the clean-up passes; returns voxels ready for optimizeBricks
+  const generateVoxels = async (request: GenerationRequest, signal: AbortSignal): Promise<Voxel[]> => {
+    const isEdit = !!request.currentBuild;
+    // New builds go on the first baseplate, so they're no bigger than it
+    const [target] = baseplates;
+    const shape = fitShapeToBaseplate(generationSettings.shape, target);
+    const center = baseplateCenter(target);
+    const result = await generateBuild({ ...request, shape }, generationSettings, {
+      signal,
+      // Edits replace the build as a diff at the end, so only new builds stream onto the board
+      onPartial: isEdit ? undefined : raw => {
+        setStreamPreview(toPreviewVoxels(raw).map((v, i) => ({
+          ...v, id: `preview-${i}`, x: v.x + center.x, y: v.y * PLATES_PER_BRICK, z: v.z + center.z, sizeX: 1, sizeZ: 1,
+        })));
+      },
+    });
+    const { voxels, report } = repairGeneratedBuild(result, {
+      floatingVoxels: generationSettings.repair.floatingVoxels,
+      keepPosition: isEdit,
+      shape,
+      baseplates,
+    });
+    const existingColors = isEdit ? Array.from(new Set(request.currentBuild!.map(v => v.color))) : [];
+    const quantized = quantizeVoxels(voxels, generationSettings.colors, existingColors);
+
+    const notes = describeRepairReport(report);
+    if (quantized.sourceColorCount > quantized.colorCount) {
+      notes.push(`Matched ${quantized.sourceColorCount} generated colours to ${quantized.colorCount} brick colours`);
+    }
+    setRepairNotes(notes);
+    return quantized.voxels;
+  };
 
-  const handleGenerate = async (file: File) => {
+  const runGeneration = async (request: GenerationRequest, apply: (voxels: Voxel[], streamed: boolean) => void) => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setIsGenerating(true);
+    setRepairNotes([]);
+    setMissingParts([]);
+    setGenerationError(null);
+    setStreamPreview([]);
     setToolMode('VIEW');
     setLiftedGroup(null);
 
     try {
-      const result = await generateLegoFromImage(file);
-      
-      if (result && result.bricks) {
-        const rawBricks = result.bricks.map(b => ({
-            x: b.x,
-            y: b.y,
-            z: b.z,
-            color: b.color || BrickColor.RED
-        }));
-
-        const optimizedBricks = optimizeBricks(rawBricks);
-        optimizedBricks.sort((a, b) => a.y - b.y);
-
-        saveToHistory(optimizedBricks);
-        
-        setIsAnimating(true);
-        const duration = optimizedBricks.length * 15 + 1000;
-        setTimeout(() => setIsAnimating(false), duration);
-      }
+      const voxels = await generateVoxels(request, controller.signal);
+      apply(voxels, streamPreviewRef.current.length > 0);
     } catch (error) {
+      const classified = classifyGenerationError(error);
       console.error("Failed to generate lego build", error);
-      alert("Failed to generate build. Please try a simpler image or check your API key.");
+      if (classified.kind !== 'cancelled') setGenerationError(classified);
+      // The build on the board reappears where it was instead of dropping in again
+      if (streamPreviewRef.current.length > 0) setSettledIds(new Set(bricks.map(b => b.id)));
     } finally {
+      generationAbortRef.current = null;
+      setStreamPreview([]);
       setIsGenerating(false);
     }
   };
 
-  if (!hasApiKey) {
+  const cancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  const handleGenerate = (request: GenerationRequest) => {
+    setLastGeneration({ type: 'generate', request });
+    return runGeneration(request, (voxels, streamed) => {
+      const { bricks: optimizedBricks, missing, notes } = optimizeBuild(voxels, generationSettings.optimizer, [], inventory);
+      optimizedBricks.sort((a, b) => a.y - b.y);
+      setRepairNotes(prev => [...prev, ...notes]);
+      setMissingParts(missing);
+
+      saveToHistory(optimizedBricks);
+      if (streamed) {
+        // Bricks already dropped in while streaming; swap in the merged ones without a second drop
+        setSettledIds(new Set(optimizedBricks.map(b => b.id)));
+      } else {
+        startDropAnimation(optimizedBricks.length);
+      }
+      // Edits get the front view (or the only view) of a multi-view generation
+      setSourceImage(request.image || request.views?.find(v => v.view === 'front')?.file || request.views?.[0]?.file || null);
+    });
+  };
+
+  // Edits the current build; only bricks that changed are replaced and dropped in
+  const handleRefine = (instruction: string, includeImage: boolean) => {
+    setLastGeneration({ type: 'refine', instruction, includeImage });
+    return runGeneration(
+      {
+        prompt: instruction,
+        ...toEditRequest(bricks),
+        image: includeImage ? sourceImage || undefined : undefined,
+      },
+      voxels => {
+        const diff = applyVoxelDiff(bricks, voxels, generationSettings.optimizer, inventory);
+        if (diff.added.length === 0 && diff.removed === 0) {
+          setGenerationError(new GenerationError('empty', "The model didn't change anything. Try rephrasing the instruction."));
+          return;
+        }
+        saveToHistory(diff.bricks);
+        startDropAnimation(diff.added.length, new Set(diff.added.map(b => b.id)));
+        if (diff.missing.length > 0) {
+          setRepairNotes(prev => [...prev, `Still ${diff.missing.length} brick(s) short; see the missing parts list`]);
+        }
+        setMissingParts(diff.missing);
+      }
+    );
+  };
+
+  const retryGeneration = () => {
+    if (!lastGeneration) return;
+    if (lastGeneration.type === 'generate') handleGenerate(lastGeneration.request);
+    else handleRefine(lastGeneration.instruction, lastGeneration.includeImage);
+  };
+
+  if (!hasApiKey && getProvider(generationSettings.providerId).requiresApiKey) {
      return (
        <div className="w-full h-screen bg-gray-900 flex flex-col items-center justify-center text-white p-4">
           <div className="bg-gray-800 p-8 rounded-2xl shadow-2xl max-w-md text-center border border-gray-700">
@@ -507,6 +752,12 @@ function App() {
             >
               Select API Key
             </button>
+            <button
+              onClick={() => updateGenerationSettings({ ...generationSettings, providerId: 'offline' })}
+              className="w-full mt-3 bg-gray-700 hover:bg-gray-600 text-gray-200 font-bold py-3 px-6 rounded-xl transition-colors"
+            >
+              Continue Offline
+            </button>
             <div className="mt-6 text-xs text-gray-500">
                Must use a paid project. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline hover:text-gray-300">Billing Information</a>
             </div>
@@ -523,7 +774,10 @@ function App() {
         selectedColor={selectedColor}
         setSelectedColor={setSelectedColor}
         onGenerate={handleGenerate}
+        onRefine={handleRefine}
+        hasSourceImage={!!sourceImage}
         isGenerating={isGenerating}
+        supportsTextPrompt={getProvider(generationSettings.providerId).supportsTextPrompt}
         clearBricks={clearBricks}
         selectedBrickType={selectedBrickType}
         setSelectedBrickType={setSelectedBrickType}
@@ -533,22 +787,215 @@ function App() {
         onRedo={redo}
         canUndo={currentHistoryIndex > 0}
         canRedo={currentHistoryIndex < history.length - 1}
+        projectName={currentProject.name}
+        isDirty={isDirty}
+        onOpenLibrary={() => setIsLibraryOpen(true)}
+        onExport={handleExport}
+        onImport={handleImport}
+        onOpenPartsList={() => setIsPartsListOpen(true)}
+        onOpenInstructions={() => setIsInstructionsOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenBaseplates={() => setIsBaseplatesOpen(true)}
+        onOpenInventory={() => setIsInventoryOpen(true)}
+        onOpenHollow={() => setIsHollowOpen(true)}
+        onOpenOptimize={() => setIsOptimizeOpen(true)}
       />
       <Scene 
-        bricks={bricks || []} 
+        canvasRef={canvasRef}
+        bricks={streamPreview.length > 0 ? streamPreview : bricks || []} 
+        baseplates={baseplates}
         addBrick={addBrick} 
         removeBrick={removeBrick}
         selectedColor={selectedColor}
         toolMode={toolMode}
         selectedBrickType={selectedBrickType}
-        rotated={rotated}
+        rotation={rotation}
+        occupancy={occupancy}
+        placementOptions={placementOptions}
         playLandedSound={playLandedSound}
         buildKey={buildKey}
         isAnimating={isAnimating}
+        animatingIds={animatingIds}
+        settledIds={settledIds}
         liftedGroup={liftedGroup}
         onLiftBrick={handleLiftBrick}
         onDropGroup={handleDropGroup}
       />
+      <ProjectLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        currentProjectId={currentProject.id}
+        currentProjectName={currentProject.name}
+        isDirty={isDirty}
+        onSave={handleSaveProject}
+        onSaveAs={handleSaveProjectAs}
+        onOpen={handleOpenProject}
+        onProjectRenamed={handleProjectRenamed}
+        onProjectDeleted={handleProjectDeleted}
+      />
+      <PartsListPanel
+        isOpen={isPartsListOpen}
+        onClose={() => setIsPartsListOpen(false)}
+        bricks={bricks || []}
+        projectName={currentProject.name}
+      />
+      <PartsListPanel
+        isOpen={isMissingPartsOpen}
+        onClose={() => setIsMissingPartsOpen(false)}
+        bricks={missingParts}
+        projectName={`${currentProject.name} missing`}
+        title="Missing Parts"
+      />
+      <HollowDialog
+        isOpen={isHollowOpen}
+        onClose={() => setIsHollowOpen(false)}
+        bricks={bricks || []}
+        onApply={handleHollow}
+      />
+      <OptimizeDialog
+        isOpen={isOptimizeOpen}
+        onClose={() => setIsOptimizeOpen(false)}
+        bricks={bricks || []}
+        settings={generationSettings.optimizer}
+        onApply={handleOptimize}
+      />
+      <InventoryPanel
+        isOpen={isInventoryOpen}
+        onClose={() => setIsInventoryOpen(false)}
+        items={inventory}
+        onChange={updateInventory}
+        bricks={bricks || []}
+      />
+      <InstructionsViewer
+        isOpen={isInstructionsOpen}
+        onClose={closeInstructions}
+        bricks={bricks || []}
+        projectName={currentProject.name}
+      />
+      <BaseplateDialog
+        isOpen={isBaseplatesOpen}
+        onClose={() => setIsBaseplatesOpen(false)}
+        baseplates={baseplates}
+        onChange={handleBaseplatesChange}
+      />
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={generationSettings}
+        onChange={updateGenerationSettings}
+      />
+
+      {/* Generation Progress */}
+      {isGenerating && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 bg-white rounded-2xl shadow-2xl border border-gray-100 p-4 flex items-center gap-4">
+          <svg className="animate-spin h-6 w-6 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          <div>
+            <p className="font-bold text-gray-800 text-sm">Generating with {getProvider(generationSettings.providerId).label}…</p>
+            <p className="text-xs text-gray-500">
+              {streamPreview.length > 0 ? `${streamPreview.length} bricks received` : 'Waiting for the model'}
+            </p>
+          </div>
+          <button
+            onClick={cancelGeneration}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-xl font-bold text-sm"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Generation Error */}
+      {generationError && !isGenerating && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 bg-white rounded-2xl shadow-2xl border border-red-100 p-4 flex items-start gap-4 max-w-lg">
+          <span className="text-3xl">⚠️</span>
+          <div className="flex-1 min-w-0">
+            <p className="font-bold text-gray-800 text-sm">{describeGenerationError(generationError).title}</p>
+            <p className="text-xs text-gray-500 mt-1 break-words">{generationError.message}</p>
+            {describeGenerationError(generationError).advice && (
+              <p className="text-xs text-gray-700 mt-1">{describeGenerationError(generationError).advice}</p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            {generationError.kind === 'auth' || generationError.kind === 'quota' || generationError.kind === 'timeout' ? (
+              <button
+                onClick={() => { setGenerationError(null); setIsSettingsOpen(true); }}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-xl font-bold text-sm shadow-md"
+              >
+                Settings
+              </button>
+            ) : null}
+            {lastGeneration && generationError.kind !== 'auth' && (
+              <button
+                onClick={retryGeneration}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-xl font-bold text-sm shadow-md"
+              >
+                Retry
+              </button>
+            )}
+            <button
+              onClick={() => setGenerationError(null)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-xl font-bold text-sm"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Generation Repair Summary */}
+      {repairNotes.length > 0 && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 bg-white rounded-2xl shadow-2xl border border-gray-100 p-4 flex items-start gap-4 max-w-lg">
+          <span className="text-3xl">🔧</span>
+          <div className="flex-1">
+            <p className="font-bold text-gray-800 text-sm">Fixed up the generated model</p>
+            <ul className="text-xs text-gray-500 list-disc pl-4 mt-1">
+              {repairNotes.map(note => <li key={note}>{note}</li>)}
+            </ul>
+          </div>
+          {missingParts.length > 0 && (
+            <button
+              onClick={() => setIsMissingPartsOpen(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-xl font-bold text-sm shadow-md"
+            >
+              Missing parts
+            </button>
+          )}
+          <button
+            onClick={() => setRepairNotes([])}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-xl font-bold text-sm"
+          >
+            OK
+          </button>
+        </div>
+      )}
+
+      {/* Crash Recovery Prompt */}
+      {recovery && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 bg-white rounded-2xl shadow-2xl border border-gray-100 p-4 flex items-center gap-4 max-w-lg">
+          <span className="text-3xl">🛟</span>
+          <div className="flex-1">
+            <p className="font-bold text-gray-800 text-sm">Recover unsaved build?</p>
+            <p className="text-xs text-gray-500">
+              "{recovery.projectName}" · {recovery.bricks.length} bricks · {new Date(recovery.savedAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={handleRestoreRecovery}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-xl font-bold text-sm shadow-md"
+          >
+            Restore
+          </button>
+          <button
+            onClick={handleDiscardRecovery}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-2 rounded-xl font-bold text-sm"
+          >
+            Discard
+          </button>
+        </div>
+      )}
     </div>
   );
 }
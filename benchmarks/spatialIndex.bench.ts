@@ -0,0 +1,123 @@
+import { BrickData } from "../types";
+import { PLATES_PER_BRICK } from "../constants";
+import { getBrickCells } from "../services/brickGeometry";
+import { createSpatialIndex } from "../services/spatialIndex";
+import { validatePlacement } from "../services/placement";
+import { createDefaultBaseplates } from "../services/baseplates";
+
+/**
+ * Times the board operations that run while someone builds by hand, on a 10,000-brick
+ * model, against how long each may take before the app feels sluggish. Run with
+ * `npm run bench`; it exits with an error if anything is over budget.
+ */
+
+const BRICK_COUNT = 10_000;
+// One frame at 60 fps, for work that can run on every pointer move
+const FRAME_BUDGET_MS = 16;
+// Handling a click, or the ghost moving on to another stud, within this still feels instant
+const RESPONSE_BUDGET_MS = 50;
+// Opening a project happens once, so it may take a few frames
+const LOAD_BUDGET_MS = 250;
+
+// 2x2 bricks on a 20x20 area, every other layer shifted by a stud so the layers interlock
+const buildTower = (): BrickData[] => {
+  const bricks: BrickData[] = [];
+  for (let layer = 0; bricks.length < BRICK_COUNT; layer++) {
+    const shift = layer % 2;
+    for (let x = -10 + shift; x + 1 <= 10 && bricks.length < BRICK_COUNT; x += 2) {
+      for (let z = -10 + shift; z + 1 <= 10 && bricks.length < BRICK_COUNT; z += 2) {
+        bricks.push({ id: `b${bricks.length}`, x, y: layer * PLATES_PER_BRICK, z, sizeX: 2, sizeZ: 2, color: "#B40000" });
+      }
+    }
+  }
+  return bricks;
+};
+
+// Median of several runs after a few warm-up runs, in milliseconds; the app runs these
+// paths over and over, so they are measured once the JIT has compiled them
+const time = (runs: number, fn: (run: number) => void): number => {
+  for (let run = 0; run < 3; run++) fn(run);
+  const samples: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    const start = performance.now();
+    fn(run);
+    samples.push(performance.now() - start);
+  }
+  return samples.sort((a, b) => a - b)[Math.floor(samples.length / 2)];
+};
+
+const bricks = buildTower();
+const baseplates = createDefaultBaseplates();
+const topY = Math.max(...bricks.map(b => b.y));
+const index = createSpatialIndex();
+const results: Array<{ name: string, ms: number, budget: number }> = [];
+
+results.push({ name: "Index a new build", ms: time(5, () => createSpatialIndex(bricks)), budget: LOAD_BUDGET_MS });
+index.sync(bricks);
+
+// Hovering: one ghost check per pointer move, on top of the build and inside it
+results.push({
+  name: "Check the build ghost",
+  ms: time(200, run => validatePlacement(
+    [{ id: "ghost", x: (run % 19) - 9, y: run % 2 ? topY + PLATES_PER_BRICK : topY / 2, z: 0, sizeX: 2, sizeZ: 4, color: "#B40000" }],
+    index,
+    { requireSupport: true, baseplates }
+  )),
+  budget: FRAME_BUDGET_MS,
+});
+
+// The scan the index replaces: collect every cell of the board for each check
+results.push({
+  name: "  (same check by scanning all bricks)",
+  ms: time(5, () => {
+    const occupied = new Set(bricks.flatMap(getBrickCells).map(cell => cell.join(",")));
+    occupied.has("0,0,0");
+  }),
+  budget: Infinity,
+});
+
+// Lifting from halfway up the tower takes everything above with it
+const liftStart = bricks.find(b => b.y === Math.floor(topY / PLATES_PER_BRICK / 2) * PLATES_PER_BRICK)!;
+let lifted: BrickData[] = [];
+results.push({
+  name: "Find the bricks a lift takes along",
+  ms: time(5, () => {
+    const queue = [liftStart];
+    const seen = new Set([liftStart.id]);
+    for (let head = 0; head < queue.length; head++) {
+      index.bricksOnTop(queue[head]).forEach(b => {
+        if (!seen.has(b.id)) {
+          seen.add(b.id);
+          queue.push(b);
+        }
+      });
+    }
+    lifted = queue;
+  }),
+  budget: RESPONSE_BUDGET_MS,
+});
+
+// Moving that group around: it's checked each time the ghost moves to another stud
+const liftedIds = new Set(lifted.map(b => b.id));
+const remaining = bricks.filter(b => !liftedIds.has(b.id));
+const remainingIndex = createSpatialIndex(remaining);
+results.push({
+  name: `Check a lifted group of ${lifted.length} bricks`,
+  ms: time(20, run => validatePlacement(lifted.map(b => ({ ...b, x: b.x + (run % 3) - 1 })), remainingIndex)),
+  budget: RESPONSE_BUDGET_MS,
+});
+
+// A click: the new history step shares every other brick with the last one
+results.push({
+  name: "Sync the index after adding a brick",
+  ms: time(20, run => index.sync([...bricks, { id: `new${run}`, x: 0, y: topY + PLATES_PER_BRICK, z: 0, sizeX: 2, sizeZ: 4, color: "#B40000" }])),
+  budget: RESPONSE_BUDGET_MS,
+});
+results.push({ name: "Sync the index after an undo", ms: time(20, () => index.sync(bricks)), budget: RESPONSE_BUDGET_MS });
+
+console.log(`Spatial index, ${bricks.length} bricks (${Math.round(topY / PLATES_PER_BRICK) + 1} layers)\n`);
+results.forEach(({ name, ms, budget }) => {
+  const verdict = budget === Infinity ? "" : ms <= budget ? `ok (budget ${budget} ms)` : `TOO SLOW (budget ${budget} ms)`;
+  console.log(`${name.padEnd(42)} ${ms.toFixed(2).padStart(9)} ms  ${verdict}`);
+});
+if (results.some(r => r.ms > r.budget)) process.exitCode = 1;
@@ -0,0 +1,89 @@
+import { readFileSync } from "node:fs";
+import { BrickColor, BrickData } from "../types";
+import { PLATES_PER_BRICK } from "../constants";
+import { exportLDraw, importLDraw } from "../services/ldraw";
+import { getBrickRotation } from "../services/brickGeometry";
+
+/**
+ * Opens a reference LDraw model whose layout is known from how LDraw viewers show it, and
+ * checks it lands the same way round on our board, then writes it back out unchanged. A
+ * mapping that mirrors the model still round-trips on its own, so both halves are needed.
+ * The same model moved off the stud grid or off the ground has to come in the same too.
+ * Run with `npm run check`; it exits with an error if anything is off.
+ */
+
+const text = readFileSync(new URL("./ldrawOrientation.ldr", import.meta.url), "utf8");
+const failures: string[] = [];
+const expect = (what: string, actual: unknown, expected: unknown) => {
+  if (actual !== expected) failures.push(`${what}: expected ${expected}, got ${actual}`);
+};
+
+const { bricks, baseplates, unsupported } = importLDraw(text);
+expect("parts imported", bricks.length, 4);
+expect("parts skipped", unsupported.length, 0);
+expect("baseplates imported", baseplates.length, 1);
+expect("baseplate corner", `${baseplates[0]?.x},${baseplates[0]?.z}`, "-8,-8");
+
+// The scene's front is +Z, LDraw's is -Z; left (-X) is left in both
+const find = (color: string) => bricks.find(b => b.color === color);
+const [base, ramp, wedge, top] = [BrickColor.RED, BrickColor.BLUE, BrickColor.GREEN, BrickColor.YELLOW].map(find);
+expect("2x4 brick corner", `${base?.x},${base?.y},${base?.z}`, "-1,0,-1");
+expect("2x2 slope corner", `${ramp?.x},${ramp?.y},${ramp?.z}`, "-1,0,1");
+// Slopes run down towards -Z unrotated, so one facing the front is turned half way
+expect("2x2 slope rotation", ramp && getBrickRotation(ramp), 180);
+expect("2x1 slope corner", `${wedge?.x},${wedge?.y},${wedge?.z}`, "1,0,1");
+expect("2x1 slope rotation", wedge && getBrickRotation(wedge), 90);
+expect("1x1 brick corner", `${top?.x},${top?.y},${top?.z}`, `2,${PLATES_PER_BRICK},-1`);
+
+const partLines = (ldr: string) => ldr.split(/\r?\n/).filter(line => line.startsWith("1 ")).sort();
+expect("exported parts", partLines(exportLDraw(bricks, baseplates, "check").text).join("\n"), partLines(text).join("\n"));
+
+// Where each part sits relative to the red brick, which also stays on the ground
+const layout = (imported: BrickData[]) => {
+  const origin = imported.find(b => b.color === BrickColor.RED);
+  return imported
+    .map(b => `${b.color} ${b.x - (origin?.x ?? 0)},${b.y},${b.z - (origin?.z ?? 0)} ${getBrickRotation(b)}`)
+    .sort()
+    .join("; ");
+};
+
+// The reference model moved by (dx, dy, dz) LDU, optionally without its baseplate
+const moved = (dx: number, dy: number, dz: number, keepBaseplate = true) => text
+  .split(/\r?\n/)
+  .filter(line => keepBaseplate || !line.endsWith("3867.dat"))
+  .map(line => {
+    if (!line.startsWith("1 ")) return line;
+    const tokens = line.split(" ");
+    [dx, dy, dz].forEach((d, i) => { tokens[2 + i] = String(Number(tokens[2 + i]) + d); });
+    return tokens.join(" ");
+  })
+  .join("\n");
+
+const expected = layout(bricks);
+([
+  ["half a stud off", moved(10, 0, -10)],
+  ["half a stud off, no baseplate", moved(10, 0, 10, false)],
+  ["raised, no baseplate", moved(0, -40, 0, false)],
+  ["sunk, no baseplate", moved(0, 16, 0, false)],
+  ["raised on its baseplate", moved(20, -80, 20)],
+] as const).forEach(([what, ldr]) => {
+  const result = importLDraw(ldr);
+  expect(`${what}: parts skipped`, result.unsupported.map(u => u.part).join(", "), "");
+  expect(`${what}: layout`, layout(result.bricks), expected);
+});
+
+// An even-width part centred on the origin, with a 1x1 brick on its back right stud
+const evenWidth = importLDraw([
+  "1 4 0 -24 0 1 0 0 0 1 0 0 0 1 3001.dat",
+  "1 14 30 -48 10 1 0 0 0 1 0 0 0 1 3005.dat",
+].join("\n"));
+expect("even width at the origin: parts skipped", evenWidth.unsupported.map(u => u.part).join(", "), "");
+expect("even width at the origin: layout", layout(evenWidth.bricks), `${BrickColor.YELLOW} 3,${PLATES_PER_BRICK},0 0; ${BrickColor.RED} 0,0,0 90`);
+
+if (failures.length > 0) {
+  console.log(`LDraw orientation: ${failures.length} problem(s)\n`);
+  failures.forEach(failure => console.log(`  ${failure}`));
+  process.exitCode = 1;
+} else {
+  console.log("LDraw orientation: ok");
+}
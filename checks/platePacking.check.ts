@@ -0,0 +1,83 @@
+import { BrickColor, BrickData, InventoryItem, OptimizerMode, Voxel } from "../types";
+import { PLATES_PER_BRICK } from "../constants";
+import { bricksToVoxels, optimizeBuild } from "../services/brickOptimizer";
+import { findBrickType, getBrickCells } from "../services/brickGeometry";
+
+/**
+ * Packs a small model with a plate-thin roof and a smooth-topped ledge in every optimizer
+ * mode, and checks each fills exactly the plates it should, with plates and tiles where
+ * the voxels aren't a whole layer, then splits back into the same voxels.
+ * Run with `npm run check`; it exits with an error if anything is off.
+ */
+
+const failures: string[] = [];
+const expect = (what: string, actual: unknown, expected: unknown) => {
+  if (actual !== expected) failures.push(`${what}: expected ${expected}, got ${actual}`);
+};
+
+const voxels: Voxel[] = [];
+const add = (x: number, y: number, z: number, color: string, shape: Pick<Voxel, "plates" | "tile"> = {}) =>
+  voxels.push({ x, y, z, color, ...shape });
+for (let x = 0; x < 4; x++) {
+  for (let z = 0; z < 2; z++) {
+    // A whole red layer, half of it roofed with one blue plate, half with a white plate
+    // and a white tile on top
+    add(x, 0, z, BrickColor.RED);
+    if (x < 2) add(x, 1, z, BrickColor.BLUE, { plates: 1 });
+    else add(x, 1, z, BrickColor.WHITE, { plates: 2, tile: true });
+  }
+}
+// A thin voxel with another on top is filled up to the whole layer
+add(0, 1, 2, BrickColor.YELLOW, { plates: 1 });
+add(0, 2, 2, BrickColor.YELLOW);
+
+// The plate cells each voxel should fill, with their colour, plus the cells with a smooth top
+const expectedCells = new Map<string, string>();
+const expectedTiles = new Set<string>();
+voxels.forEach(v => {
+  const covered = voxels.some(o => o.x === v.x && o.y === v.y + 1 && o.z === v.z);
+  const plates = covered ? PLATES_PER_BRICK : v.plates || PLATES_PER_BRICK;
+  for (let i = 0; i < plates; i++) expectedCells.set(`${v.x},${v.y * PLATES_PER_BRICK + i},${v.z}`, v.color);
+  if (v.tile) expectedTiles.add(`${v.x},${v.y * PLATES_PER_BRICK + plates - 1},${v.z}`);
+});
+
+const describeVoxels = (list: Voxel[]) => list
+  .map(v => `${v.x},${v.y},${v.z} ${v.color} ${v.plates || "whole"}${v.tile ? " tile" : ""}`)
+  .sort()
+  .join("; ");
+const expectedVoxels = describeVoxels(voxels.map(v => (v.color === BrickColor.YELLOW ? { ...v, plates: undefined } : v)));
+
+// Plenty of every part that could come up, so inventory mode packs the same as the others
+const inventory: InventoryItem[] = [BrickColor.RED, BrickColor.BLUE, BrickColor.WHITE, BrickColor.YELLOW].flatMap(color =>
+  ["1x1", "1x2", "2x2", "2x4", "Plate 1x1", "Plate 1x2", "Plate 2x2", "Plate 2x4", "Tile 1x1", "Tile 1x2", "Tile 2x2"]
+    .map(type => ({ type, color, count: 20 }))
+);
+
+(["greedy", "stable", "inventory"] as OptimizerMode[]).forEach(mode => {
+  const { bricks, missing } = optimizeBuild(voxels, { mode, mergeHiddenColors: false }, [], inventory);
+  expect(`${mode}: missing parts`, missing.length, 0);
+  expect(`${mode}: unknown parts`, bricks.filter(b => !findBrickType(b)).length, 0);
+
+  const filled = new Map<string, BrickData>();
+  bricks.forEach(b => getBrickCells(b).forEach(([x, y, z]) => {
+    const key = `${x},${y},${z}`;
+    if (filled.has(key)) failures.push(`${mode}: ${key} filled twice`);
+    filled.set(key, b);
+  }));
+  expect(`${mode}: plates filled`, filled.size, expectedCells.size);
+  expectedCells.forEach((color, key) => {
+    const brick = filled.get(key);
+    expect(`${mode}: colour at ${key}`, brick?.color, color);
+    expect(`${mode}: smooth top at ${key}`, !!brick?.tile, expectedTiles.has(key));
+  });
+
+  expect(`${mode}: voxels back`, describeVoxels(bricksToVoxels(bricks)), expectedVoxels);
+});
+
+if (failures.length > 0) {
+  console.log(`Plate packing: ${failures.length} problem(s)\n`);
+  failures.forEach(failure => console.log(`  ${failure}`));
+  process.exitCode = 1;
+} else {
+  console.log("Plate packing: ok");
+}
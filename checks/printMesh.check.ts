@@ -0,0 +1,84 @@
+import { BrickColor, BrickData } from "../types";
+import { BRICK_TYPES, PLATES_PER_BRICK } from "../constants";
+import { brickShapeFor } from "../services/brickGeometry";
+import { buildPrintGeometry } from "../services/meshExport";
+import { createBaseplate } from "../services/baseplates";
+
+/**
+ * Builds the STL geometry for a few scenes that are hard to fuse (parts meeting only along
+ * an edge or at a corner, slopes side by side, round parts, wheels, studs on everything)
+ * and checks each is a closed 2-manifold: every edge belongs to exactly two triangles,
+ * which run along it in opposite directions. Run with `npm run check`; it exits with an
+ * error if anything is off.
+ */
+
+const failures: string[] = [];
+
+let nextId = 0;
+const part = (label: string, x: number, y: number, z: number, rotation = 0): BrickData => {
+  const type = BRICK_TYPES.find(t => t.label === label);
+  if (!type) throw new Error(`No part ${label}`);
+  return { id: String(nextId++), x, y, z, color: BrickColor.RED, ...brickShapeFor(type, rotation) };
+};
+
+const B = PLATES_PER_BRICK;
+const scenes: Array<{ name: string, bricks: BrickData[], baseplate: boolean }> = [
+  { name: "one brick on the baseplate", bricks: [part("2x4", 0, 0, 0)], baseplate: true },
+  {
+    name: "parts meeting along an edge or at a corner",
+    bricks: [part("1x1", 0, 0, 0), part("1x1", 1, 0, 1), part("1x1", 1, B, 0), part("1x1", 2, 2 * B, 1)],
+    baseplate: false,
+  },
+  {
+    name: "slopes, side by side and against bricks",
+    bricks: [
+      part("2x4", 0, 0, 0, 90), part("Slope 45 2x2", 0, 0, 2), part("Slope 45 2x2", 2, 0, 2),
+      part("Slope 45 2x1", 0, B, 0, 180), part("Inverted Slope 45 2x2", 0, B, 2), part("1x1", 4, 0, 3),
+    ],
+    baseplate: true,
+  },
+  {
+    name: "round parts, wheels, arches and plates",
+    bricks: [
+      part("Round 1x1", 0, 0, 0), part("Round 1x1", 0, B, 0), part("Arch 1x4", 2, 0, 0), part("Corner 2x2", 0, 0, 2),
+      part("2x2 Axle", 3, 0, 2), part("Wheel", 6, 0, 0, 90), part("Plate 2x2", 2, B, 0), part("Tile 1x2", 4, B, 0),
+    ],
+    baseplate: true,
+  },
+];
+
+scenes.forEach(({ name, bricks, baseplate }) => {
+  const geometry = buildPrintGeometry(bricks, [createBaseplate({ x: -2, z: -2, width: 12, depth: 10 })], {
+    includeStuds: true,
+    includeBaseplate: baseplate,
+  });
+  const positions = geometry.getAttribute("position").array;
+  geometry.dispose();
+
+  // Triangles going a -> b along each edge, by the exact positions an STL would hold
+  const directed = new Map<string, number>();
+  const vertex = (i: number) => `${positions[i * 3]},${positions[i * 3 + 1]},${positions[i * 3 + 2]}`;
+  for (let t = 0; t < positions.length / 9; t++) {
+    const corners = [vertex(t * 3), vertex(t * 3 + 1), vertex(t * 3 + 2)];
+    corners.forEach((a, i) => {
+      const key = `${a} -> ${corners[(i + 1) % 3]}`;
+      directed.set(key, (directed.get(key) || 0) + 1);
+    });
+  }
+
+  let bad = 0;
+  directed.forEach((count, key) => {
+    const [a, b] = key.split(" -> ");
+    if (count !== 1 || directed.get(`${b} -> ${a}`) !== 1) bad++;
+  });
+  if (positions.length === 0) failures.push(`${name}: no triangles`);
+  if (bad > 0) failures.push(`${name}: ${bad} of ${directed.size} edges aren't shared by exactly two triangles`);
+});
+
+if (failures.length > 0) {
+  console.log(`Print mesh: ${failures.length} problem(s)\n`);
+  failures.forEach(failure => console.log(`  ${failure}`));
+  process.exitCode = 1;
+} else {
+  console.log("Print mesh: ok");
+}
@@ -0,0 +1,80 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { CylinderGeometry, InstancedMesh, Matrix4, MeshStandardMaterial, Vector3 } from 'three';
+import { Baseplate as BaseplateData } from '../types';
+import { BRICK_DEPTH, BRICK_WIDTH, PLATE_HEIGHT, STUD_HEIGHT, STUD_RADIUS } from '../constants';
+import { getBaseplateCells } from '../services/baseplates';
+import { getStudLogoTexture } from '../services/studLogo';
+
+interface BaseplateProps {
+  plate: BaseplateData;
+  onPlaneClick: (point: Vector3) => void;
+  onPlaneMove: (point: Vector3) => void;
+}
+
+// Same shape as brick studs; shared by every baseplate, so never disposed
+const studGeometry = new CylinderGeometry(STUD_RADIUS, STUD_RADIUS, STUD_HEIGHT, 16);
+const scratch = new Matrix4();
+
+/**
+ * One baseplate: a plate-thick slab whose top is the ground parts stand on, and its studs
+ * as a single instanced mesh. Only the slab takes pointer events; studs are too small to aim at.
+ */
+const Baseplate: React.FC<BaseplateProps> = ({ plate, onPlaneClick, onPlaneMove }) => {
+  const studsRef = useRef<InstancedMesh>(null);
+  const cells = useMemo(() => (plate.studded ? getBaseplateCells(plate) : []), [plate]);
+
+  const studMaterial = useMemo(() => {
+    const standard = (map?: MeshStandardMaterial['map']) =>
+      new MeshStandardMaterial({ color: plate.color, roughness: 0.2, metalness: 0.1, map });
+    const plain = standard();
+    // Cylinder groups are side, top, bottom; only the top carries the lettering
+    return [plain, standard(getStudLogoTexture()), plain];
+  }, [plate.color]);
+  useEffect(() => () => studMaterial.forEach(material => material.dispose()), [studMaterial]);
+
+  useLayoutEffect(() => {
+    const mesh = studsRef.current;
+    if (!mesh) return;
+    cells.forEach(([x, z], index) => {
+      mesh.setMatrixAt(index, scratch.makeTranslation(x * BRICK_WIDTH, STUD_HEIGHT / 2, z * BRICK_DEPTH));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+    // A new colour makes a new material, and with it a new mesh
+  }, [cells, studMaterial]);
+
+  return (
+    <group>
+      <mesh
+        position={[
+          (plate.x + (plate.width - 1) / 2) * BRICK_WIDTH,
+          -PLATE_HEIGHT / 2,
+          (plate.z + (plate.depth - 1) / 2) * BRICK_DEPTH,
+        ]}
+        receiveShadow
+        onClick={(e) => {
+          e.stopPropagation();
+          onPlaneClick(e.point);
+        }}
+        onPointerMove={(e) => {
+          e.stopPropagation();
+          onPlaneMove(e.point);
+        }}
+      >
+        <boxGeometry args={[plate.width * BRICK_WIDTH, PLATE_HEIGHT, plate.depth * BRICK_DEPTH]} />
+        <meshStandardMaterial color={plate.color} roughness={0.2} metalness={0.1} />
+      </mesh>
+      {cells.length > 0 && (
+        // Keyed by count: an instanced mesh can't grow after it's created
+        <instancedMesh
+          key={cells.length}
+          ref={studsRef}
+          args={[studGeometry, studMaterial, cells.length]}
+          castShadow
+        />
+      )}
+    </group>
+  );
+};
+
+export default Baseplate;
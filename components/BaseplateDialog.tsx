@@ -0,0 +1,163 @@
+import React from 'react';
+import { Baseplate } from '../types';
+import {
+  createBaseplate,
+  findOverlappingBaseplates,
+  nextBaseplatePosition,
+  MAX_BASEPLATE_SIZE,
+} from '../services/baseplates';
+
+interface BaseplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  baseplates: Baseplate[];
+  onChange: (baseplates: Baseplate[]) => void;
+}
+
+const inputClass = "px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-blue-400 outline-none text-sm text-gray-800";
+
+const toInteger = (value: string) => Math.floor(Number(value)) || 0;
+const toSize = (value: string) => Math.min(MAX_BASEPLATE_SIZE, Math.max(1, toInteger(value)));
+
+const BaseplateDialog: React.FC<BaseplateDialogProps> = ({ isOpen, onClose, baseplates, onChange }) => {
+  if (!isOpen) return null;
+
+  const overlapping = findOverlappingBaseplates(baseplates);
+
+  const update = (id: string, patch: Partial<Omit<Baseplate, 'id'>>) => {
+    onChange(baseplates.map(plate => (plate.id === id ? { ...plate, ...patch } : plate)));
+  };
+
+  const handleAdd = () => {
+    const template = baseplates[baseplates.length - 1] || createBaseplate();
+    const { width, depth, color, studded } = template;
+    onChange([...baseplates, createBaseplate({ ...nextBaseplatePosition(baseplates, width, depth), width, depth, color, studded })]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>🟩</span> Baseplates
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Parts can be placed over any baseplate · new builds are generated on the first one
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Table */}
+        <div className="flex-1 overflow-y-auto p-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 uppercase">
+                <th className="pb-2">Plate</th>
+                <th className="pb-2">Corner (x, z)</th>
+                <th className="pb-2">Size (studs)</th>
+                <th className="pb-2">Color</th>
+                <th className="pb-2">Studs</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {baseplates.map((plate, index) => (
+                <tr key={plate.id} className="border-t border-gray-100">
+                  <td className="py-2 font-bold text-gray-700">
+                    #{index + 1}
+                    {overlapping.has(plate.id) && (
+                      <span className="block text-xs font-normal text-orange-500">Overlaps another plate</span>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      value={plate.x}
+                      onChange={e => update(plate.id, { x: toInteger(e.target.value) })}
+                      className={`${inputClass} w-16`}
+                    />
+                    <input
+                      type="number"
+                      value={plate.z}
+                      onChange={e => update(plate.id, { z: toInteger(e.target.value) })}
+                      className={`${inputClass} w-16 ml-1`}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_BASEPLATE_SIZE}
+                      value={plate.width}
+                      onChange={e => update(plate.id, { width: toSize(e.target.value) })}
+                      className={`${inputClass} w-16`}
+                    />
+                    <span className="text-gray-400 mx-1">×</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_BASEPLATE_SIZE}
+                      value={plate.depth}
+                      onChange={e => update(plate.id, { depth: toSize(e.target.value) })}
+                      className={`${inputClass} w-16`}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="color"
+                      value={plate.color}
+                      onChange={e => update(plate.id, { color: e.target.value.toUpperCase() })}
+                      className="w-10 h-8 rounded-lg border-2 border-gray-200 cursor-pointer"
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      checked={plate.studded}
+                      onChange={e => update(plate.id, { studded: e.target.checked })}
+                      title="Studded (off for a smooth plate)"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => onChange(baseplates.filter(p => p.id !== plate.id))}
+                      disabled={baseplates.length === 1}
+                      className="p-1 rounded-lg hover:bg-gray-100 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400"
+                      title={baseplates.length === 1 ? "A project needs at least one baseplate" : "Remove"}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-3">
+            Parts already on the board stay where they are when a plate is moved, resized or removed.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex gap-2 justify-end rounded-b-2xl">
+          <button
+            onClick={handleAdd}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1"
+          >
+            Add Baseplate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BaseplateDialog;
@@ -0,0 +1,254 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { Color, Euler, InstancedMesh, Material, Matrix4, MeshStandardMaterial, Quaternion, Vector3 } from 'three';
+import { BrickData } from '../types';
+import { BrickPrimitive, getBrickCenter, getBrickPrimitives } from '../services/brickGeometry';
+import { getSharedGeometry, sharedGeometryKey } from '../services/primitiveGeometry';
+import { getStudLogoTexture } from '../services/studLogo';
+
+// How a primitive is shaded; fixed-colour parts (tyres, rims) keep their own finish
+type Finish = 'plain' | 'stud' | 'tire' | 'rim';
+
+// Every primitive sharing a geometry and finish is one instance of the same mesh
+interface Batch {
+  key: string;
+  primitive: BrickPrimitive;
+  finish: Finish;
+  items: Array<{ brick: BrickData, local: Matrix4, color: string }>;
+}
+
+// Where a brick's primitives live: [batch, instance] pairs
+type Slots = Map<string, { brick: BrickData, places: Array<[number, number]> }>;
+
+interface Drop {
+  y: number; // Centre height in scene units
+  velocity: number;
+  scaleY: number;
+  startAt: number; // Date.now() when it starts falling
+  waiting: boolean;
+}
+
+interface BrickInstancesProps {
+  bricks: BrickData[];
+  // See-through previews: plain studs, and already in place
+  ghost?: boolean;
+  // Asked once for each brick the first time it shows up: does it drop in, after how long (ms)
+  dropsIn?: (brick: BrickData) => boolean;
+  dropDelay?: (brick: BrickData) => number;
+  onLand?: () => void;
+  onBrickClick?: (e: ThreeEvent<MouseEvent>, brick: BrickData) => void;
+  onBrickHover?: (e: ThreeEvent<PointerEvent>, brick: BrickData) => void;
+  onBrickOut?: () => void;
+}
+
+// Fast drops
+const GRAVITY = 250;
+const BOUNCE_FACTOR = 0.05;
+// Below this speed a brick settles instead of bouncing
+const SETTLE_SPEED = 10;
+
+const finishOf = (primitive: BrickPrimitive): Finish =>
+  primitive.role === 'stud' || primitive.role === 'tire' || primitive.role === 'rim' ? primitive.role : 'plain';
+
+const NO_SCALE = new Vector3(1, 1, 1);
+
+// Bricks are replaced rather than edited, so each one's primitives (and where they sit
+// relative to the brick centre) are worked out once
+const primitiveCache = new WeakMap<BrickData, Array<{ primitive: BrickPrimitive, local: Matrix4 }>>();
+const primitivesOf = (brick: BrickData) => {
+  let primitives = primitiveCache.get(brick);
+  if (!primitives) {
+    primitives = getBrickPrimitives(brick, { studs: true }).map(primitive => ({
+      primitive,
+      local: new Matrix4().compose(
+        new Vector3(...primitive.position),
+        new Quaternion().setFromEuler(new Euler(...primitive.rotation)),
+        NO_SCALE
+      ),
+    }));
+    primitiveCache.set(brick, primitives);
+  }
+  return primitives;
+};
+
+const buildBatches = (bricks: BrickData[]): { batches: Batch[], slots: Slots } => {
+  const byKey = new Map<string, number>();
+  const batches: Batch[] = [];
+  const slots: Slots = new Map();
+  bricks.forEach(brick => {
+    const places: Array<[number, number]> = [];
+    primitivesOf(brick).forEach(({ primitive, local }) => {
+      const finish = finishOf(primitive);
+      const key = `${sharedGeometryKey(primitive)}|${finish}`;
+      let index = byKey.get(key);
+      if (index === undefined) {
+        index = batches.length;
+        byKey.set(key, index);
+        batches.push({ key, primitive, finish, items: [] });
+      }
+      places.push([index, batches[index].items.length]);
+      batches[index].items.push({ brick, local, color: primitive.color });
+    });
+    slots.set(brick.id, { brick, places });
+  });
+  return { batches, slots };
+};
+
+const createMaterials = (ghost: boolean): Record<Finish, Material | Material[]> => {
+  const standard = (overrides: Partial<MeshStandardMaterial> = {}) => new MeshStandardMaterial({
+    roughness: 0.2,
+    metalness: 0.1,
+    transparent: ghost,
+    opacity: ghost ? 0.6 : 1,
+    ...overrides,
+  });
+  const plain = standard();
+  return {
+    plain,
+    // Cylinder groups are side, top, bottom; only the top carries the lettering
+    stud: ghost ? plain : [plain, standard({ map: getStudLogoTexture() }), plain],
+    tire: standard({ roughness: 0.9, metalness: 0 }),
+    rim: standard({ metalness: 0.5 }),
+  };
+};
+
+const scratch = new Matrix4();
+const squash = new Matrix4();
+const tint = new Color();
+
+/**
+ * Draws bricks as one InstancedMesh per primitive geometry and finish, so a build costs a
+ * handful of draw calls however many bricks it has. Bricks drop in the first time they
+ * appear (after their delay, bouncing once), all driven from a single frame loop.
+ */
+const BrickInstances: React.FC<BrickInstancesProps> = props => {
+  const { bricks, ghost = false, onBrickClick, onBrickHover, onBrickOut } = props;
+  // The frame loop and layout effect always see the latest callbacks
+  const latest = useRef(props);
+  latest.current = props;
+
+  const materials = useMemo(() => createMaterials(ghost), [ghost]);
+  useEffect(() => () => {
+    new Set(Object.values(materials).flat()).forEach(material => material.dispose());
+  }, [materials]);
+
+  const { batches, slots } = useMemo(() => buildBatches(bricks), [bricks]);
+  const meshes = useRef<Array<InstancedMesh | null>>([]);
+  const seen = useRef(new Set<string>()).current;
+  const drops = useRef(new Map<string, Drop>()).current;
+
+  const writeBrick = (brick: BrickData, places: Array<[number, number]>, drop?: Drop) => {
+    const [x, y, z] = getBrickCenter(brick);
+    places.forEach(([batch, instance]) => {
+      const mesh = meshes.current[batch];
+      if (!mesh) return;
+      if (drop?.waiting) {
+        mesh.setMatrixAt(instance, scratch.makeScale(0, 0, 0));
+        return;
+      }
+      scratch.makeTranslation(x, drop ? drop.y : y, z);
+      if (drop && drop.scaleY !== 1) scratch.multiply(squash.makeScale(1, drop.scaleY, 1));
+      mesh.setMatrixAt(instance, scratch.multiply(batches[batch].items[instance].local));
+    });
+  };
+
+  useLayoutEffect(() => {
+    const { dropsIn = () => true, dropDelay = () => 0 } = latest.current;
+    const now = Date.now();
+    const present = new Set(bricks.map(b => b.id));
+    seen.forEach(id => {
+      if (present.has(id)) return;
+      seen.delete(id);
+      drops.delete(id);
+    });
+    bricks.forEach(brick => {
+      if (seen.has(brick.id)) return;
+      seen.add(brick.id);
+      if (ghost || !dropsIn(brick)) return;
+      const delay = dropDelay(brick);
+      drops.set(brick.id, { y: 35 + Math.random() * 10, velocity: 0, scaleY: 1, startAt: now + delay, waiting: delay > 0 });
+    });
+
+    slots.forEach(({ brick, places }, id) => writeBrick(brick, places, drops.get(id)));
+    batches.forEach((batch, index) => {
+      const mesh = meshes.current[index];
+      if (!mesh) return;
+      batch.items.forEach((item, instance) => mesh.setColorAt(instance, tint.set(item.color)));
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    });
+  }, [batches]);
+
+  useFrame((_, delta) => {
+    if (drops.size === 0) return;
+    const now = Date.now();
+    const changed = new Set<number>();
+
+    drops.forEach((drop, id) => {
+      const slot = slots.get(id);
+      if (!slot) return;
+      if (drop.waiting) {
+        if (now <= drop.startAt) return;
+        drop.waiting = false;
+      } else {
+        const targetY = getBrickCenter(slot.brick)[1];
+        drop.velocity -= GRAVITY * delta;
+        drop.y += drop.velocity * delta;
+        if (drop.y <= targetY) {
+          drop.y = targetY;
+          if (Math.abs(drop.velocity) > SETTLE_SPEED) {
+            drop.velocity = -drop.velocity * BOUNCE_FACTOR;
+            drop.scaleY = 0.98;
+          } else {
+            drops.delete(id);
+            latest.current.onLand?.();
+          }
+        }
+      }
+      writeBrick(slot.brick, slot.places, drops.get(id));
+      slot.places.forEach(([batch]) => changed.add(batch));
+      if (drop.scaleY < 1) drop.scaleY = Math.min(1, drop.scaleY + delta * 25);
+    });
+
+    changed.forEach(index => {
+      const mesh = meshes.current[index];
+      if (!mesh) return;
+      mesh.instanceMatrix.needsUpdate = true;
+      // Once everything has landed, bounds shrink back to the build for picking and culling
+      if (drops.size === 0) mesh.computeBoundingSphere();
+    });
+  });
+
+  const itemAt = (index: number, instanceId?: number) =>
+    instanceId === undefined ? undefined : batches[index].items[instanceId];
+
+  return (
+    <>
+      {batches.map((batch, index) => (
+        <instancedMesh
+          key={batch.key}
+          ref={mesh => { meshes.current[index] = mesh; }}
+          args={[getSharedGeometry(batch.primitive), materials[batch.finish], batch.items.length]}
+          castShadow
+          receiveShadow={batch.finish !== 'stud'}
+          {...(onBrickClick ? {
+            onClick: (e: ThreeEvent<MouseEvent>) => {
+              const item = itemAt(index, e.instanceId);
+              if (item) onBrickClick(e, item.brick);
+            },
+          } : {})}
+          {...(onBrickHover ? {
+            onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+              const item = itemAt(index, e.instanceId);
+              if (item) onBrickHover(e, item.brick);
+            },
+          } : {})}
+          {...(onBrickOut ? { onPointerOut: onBrickOut } : {})}
+        />
+      ))}
+    </>
+  );
+};
+
+export default BrickInstances;
@@ -1,14 +1,33 @@
 import React, { useRef, useState } from 'react';
-import { ToolMode, BrickType } from '../types';
-import { PALETTE, BRICK_TYPES } from '../constants';
+import { ToolMode, BrickType, ExportFormat, MeshExportOptions, GenerationRequest } from '../types';
+import PromptBar from './PromptBar';
+import MultiViewDialog from './MultiViewDialog';
+import { PALETTE, BRICK_TYPES, PART_CATEGORIES } from '../constants';
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat, label: string }> = [
+  { format: 'brick-json', label: 'Build file (.brick.json)' },
+  { format: 'ldraw', label: 'LDraw model (.ldr)' },
+  { format: 'gltf', label: '3D model (.glb)' },
+  { format: 'obj', label: '3D model (.obj + .mtl)' },
+  { format: 'stl', label: '3D print (.stl)' },
+];
+
+// Top view of a part: a cell is drawn if any plate of it is filled
+const topView = (type: BrickType): boolean[][] =>
+  Array.from({ length: type.sizeZ }, (_, z) =>
+    Array.from({ length: type.sizeX }, (_, x) => type.occupancy.some(layer => layer.mask[z][x] === '#'))
+  );
 
 interface ControlsProps {
   toolMode: ToolMode;
   setToolMode: (mode: ToolMode) => void;
   selectedColor: string;
   setSelectedColor: (color: string) => void;
-  onGenerate: (file: File) => void;
+  onGenerate: (request: GenerationRequest) => void;
+  onRefine: (instruction: string, includeImage: boolean) => void;
+  hasSourceImage: boolean;
   isGenerating: boolean;
+  supportsTextPrompt: boolean;
   clearBricks: () => void;
   selectedBrickType: BrickType;
   setSelectedBrickType: (type: BrickType) => void;
@@ -18,6 +37,18 @@ interface ControlsProps {
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  projectName: string;
+  isDirty: boolean;
+  onOpenLibrary: () => void;
+  onExport: (format: ExportFormat, meshOptions: MeshExportOptions) => void;
+  onImport: (file: File) => void;
+  onOpenPartsList: () => void;
+  onOpenInstructions: () => void;
+  onOpenSettings: () => void;
+  onOpenBaseplates: () => void;
+  onOpenInventory: () => void;
+  onOpenHollow: () => void;
+  onOpenOptimize: () => void;
 }
 
 const Controls: React.FC<ControlsProps> = ({
@@ -26,7 +57,10 @@ const Controls: React.FC<ControlsProps> = ({
   selectedColor,
   setSelectedColor,
   onGenerate,
+  onRefine,
+  hasSourceImage,
   isGenerating,
+  supportsTextPrompt,
   clearBricks,
   selectedBrickType,
   setSelectedBrickType,
@@ -35,15 +69,49 @@ const Controls: React.FC<ControlsProps> = ({
   onUndo,
   onRedo,
   canUndo,
-  canRedo
+  canRedo,
+  projectName,
+  isDirty,
+  onOpenLibrary,
+  onExport,
+  onImport,
+  onOpenPartsList,
+  onOpenInstructions,
+  onOpenSettings,
+  onOpenBaseplates,
+  onOpenInventory,
+  onOpenHollow,
+  onOpenOptimize
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isFileMenuOpen, setIsFileMenuOpen] = useState(false);
+  const [pendingViews, setPendingViews] = useState<File[] | null>(null);
+  const [meshOptions, setMeshOptions] = useState<MeshExportOptions>({ includeStuds: true, includeBaseplate: false });
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 1) {
+      // Several photos: let the user label which side each one shows
+      setPendingViews(Array.from(e.target.files));
+    } else if (e.target.files && e.target.files[0]) {
+      onGenerate({ image: e.target.files[0] });
+    }
+    // Allow generating again from the same image
+    e.target.value = '';
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onGenerate(e.target.files[0]);
+      onImport(e.target.files[0]);
     }
+    // Allow re-importing the same file
+    e.target.value = '';
+  };
+
+  const menuAction = (action: () => void) => () => {
+    setIsFileMenuOpen(false);
+    action();
   };
 
   return (
@@ -73,28 +141,34 @@ const Controls: React.FC<ControlsProps> = ({
         </div>
         
         <div className="flex-1 overflow-y-auto p-4 space-y-2">
-          {BRICK_TYPES.map((type) => (
-            <button
-              key={type.label}
-              onClick={() => setSelectedBrickType(type)}
-              className={`w-full p-3 rounded-xl flex items-center justify-between transition-all border-2 ${
-                selectedBrickType.label === type.label 
-                  ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm' 
-                  : 'border-transparent hover:bg-gray-50 text-gray-600'
-              }`}
-            >
-              <span className="font-bold">{type.label}</span>
-              <div className="flex gap-1">
-                 {/* Mini visualizer of the block */}
-                 <div 
-                    className="bg-gray-300 rounded-sm" 
-                    style={{ 
-                       width: `${type.sizeX * 8}px`, 
-                       height: `${type.sizeZ * 8}px` 
-                    }}
-                 ></div>
-              </div>
-            </button>
+          {PART_CATEGORIES.map(category => (
+            <div key={category} className="space-y-2">
+              <div className="text-xs font-bold text-gray-400 uppercase tracking-wide px-1 pt-2">{category}</div>
+              {BRICK_TYPES.filter(type => type.category === category).map((type) => (
+                <button
+                  key={type.label}
+                  onClick={() => setSelectedBrickType(type)}
+                  className={`w-full p-3 rounded-xl flex items-center justify-between transition-all border-2 ${
+                    selectedBrickType.label === type.label 
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 shadow-sm' 
+                      : 'border-transparent hover:bg-gray-50 text-gray-600'
+                  }`}
+                >
+                  <span className="font-bold text-left">{type.label}</span>
+                  <div className="flex gap-1">
+                     {/* Mini visualizer of the block, seen from above */}
+                     <div 
+                        className="grid" 
+                        style={{ gridTemplateColumns: `repeat(${type.sizeX}, 8px)` }}
+                     >
+                        {topView(type).flatMap((row, z) => row.map((filled, x) => (
+                          <div key={`${x}-${z}`} className={filled ? 'bg-gray-300 w-2 h-2' : 'w-2 h-2'}></div>
+                        )))}
+                     </div>
+                  </div>
+                </button>
+              ))}
+            </div>
           ))}
         </div>
 
@@ -118,19 +192,25 @@ const Controls: React.FC<ControlsProps> = ({
               <span className="text-blue-500">Genius</span>
               <span className="text-yellow-500 text-sm font-normal bg-gray-800 px-2 py-1 rounded-md text-white">AI</span>
             </h1>
+            <p className="text-xs text-gray-400 mt-1 truncate max-w-[14rem]" title={projectName}>
+              {projectName}{isDirty && <span className="text-orange-500"> •</span>}
+            </p>
           </div>
 
-          <div className="flex gap-2 ml-auto">
+          <div className="ml-auto flex flex-col items-end gap-3">
+          <div className="flex gap-2">
              <input 
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileChange} 
               accept="image/*" 
+              multiple
               className="hidden" 
             />
             <button 
               onClick={() => fileInputRef.current?.click()}
               disabled={isGenerating}
+              title="Load a photo, or select several to combine front, side, top and back views"
               className={`bg-gradient-to-r from-blue-500 to-indigo-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg hover:scale-105 transition-transform flex items-center gap-2 pointer-events-auto border-b-4 border-indigo-800 active:border-b-0 active:translate-y-1 ${isGenerating ? 'opacity-50 cursor-wait' : ''}`}
             >
                {isGenerating ? (
@@ -151,6 +231,164 @@ const Controls: React.FC<ControlsProps> = ({
                )}
             </button>
 
+            {/* Project Library Button */}
+            <button 
+              onClick={onOpenLibrary}
+              className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+              title="Projects (Ctrl+S to save)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+              </svg>
+            </button>
+
+            {/* Inventory Button */}
+            <button 
+              onClick={onOpenInventory}
+              className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+              title="My Parts"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+              </svg>
+            </button>
+
+            {/* Baseplates Button */}
+            <button 
+              onClick={onOpenBaseplates}
+              className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+              title="Baseplates"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h7v7H4V5zm9 0h7v7h-7V5zM4 14h16v5H4v-5z" />
+              </svg>
+            </button>
+
+            {/* Generation Settings Button */}
+            <button 
+              onClick={onOpenSettings}
+              className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+              title="Generation Settings"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+
+            {/* File Menu (Import / Export) */}
+            <div className="relative">
+              <input 
+                type="file" 
+                ref={importInputRef} 
+                onChange={handleImportChange} 
+                accept=".json,application/json,.ldr,.mpd" 
+                className="hidden" 
+              />
+              <button 
+                onClick={() => setIsFileMenuOpen(prev => !prev)}
+                className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+                title="Import / Export"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
+                </svg>
+              </button>
+              {isFileMenuOpen && (
+                <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-xl border border-gray-100 py-2 z-30 text-sm">
+                  <div className="px-4 py-1 text-xs font-bold text-gray-400 uppercase">Import</div>
+                  <button 
+                    onClick={menuAction(() => importInputRef.current?.click())}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-50 text-gray-700"
+                  >
+                    Build or LDraw file…
+                  </button>
+                  <div className="px-4 py-1 mt-1 text-xs font-bold text-gray-400 uppercase border-t border-gray-100">Export</div>
+                  {EXPORT_OPTIONS.map(option => (
+                    <button 
+                      key={option.format}
+                      onClick={menuAction(() => onExport(option.format, meshOptions))}
+                      disabled={!hasBricks}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-50 text-gray-700 disabled:text-gray-300 disabled:hover:bg-white"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <div className="px-4 pt-2 mt-1 border-t border-gray-100 text-xs text-gray-500 space-y-1">
+                    <div className="font-bold text-gray-400 uppercase">3D options</div>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input 
+                        type="checkbox" 
+                        checked={meshOptions.includeStuds} 
+                        onChange={e => setMeshOptions(prev => ({ ...prev, includeStuds: e.target.checked }))} 
+                      />
+                      Include studs
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input 
+                        type="checkbox" 
+                        checked={meshOptions.includeBaseplate} 
+                        onChange={e => setMeshOptions(prev => ({ ...prev, includeBaseplate: e.target.checked }))} 
+                      />
+                      Include baseplates
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Parts List Button */}
+            {hasBricks && (
+              <button 
+                onClick={onOpenPartsList}
+                className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+                title="Parts List"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+              </button>
+            )}
+
+            {/* Instructions Button */}
+            {hasBricks && (
+              <button 
+                onClick={onOpenInstructions}
+                className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+                title="Building Instructions"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                </svg>
+              </button>
+            )}
+
+            {/* Merge & Optimize Button */}
+            {hasBricks && (
+              <button 
+                onClick={onOpenOptimize}
+                className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+                title="Merge & Optimize"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4V6zm0 8h4v4H4v-4zm12-8h4v12h-4V6zM8 8h8M8 16h8" />
+                </svg>
+              </button>
+            )}
+
+            {/* Hollow Out Button */}
+            {hasBricks && (
+              <button 
+                onClick={onOpenHollow}
+                className="bg-white text-gray-700 hover:bg-gray-50 p-3 rounded-xl font-bold shadow-md pointer-events-auto transition-colors border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+                title="Hollow Out"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm5 4h6v6H9V9z" />
+                </svg>
+              </button>
+            )}
+
             {/* Undo Button */}
             <button 
               onClick={onUndo}
@@ -198,6 +436,17 @@ const Controls: React.FC<ControlsProps> = ({
               </svg>
             </button>
           </div>
+
+          {/* Text Prompt */}
+          <PromptBar
+            onGenerate={onGenerate}
+            onRefine={onRefine}
+            isGenerating={isGenerating}
+            supportsTextPrompt={supportsTextPrompt}
+            canRefine={hasBricks}
+            hasSourceImage={hasSourceImage}
+          />
+          </div>
         </div>
 
         {/* Bottom / Side Controls */}
@@ -268,6 +517,15 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
       </div>
+
+      <MultiViewDialog
+        files={pendingViews}
+        onClose={() => setPendingViews(null)}
+        onGenerate={views => {
+          setPendingViews(null);
+          onGenerate({ views });
+        }}
+      />
     </>
   );
 };
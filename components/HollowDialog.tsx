@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { BrickData } from '../types';
+import { hollowBuild, DEFAULT_WALL_THICKNESS } from '../services/hollow';
+
+interface HollowDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bricks: BrickData[];
+  onApply: (bricks: BrickData[]) => void;
+}
+
+const HollowDialog: React.FC<HollowDialogProps> = ({ isOpen, onClose, bricks, onApply }) => {
+  const [wallThickness, setWallThickness] = useState(DEFAULT_WALL_THICKNESS);
+
+  // Preview the result so the saving is visible before applying
+  const result = useMemo(
+    () => (isOpen ? hollowBuild(bricks, wallThickness) : null),
+    [isOpen, bricks, wallThickness]
+  );
+
+  if (!isOpen || !result) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>🕳️</span> Hollow Out
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">Remove bricks that can't be seen from outside</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block text-xs font-bold text-gray-500">
+            Wall thickness: {wallThickness} stud{wallThickness === 1 ? '' : 's'}
+            <input
+              type="range"
+              min={1}
+              max={4}
+              value={wallThickness}
+              onChange={e => setWallThickness(Number(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <div className="rounded-xl bg-gray-50 p-4 text-sm text-gray-700">
+            {result.removed > 0 ? (
+              <>
+                <p>
+                  Saves <span className="font-bold text-gray-900">{result.removed}</span> of {bricks.length} bricks
+                  ({Math.round((result.removed / bricks.length) * 100)}%).
+                </p>
+                {result.supportsKept > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {result.supportsKept} hidden brick(s) stay inside as supports for the layers above.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p>Nothing to remove: every brick is part of the walls or holds something up.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex gap-2 justify-end rounded-b-2xl">
+          <button
+            onClick={onClose}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(result.bricks)}
+            disabled={result.removed === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Hollow Out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HollowDialog;
@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BrickData } from '../types';
+import { generateInstructions, getStepBricks, buildInstructionsBooklet, DEFAULT_PARTS_PER_STEP } from '../services/instructions';
+import { createStepRenderer } from '../services/stepRenderer';
+import { downloadFile, toFileName } from '../services/fileUtils';
+
+interface InstructionsViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bricks: BrickData[];
+  projectName: string;
+}
+
+const InstructionsViewer: React.FC<InstructionsViewerProps> = ({ isOpen, onClose, bricks, projectName }) => {
+  const [partsPerStep, setPartsPerStep] = useState(DEFAULT_PARTS_PER_STEP);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [images, setImages] = useState<string[]>([]);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  // Bumped to render the pictures again after a failure
+  const [renderAttempt, setRenderAttempt] = useState(0);
+
+  const steps = useMemo(
+    () => (isOpen ? generateInstructions(bricks, partsPerStep) : []),
+    [isOpen, bricks, partsPerStep]
+  );
+
+  // Render step images progressively so the dialog stays responsive on big builds
+  useEffect(() => {
+    if (!isOpen || steps.length === 0) return;
+
+    let cancelled = false;
+    setImages([]);
+    setRenderError(null);
+    setCurrentStep(0);
+
+    const run = async () => {
+      const renderer = createStepRenderer(bricks);
+      try {
+        const rendered: string[] = [];
+        for (let i = 0; i < steps.length; i++) {
+          if (cancelled) return;
+          const { previous, added } = getStepBricks(bricks, steps, i);
+          rendered.push(renderer.render(previous, added));
+          setImages([...rendered]);
+          await new Promise(resolve => requestAnimationFrame(resolve));
+        }
+      } catch (e) {
+        console.error("Failed to render instruction steps", e);
+        if (!cancelled) setRenderError(e instanceof Error ? e.message : String(e));
+      } finally {
+        renderer.dispose();
+      }
+    };
+    run();
+
+    return () => { cancelled = true; };
+  }, [isOpen, steps, bricks, renderAttempt]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'ArrowRight') setCurrentStep(prev => Math.min(steps.length - 1, prev + 1));
+      if (e.key === 'ArrowLeft') setCurrentStep(prev => Math.max(0, prev - 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, steps.length, onClose]);
+
+  // After a failure the booklet can still be made; steps without a picture just leave it out
+  const isRendering = !renderError && images.length < steps.length;
+
+  // The last picture is only the finished model once every step has rendered
+  const buildBooklet = () => buildInstructionsBooklet(
+    projectName, bricks, steps, images, images.length === steps.length ? images[images.length - 1] : undefined
+  );
+
+  const handleOpenBooklet = () => {
+    const url = URL.createObjectURL(new Blob([buildBooklet()], { type: 'text/html' }));
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleDownloadBooklet = () => {
+    downloadFile(buildBooklet(), toFileName(`${projectName} instructions`, 'html'), 'text/html');
+  };
+
+  if (!isOpen) return null;
+
+  const step = steps[currentStep];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>📖</span> Building Instructions
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">
+              {bricks.length} parts · {steps.length} steps
+              {isRendering && ` · rendering ${images.length}/${steps.length}…`}
+            </p>
+            {renderError && (
+              <p className="text-xs text-red-500 mt-1">
+                Pictures stopped at step {images.length + 1}: {renderError}{' '}
+                <button onClick={() => setRenderAttempt(prev => prev + 1)} className="font-bold underline hover:text-red-600">
+                  Retry
+                </button>
+                <span className="text-gray-400"> · the booklet will leave out the missing pictures</span>
+              </p>
+            )}
+          </div>
+          <label className="ml-auto text-xs text-gray-500 flex items-center gap-2">
+            Parts per step
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={partsPerStep}
+              onChange={e => setPartsPerStep(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-blue-400 outline-none text-gray-800"
+            />
+          </label>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Step Page */}
+        {step ? (
+          <div className="flex-1 overflow-y-auto p-6 flex flex-col md:flex-row gap-6">
+            <div className="flex-1 bg-gradient-to-b from-blue-50 to-white rounded-xl flex items-center justify-center min-h-[16rem]">
+              {images[currentStep] ? (
+                <img src={images[currentStep]} alt={`Step ${step.number}`} className="max-w-full max-h-[55vh]" />
+              ) : (
+                <span className="text-gray-400 text-sm">{renderError ? 'No picture for this step' : 'Rendering…'}</span>
+              )}
+            </div>
+            <div className="md:w-56 flex flex-col gap-3">
+              <div className="text-5xl font-bold text-gray-800">{step.number}</div>
+              <div className="text-xs text-gray-400">Layer {step.layer + 1} · {step.totalPlaced}/{bricks.length} parts placed</div>
+              <div className="border-2 border-gray-200 rounded-xl p-3 bg-gray-50 space-y-2">
+                {step.callout.map(row => (
+                  <div key={row.key} className="flex items-center gap-2 text-sm text-gray-700">
+                    <span className="w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: row.color }} />
+                    <span className="font-bold">{row.count}×</span>
+                    <span>{row.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-gray-400 text-sm py-12">No bricks on the board.</p>
+        )}
+
+        {/* Pager */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex items-center gap-2 rounded-b-2xl">
+          <button
+            onClick={() => setCurrentStep(prev => Math.max(0, prev - 1))}
+            disabled={currentStep === 0}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 disabled:opacity-50"
+          >
+            ← Prev
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, steps.length - 1)}
+            value={currentStep}
+            onChange={e => setCurrentStep(Number(e.target.value))}
+            className="flex-1"
+          />
+          <button
+            onClick={() => setCurrentStep(prev => Math.min(steps.length - 1, prev + 1))}
+            disabled={currentStep >= steps.length - 1}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 disabled:opacity-50"
+          >
+            Next →
+          </button>
+          <button
+            onClick={handleDownloadBooklet}
+            disabled={isRendering || steps.length === 0}
+            className="ml-2 bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 disabled:opacity-50"
+          >
+            Download HTML
+          </button>
+          <button
+            onClick={handleOpenBooklet}
+            disabled={isRendering || steps.length === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 disabled:opacity-50"
+          >
+            Print / PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InstructionsViewer;
@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import { BrickData, InventoryItem } from '../types';
+import { BRICK_TYPES, PART_CATEGORIES } from '../constants';
+import { BRICKLINK_COLORS } from '../services/partsList';
+import {
+  mergeInventory,
+  inventoryFromBricks,
+  inventoryColorName,
+  inventoryKey,
+  parseInventoryFile,
+  exportInventoryCsv,
+  InventoryFileError,
+} from '../services/inventory';
+import { downloadFile, readFileAsText } from '../services/fileUtils';
+
+interface InventoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: InventoryItem[];
+  onChange: (items: InventoryItem[]) => void;
+  bricks: BrickData[];
+}
+
+const inputClass = "px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-blue-400 outline-none text-sm text-gray-800";
+
+const InventoryPanel: React.FC<InventoryPanelProps> = ({ isOpen, onClose, items, onChange, bricks }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [newType, setNewType] = useState(BRICK_TYPES[0].label);
+  const [newColor, setNewColor] = useState(BRICKLINK_COLORS[0].value);
+  const [newCount, setNewCount] = useState(10);
+
+  if (!isOpen) return null;
+
+  const totalCount = items.reduce((sum, item) => sum + item.count, 0);
+
+  const setCount = (item: InventoryItem, count: number) => {
+    onChange(mergeInventory(items, [{ ...item, count: Math.max(0, count) - item.count }]));
+  };
+
+  const handleAdd = () => {
+    if (newCount > 0) onChange(mergeInventory(items, [{ type: newType, color: newColor, count: newCount }]));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { items: imported, issues } = parseInventoryFile(await readFileAsText(file));
+      onChange(mergeInventory(items, imported));
+      const count = imported.reduce((sum, item) => sum + item.count, 0);
+      if (issues.length > 0) {
+        alert(`Added ${count} parts. Some lines were skipped:\n\n• ${issues.slice(0, 12).join('\n• ')}`);
+      }
+    } catch (error) {
+      console.error("Failed to import inventory", error);
+      if (error instanceof InventoryFileError && error.issues.length > 0) {
+        alert(`${error.message}\n\n• ${error.issues.slice(0, 12).join('\n• ')}`);
+      } else {
+        alert(error instanceof Error ? error.message : "Failed to import inventory.");
+      }
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(exportInventoryCsv(items), 'my-parts.csv', 'text/csv');
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Remove every part from your inventory?')) onChange([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>📦</span> My Parts
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">
+              {totalCount} bricks · {items.length} unique parts · used by the "Only parts I own" layout
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Add Row */}
+        <div className="mx-4 mt-4 p-3 rounded-xl bg-gray-50 flex flex-wrap items-center gap-2">
+          <select value={newType} onChange={e => setNewType(e.target.value)} className={inputClass}>
+            {PART_CATEGORIES.map(category => (
+              <optgroup key={category} label={category}>
+                {BRICK_TYPES.filter(type => type.category === category).map(type => <option key={type.label} value={type.label}>{type.label}</option>)}
+              </optgroup>
+            ))}
+          </select>
+          <span className="w-5 h-5 rounded-full border border-gray-200 inline-block" style={{ backgroundColor: newColor }} />
+          <select value={newColor} onChange={e => setNewColor(e.target.value)} className={inputClass}>
+            {BRICKLINK_COLORS.map(color => <option key={color.id} value={color.value}>{color.name}</option>)}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={newCount}
+            onChange={e => setNewCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            className={`${inputClass} w-20`}
+          />
+          <button
+            onClick={handleAdd}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-xl font-bold text-sm shadow-md"
+          >
+            Add
+          </button>
+        </div>
+
+        {/* Table */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {items.length === 0 ? (
+            <p className="text-center text-gray-400 text-sm py-8">
+              No parts yet. Add them above, import a CSV or BrickLink XML file, or add the bricks on the board.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase">
+                  <th className="pb-2">Part</th>
+                  <th className="pb-2">Color</th>
+                  <th className="pb-2 text-right">Qty</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={inventoryKey(item.type, item.color)} className="border-t border-gray-100">
+                    <td className="py-2 font-bold text-gray-700">{item.type}</td>
+                    <td className="py-2">
+                      <span className="inline-flex items-center gap-2 text-gray-600">
+                        <span className="w-4 h-4 rounded-full border border-gray-200 inline-block" style={{ backgroundColor: item.color }} />
+                        {inventoryColorName(item.color)}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min={1}
+                        value={item.count}
+                        onChange={e => setCount(item, Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                        className={`${inputClass} w-20 text-right font-bold`}
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => setCount(item, 0)}
+                        className="p-1 rounded-lg hover:bg-gray-100 text-gray-400 hover:text-red-500"
+                        title="Remove"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Import / Export */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex flex-wrap gap-2 justify-end rounded-b-2xl">
+          <input ref={importInputRef} type="file" accept=".csv,.xml,text/csv,application/xml,text/xml" className="hidden" onChange={handleImport} />
+          <button
+            onClick={handleClear}
+            disabled={items.length === 0}
+            className="mr-auto bg-white hover:bg-gray-100 text-red-500 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => onChange(mergeInventory(items, inventoryFromBricks(bricks)))}
+            disabled={bricks.length === 0}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Add Board Bricks
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={items.length === 0}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1"
+          >
+            Import CSV / XML
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryPanel;
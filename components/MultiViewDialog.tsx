@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ImageView, LabeledImage } from '../types';
+import { VIEW_LABELS } from '../services/generationPrompt';
+
+const VIEW_ORDER: ImageView[] = ['front', 'side', 'top', 'back'];
+
+const VIEW_HINTS: Record<ImageView, string> = {
+  front: 'Facing the object',
+  side: 'From its right-hand side',
+  top: 'From above, front at the bottom',
+  back: 'From behind',
+};
+
+interface MultiViewDialogProps {
+  // Files picked in the Load Image dialog, assigned to views in VIEW_ORDER
+  files: File[] | null;
+  onClose: () => void;
+  onGenerate: (views: LabeledImage[]) => void;
+}
+
+const MultiViewDialog: React.FC<MultiViewDialogProps> = ({ files, onClose, onGenerate }) => {
+  const [slots, setSlots] = useState<Partial<Record<ImageView, File>>>({});
+  const inputRefs = useRef<Partial<Record<ImageView, HTMLInputElement | null>>>({});
+
+  useEffect(() => {
+    if (!files) return;
+    const assigned: Partial<Record<ImageView, File>> = {};
+    files.slice(0, VIEW_ORDER.length).forEach((file, i) => { assigned[VIEW_ORDER[i]] = file; });
+    setSlots(assigned);
+  }, [files]);
+
+  const previews = useMemo(() => {
+    const urls: Partial<Record<ImageView, string>> = {};
+    VIEW_ORDER.forEach(view => {
+      const file = slots[view];
+      if (file) urls[view] = URL.createObjectURL(file);
+    });
+    return urls;
+  }, [slots]);
+
+  useEffect(() => () => {
+    Object.values(previews).forEach(url => url && URL.revokeObjectURL(url));
+  }, [previews]);
+
+  if (!files) return null;
+
+  const views: LabeledImage[] = VIEW_ORDER
+    .filter(view => slots[view])
+    .map(view => ({ view, file: slots[view]! }));
+  const hasReference = !!(slots.front || slots.back);
+
+  const handleFileChange = (view: ImageView) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setSlots(prev => ({ ...prev, [view]: file }));
+    e.target.value = '';
+  };
+
+  const clearSlot = (view: ImageView) => {
+    setSlots(prev => {
+      const next = { ...prev };
+      delete next[view];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>📷</span> Multi-View Photos
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">Label each photo with the side it shows. A front or back view is required.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* View Slots */}
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+          {VIEW_ORDER.map(view => (
+            <div key={view} className="flex flex-col gap-2">
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                ref={el => { inputRefs.current[view] = el; }}
+                onChange={handleFileChange(view)}
+              />
+              <button
+                onClick={() => inputRefs.current[view]?.click()}
+                className={`aspect-square rounded-xl border-2 flex items-center justify-center overflow-hidden transition-all ${slots[view] ? 'border-blue-500' : 'border-dashed border-gray-300 hover:border-blue-300 hover:bg-blue-50/50'}`}
+                title={slots[view] ? slots[view]!.name : `Choose ${VIEW_LABELS[view].toLowerCase()} photo`}
+              >
+                {previews[view] ? (
+                  <img src={previews[view]} alt={VIEW_LABELS[view]} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-3xl text-gray-300">+</span>
+                )}
+              </button>
+              <div className="flex items-start justify-between gap-1">
+                <div>
+                  <div className="font-bold text-sm text-gray-800">{VIEW_LABELS[view]}</div>
+                  <div className="text-xs text-gray-400">{VIEW_HINTS[view]}</div>
+                </div>
+                {slots[view] && (
+                  <button onClick={() => clearSlot(view)} className="text-xs text-gray-400 hover:text-red-500" title="Remove">
+                    ×
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex items-center justify-end gap-2 rounded-b-2xl">
+          <button
+            onClick={onClose}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(views)}
+            disabled={!hasReference}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 disabled:opacity-50"
+          >
+            Generate from {views.length} view{views.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiViewDialog;
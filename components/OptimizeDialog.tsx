@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BrickData, OptimizerMode, OptimizerSettings } from '../types';
+import { PLATES_PER_BRICK } from '../constants';
+import { reoptimizeBricks } from '../services/brickOptimizer';
+
+interface OptimizeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bricks: BrickData[];
+  // Starting point for the layout choice; the inventory mode is offered as interlocking here
+  settings: OptimizerSettings;
+  onApply: (bricks: BrickData[]) => void;
+}
+
+// Layers here are whole bricks tall, as in the optimizer
+const brickLayer = (brick: BrickData) => Math.floor(brick.y / PLATES_PER_BRICK);
+
+const OptimizeDialog: React.FC<OptimizeDialogProps> = ({ isOpen, onClose, bricks, settings, onApply }) => {
+  const topLayer = bricks.reduce((max, b) => Math.max(max, brickLayer(b)), 0);
+  const [scope, setScope] = useState<'all' | 'layers'>('all');
+  const [fromLayer, setFromLayer] = useState(0);
+  const [toLayer, setToLayer] = useState(topLayer);
+  const [mode, setMode] = useState<Exclude<OptimizerMode, 'inventory'>>('stable');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMode(settings.mode === 'greedy' ? 'greedy' : 'stable');
+    setFromLayer(0);
+    setToLayer(topLayer);
+    // Only reset when the dialog opens, not on every board change behind it
+  }, [isOpen]);
+
+  const result = useMemo(() => {
+    if (!isOpen) return null;
+    const inScope = scope === 'all'
+      ? undefined
+      : (b: BrickData) => brickLayer(b) >= Math.min(fromLayer, toLayer) && brickLayer(b) <= Math.max(fromLayer, toLayer);
+    return reoptimizeBricks(bricks, { ...settings, mode }, inScope);
+  }, [isOpen, bricks, settings, mode, scope, fromLayer, toLayer]);
+
+  if (!isOpen || !result) return null;
+
+  const layerInput = (value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={1}
+      max={topLayer + 1}
+      value={value + 1}
+      onChange={e => onChange(Math.max(0, Math.min(topLayer, (Math.floor(Number(e.target.value)) || 1) - 1)))}
+      onFocus={() => setScope('layers')}
+      className="w-16 px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-blue-400 outline-none text-gray-800"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>🧩</span> Merge & Optimize
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">Re-pack bricks into bigger ones; wheels, axles, plates and tiles stay as they are</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm text-gray-700">
+          <div className="space-y-2">
+            <div className="font-bold text-gray-800">Bricks</div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="optimizeScope" checked={scope === 'all'} onChange={() => setScope('all')} />
+              Whole build
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="optimizeScope" checked={scope === 'layers'} onChange={() => setScope('layers')} />
+              Layers {layerInput(fromLayer, setFromLayer)} to {layerInput(toLayer, setToLayer)}
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-bold text-gray-800">Layout</div>
+            {([
+              { value: 'stable', label: 'Interlocking', description: 'Staggers seams so layers hold together' },
+              { value: 'greedy', label: 'Fewest bricks', description: 'Biggest bricks first; seams may stack up' },
+            ] as const).map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="optimizeMode"
+                  className="mt-1"
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="rounded-xl bg-gray-50 p-4">
+            <p>
+              <span className="font-bold text-gray-900">{result.replaced}</span> bricks become{' '}
+              <span className="font-bold text-gray-900">{result.added}</span>
+              {' '}({bricks.length} → {result.bricks.length} in total).
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Connectivity {result.before.score}% → {result.after.score}% · {result.before.pieces} → {result.after.pieces} piece(s)
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex gap-2 justify-end rounded-b-2xl">
+          <button
+            onClick={onClose}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(result.bricks)}
+            disabled={result.replaced === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Merge & Optimize
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OptimizeDialog;
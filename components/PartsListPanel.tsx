@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { BrickData } from '../types';
+import { buildPartsList, exportPartsCsv, exportBrickLinkXml, isRowMapped } from '../services/partsList';
+import { downloadFile, toFileName } from '../services/fileUtils';
+
+interface PartsListPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bricks: BrickData[];
+  projectName: string;
+  title?: string;
+}
+
+const PartsListPanel: React.FC<PartsListPanelProps> = ({ isOpen, onClose, bricks, projectName, title = 'Parts List' }) => {
+  const rows = useMemo(() => (isOpen ? buildPartsList(bricks) : []), [isOpen, bricks]);
+
+  const unmappedRows = rows.filter(row => !isRowMapped(row));
+  const unmappedCount = unmappedRows.reduce((sum, row) => sum + row.count, 0);
+  const totalCount = rows.reduce((sum, row) => sum + row.count, 0);
+
+  const handleCsv = () => {
+    downloadFile(exportPartsCsv(rows), toFileName(`${projectName} parts`, 'csv'), 'text/csv');
+  };
+
+  const handleXml = () => {
+    const { xml, skipped } = exportBrickLinkXml(rows);
+    downloadFile(xml, toFileName(`${projectName} bricklink`, 'xml'), 'application/xml');
+    if (skipped > 0) {
+      alert(`${skipped} brick(s) have no BrickLink part or colour and were left out of the wanted list.`);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>📋</span> {title}
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">
+              {totalCount} bricks · {rows.length} unique parts
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {unmappedCount > 0 && (
+          <div className="mx-4 mt-4 p-3 rounded-xl bg-orange-50 text-orange-700 text-sm">
+            {unmappedCount} brick(s) in {unmappedRows.length} row(s) have no BrickLink part or colour and won't be in the wanted list.
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {rows.length === 0 ? (
+            <p className="text-center text-gray-400 text-sm py-8">No bricks on the board.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 uppercase">
+                  <th className="pb-2">Part</th>
+                  <th className="pb-2">Color</th>
+                  <th className="pb-2">BrickLink</th>
+                  <th className="pb-2 text-right">Qty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className={`border-t border-gray-100 ${isRowMapped(row) ? '' : 'bg-orange-50/60'}`}>
+                    <td className="py-2 font-bold text-gray-700">{row.label}</td>
+                    <td className="py-2">
+                      <span className="inline-flex items-center gap-2 text-gray-600">
+                        <span className="w-4 h-4 rounded-full border border-gray-200 inline-block" style={{ backgroundColor: row.color }} />
+                        {row.colorName}
+                      </span>
+                    </td>
+                    <td className="py-2 text-gray-500">
+                      {row.brickLinkItemId ?? <span className="text-orange-600">no part</span>}
+                      {' · '}
+                      {row.brickLinkColorName ? (
+                        <span title={`BrickLink color ${row.brickLinkColorId}`}>
+                          {row.brickLinkColorName}{row.colorIsApproximate && <span className="text-gray-400"> (≈)</span>}
+                        </span>
+                      ) : (
+                        <span className="text-orange-600">no color</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-bold text-gray-800">{row.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Export */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex gap-2 justify-end rounded-b-2xl">
+          <button
+            onClick={handleCsv}
+            disabled={rows.length === 0}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={handleXml}
+            disabled={rows.length === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1 disabled:opacity-50"
+          >
+            BrickLink Wanted List
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartsListPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { ProjectRecord, ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentProjectId: string | null;
+  currentProjectName: string;
+  isDirty: boolean;
+  onSave: () => Promise<void>;
+  onSaveAs: (name: string) => Promise<void>;
+  onOpen: (id: string) => Promise<void>;
+  onProjectRenamed: (project: ProjectRecord) => void;
+  onProjectDeleted: (id: string) => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  isOpen,
+  onClose,
+  currentProjectId,
+  currentProjectName,
+  isDirty,
+  onSave,
+  onSaveAs,
+  onOpen,
+  onProjectRenamed,
+  onProjectDeleted
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [saveAsName, setSaveAsName] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to list projects", e);
+      setError("Could not open the project library in this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+      setSaveAsName(currentProjectName);
+    }
+  }, [isOpen, refresh, currentProjectName]);
+
+  // Wraps an action so failures surface in the panel and the list is refreshed afterwards
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      console.error("Project action failed", e);
+      setError("That didn't work. Please try again.");
+    }
+    await refresh();
+  };
+
+  const commitRename = (id: string) => run(async () => {
+    const renamed = await renameProject(id, renameValue);
+    setRenamingId(null);
+    onProjectRenamed(renamed);
+  });
+
+  // Opening replaces the board and its autosave, so unsaved work would be gone for good
+  const handleOpen = (project: ProjectSummary) => {
+    if (isDirty && !confirm(`Open "${project.name}"? Unsaved changes to "${currentProjectName}" will be lost.`)) return;
+    run(async () => {
+      await onOpen(project.id);
+      onClose();
+    });
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>📁</span> Project Library
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Current: <span className="font-bold text-gray-600">{currentProjectName}</span>
+              {isDirty && <span className="ml-1 text-orange-500">(unsaved changes)</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Save / Save As */}
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-2 items-center">
+          <button
+            onClick={() => run(onSave)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-blue-700 active:border-b-0 active:translate-y-1"
+          >
+            {currentProjectId ? 'Save' : 'Save New'}
+          </button>
+          <input
+            value={saveAsName}
+            onChange={e => setSaveAsName(e.target.value)}
+            placeholder="Project name"
+            className="flex-1 min-w-[10rem] px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-blue-400 outline-none"
+          />
+          <button
+            onClick={() => run(() => onSaveAs(saveAsName))}
+            className="bg-white hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-gray-200 active:border-b-0 active:translate-y-1"
+          >
+            Save As
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</div>
+        )}
+
+        {/* Project List */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading && projects.length === 0 && (
+            <p className="text-center text-gray-400 text-sm py-8">Loading…</p>
+          )}
+          {!isLoading && projects.length === 0 && (
+            <p className="text-center text-gray-400 text-sm py-8">No saved builds yet.</p>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`rounded-xl border-2 overflow-hidden flex flex-col ${project.id === currentProjectId ? 'border-blue-500' : 'border-gray-100'}`}
+              >
+                <button
+                  onClick={() => handleOpen(project)}
+                  className="aspect-[4/3] bg-gradient-to-b from-blue-100 to-white flex items-center justify-center hover:opacity-90"
+                  title="Open"
+                >
+                  {project.thumbnail ? (
+                    <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-4xl">🧱</span>
+                  )}
+                </button>
+                <div className="p-3 flex-1 flex flex-col gap-2">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={e => setRenameValue(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename(project.id);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onBlur={() => commitRename(project.id)}
+                      className="px-2 py-1 rounded-lg border-2 border-blue-400 outline-none text-sm font-bold"
+                    />
+                  ) : (
+                    <span className="font-bold text-gray-800 truncate" title={project.name}>{project.name}</span>
+                  )}
+                  <span className="text-xs text-gray-400">
+                    {project.brickCount} bricks · {formatDate(project.updatedAt)}
+                  </span>
+                  <div className="flex gap-1 text-xs">
+                    <button
+                      onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                      className="px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-600"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => run(() => duplicateProject(project.id))}
+                      className="px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-600"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleDelete(project)}
+                      className="px-2 py-1 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 ml-auto"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
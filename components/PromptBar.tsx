@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { GenerationRequest } from '../types';
+
+interface PromptBarProps {
+  onGenerate: (request: GenerationRequest) => void;
+  onRefine: (instruction: string, includeImage: boolean) => void;
+  isGenerating: boolean;
+  supportsTextPrompt: boolean;
+  // Edit mode needs a build on the board and a provider that reads text
+  canRefine: boolean;
+  hasSourceImage: boolean;
+}
+
+const PromptBar: React.FC<PromptBarProps> = ({ onGenerate, onRefine, isGenerating, supportsTextPrompt, canRefine, hasSourceImage }) => {
+  const [prompt, setPrompt] = useState('');
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [mode, setMode] = useState<'new' | 'edit'>('new');
+  const [includeSourceImage, setIncludeSourceImage] = useState(true);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  const isEditing = mode === 'edit' && canRefine && supportsTextPrompt;
+
+  const canSubmit = !isGenerating && (
+    isEditing
+      ? prompt.trim() !== ''
+      : supportsTextPrompt ? (prompt.trim() !== '' || !!referenceImage) : !!referenceImage
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (isEditing) {
+      onRefine(prompt.trim(), hasSourceImage && includeSourceImage);
+      setPrompt('');
+      return;
+    }
+    onGenerate({
+      prompt: supportsTextPrompt ? prompt.trim() || undefined : undefined,
+      image: referenceImage || undefined,
+    });
+  };
+
+  const handleReferenceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setReferenceImage(e.target.files[0]);
+    }
+    e.target.value = '';
+  };
+
+  const placeholder = !supportsTextPrompt
+    ? 'This provider builds from images only'
+    : isEditing
+      ? 'Describe a change, e.g. "make the roof blue"'
+      : 'Describe a build, e.g. "a red fire truck, 12 studs long"';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white p-2 rounded-2xl shadow-xl border-b-4 border-gray-200 flex flex-col gap-1 pointer-events-auto w-full max-w-md"
+    >
+      <div className="flex items-center gap-2">
+        {canRefine && supportsTextPrompt && (
+          <div className="flex bg-gray-100 rounded-xl p-1 text-xs font-bold">
+            {(['new', 'edit'] as const).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`px-2 py-1 rounded-lg transition-colors ${mode === m ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                title={m === 'new' ? 'Generate a new build' : 'Change the current build'}
+              >
+                {m === 'new' ? 'New' : 'Edit'}
+              </button>
+            ))}
+          </div>
+        )}
+        {!isEditing && (
+          <>
+            <input
+              type="file"
+              ref={referenceInputRef}
+              onChange={handleReferenceChange}
+              accept="image/*"
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => referenceInputRef.current?.click()}
+              className={`p-2 rounded-xl transition-colors ${referenceImage ? 'bg-blue-50 text-blue-600' : 'hover:bg-gray-100 text-gray-500'}`}
+              title={referenceImage ? `Reference: ${referenceImage.name}` : 'Attach reference image'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+              </svg>
+            </button>
+            {referenceImage && (
+              <span className="flex items-center gap-1 bg-blue-50 text-blue-700 text-xs font-bold px-2 py-1 rounded-lg max-w-[8rem]">
+                <span className="truncate">{referenceImage.name}</span>
+                <button type="button" onClick={() => setReferenceImage(null)} className="hover:text-blue-900" title="Remove reference image">×</button>
+              </span>
+            )}
+          </>
+        )}
+        <input
+          value={prompt}
+          onChange={e => setPrompt(e.target.value)}
+          disabled={!supportsTextPrompt}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 px-2 py-2 text-sm outline-none bg-transparent text-gray-800 disabled:text-gray-400"
+        />
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white px-4 py-2 rounded-xl font-bold shadow-md border-b-4 border-indigo-800 active:border-b-0 active:translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isEditing ? 'Apply' : 'Build'}
+        </button>
+      </div>
+      {isEditing && hasSourceImage && (
+        <label className="flex items-center gap-2 text-xs text-gray-500 px-2 pb-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeSourceImage}
+            onChange={e => setIncludeSourceImage(e.target.checked)}
+          />
+          Send the original image too
+        </label>
+      )}
+    </form>
+  );
+};
+
+export default PromptBar;
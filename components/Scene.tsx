@@ -1,9 +1,15 @@
-import React, { useState } from 'react';
-import { Canvas, ThreeEvent, Object3DNode, ThreeElements } from '@react-three/fiber';
-import { OrbitControls, Environment, Grid } from '@react-three/drei';
-import { BrickData, ToolMode, BrickType } from '../types';
-import { MAX_BOARD_SIZE } from '../constants';
+import React, { useMemo, useState } from 'react';
+import { Canvas, ThreeEvent, ThreeElements } from '@react-three/fiber';
+import { OrbitControls, Environment, Grid, Html } from '@react-three/drei';
+import { Baseplate as BaseplateData, BrickData, ToolMode, BrickType, LiftedGroup } from '../types';
+import { PLATE_HEIGHT } from '../constants';
+import { brickShapeFor, getBrickCenter, getBrickHeight } from '../services/brickGeometry';
+import { baseplatesExtent, isOnBaseplates } from '../services/baseplates';
+import { PlacementOptions, validatePlacement } from '../services/placement';
+import { SpatialIndex } from '../services/spatialIndex';
+import Baseplate from './Baseplate';
 import Brick from './Brick';
+import BrickInstances from './BrickInstances';
 import { Vector3, Group, Mesh, PlaneGeometry, MeshStandardMaterial, AmbientLight, DirectionalLight, OrthographicCamera } from 'three';
 
 // Add type support for Three.js elements in JSX
@@ -14,64 +20,135 @@ declare global {
 }
 
 interface SceneProps {
+  canvasRef?: React.Ref<HTMLCanvasElement>;
   bricks: BrickData[];
+  // The build areas; parts can only be placed over these
+  baseplates: BaseplateData[];
   addBrick: (x: number, y: number, z: number) => void;
   removeBrick: (id: string) => void;
   selectedColor: string;
   selectedBrickType: BrickType;
   toolMode: ToolMode;
-  rotated: boolean;
+  rotation: number; // Degrees for the next brick
+  // Occupancy of the board, for checking the ghost without scanning every brick
+  occupancy: SpatialIndex;
+  placementOptions?: PlacementOptions;
   playLandedSound: () => void;
   buildKey: number;
   isAnimating: boolean;
-  liftedGroup?: { bricks: BrickData[], anchorId: string } | null;
+  // When set, only these bricks take part in the drop sequence (e.g. after an edit)
+  animatingIds?: Set<string> | null;
+  // Bricks that mount in place instead of dropping in
+  settledIds?: Set<string> | null;
+  liftedGroup?: LiftedGroup | null;
   onLiftBrick?: (id: string) => void;
   onDropGroup?: (x: number, y: number, z: number) => void;
 }
 
-const GridPlane: React.FC<{
+// Ghosts turn this colour where a click wouldn't place anything
+const INVALID_GHOST_COLOR = '#EF4444';
+
+// Just above the part a placement problem is about
+const issueLabelPosition = (brick: BrickData): [number, number, number] => {
+  const [x, y, z] = getBrickCenter(brick);
+  return [x, y + getBrickHeight(brick) * PLATE_HEIGHT / 2 + 0.6, z];
+};
+
+// Floor showing past the edges of the baseplates, at least this many studs each way
+const GROUND_MARGIN = 10;
+const MIN_GROUND_SIZE = 40;
+
+// The floor the baseplates lie on. Pointing at it rather than a baseplate hides the ghost
+const GroundPlane: React.FC<{
+  baseplates: BaseplateData[];
   onPlaneClick: (point: Vector3) => void;
   onPlaneMove: (point: Vector3) => void;
-}> = ({ onPlaneClick, onPlaneMove }) => {
+}> = ({ baseplates, onPlaneClick, onPlaneMove }) => {
+  const extent = baseplatesExtent(baseplates) || { minX: 0, maxX: 0, minZ: 0, maxZ: 0 };
+  const size = Math.max(
+    MIN_GROUND_SIZE,
+    extent.maxX - extent.minX + 1 + GROUND_MARGIN * 2,
+    extent.maxZ - extent.minZ + 1 + GROUND_MARGIN * 2
+  );
+  const position: [number, number, number] = [(extent.minX + extent.maxX) / 2, -PLATE_HEIGHT, (extent.minZ + extent.maxZ) / 2];
   return (
-    <mesh 
-      rotation={[-Math.PI / 2, 0, 0]} 
-      position={[0, 0, 0]} 
-      receiveShadow
-      onClick={(e) => {
-        e.stopPropagation();
-        onPlaneClick(e.point);
-      }}
-      onPointerMove={(e) => {
-        e.stopPropagation();
-        onPlaneMove(e.point);
-      }}
-    >
-      <planeGeometry args={[40, 40]} />
-      <meshStandardMaterial color="#eeeeee" />
-    </mesh>
+    <>
+      <mesh 
+        rotation={[-Math.PI / 2, 0, 0]} 
+        position={position} 
+        receiveShadow
+        onClick={(e) => {
+          e.stopPropagation();
+          onPlaneClick(e.point);
+        }}
+        onPointerMove={(e) => {
+          e.stopPropagation();
+          onPlaneMove(e.point);
+        }}
+      >
+        <planeGeometry args={[size, size]} />
+        <meshStandardMaterial color="#d6d6d6" />
+      </mesh>
+      <Grid 
+        position={[position[0], position[1] + 0.01, position[2]]} 
+        args={[size, size]} 
+        sectionSize={1} 
+        sectionThickness={1} 
+        sectionColor="#cccccc" 
+        cellColor="#e5e5e5" 
+        fadeDistance={25} 
+      />
+    </>
   );
 };
 
 const SceneContent: React.FC<SceneProps> = ({ 
   bricks = [], 
+  baseplates,
   addBrick, 
   removeBrick, 
   selectedColor, 
   toolMode, 
   selectedBrickType,
-  rotated,
+  rotation,
+  occupancy,
+  placementOptions,
   playLandedSound,
   buildKey,
   isAnimating,
+  animatingIds,
+  settledIds,
   liftedGroup,
   onLiftBrick,
   onDropGroup
 }) => {
-  const [hoverPos, setHoverPos] = useState<{x: number, y: number, z: number} | null>(null);
+  const [hoverPos, setHoverCell] = useState<{x: number, y: number, z: number} | null>(null);
+  // Keeps the same object while the pointer stays on one stud, so the ghost isn't re-checked
+  const setHoverPos = (pos: {x: number, y: number, z: number} | null) => setHoverCell(prev =>
+    prev && pos && prev.x === pos.x && prev.y === pos.y && prev.z === pos.z ? prev : pos
+  );
+
+  // Position of each brick in the drop sequence
+  const dropOrder = useMemo(() => {
+    const order = new Map<string, number>();
+    (bricks || []).forEach(b => {
+      if (!animatingIds || animatingIds.has(b.id)) order.set(b.id, order.size);
+    });
+    return order;
+  }, [bricks, animatingIds]);
 
   const snapToGrid = (val: number) => Math.round(val);
 
+  const activeHeight = getBrickHeight(selectedBrickType);
+  const liftedHeight = getBrickHeight(liftedGroup?.bricks.find(b => b.id === liftedGroup.anchorId) || {});
+
+  // Plate a part `height` plates tall starts at when attached to this face of `brick`
+  const attachY = (brick: BrickData, normalY: number, height: number) => {
+    if (normalY > 0.5) return brick.y + getBrickHeight(brick);
+    if (normalY < -0.5) return brick.y - height;
+    return brick.y;
+  };
+
   const handlePointerMove = (point: Vector3, existingY: number = 0) => {
     if (toolMode !== 'BUILD' && toolMode !== 'MOVE') {
       setHoverPos(null);
@@ -81,8 +158,8 @@ const SceneContent: React.FC<SceneProps> = ({
     const x = snapToGrid(point.x);
     const z = snapToGrid(point.z);
     
-    // Clamp to board
-    if (x < -MAX_BOARD_SIZE / 2 || x > MAX_BOARD_SIZE / 2 || z < -MAX_BOARD_SIZE / 2 || z > MAX_BOARD_SIZE / 2) {
+    // Only over a baseplate
+    if (!isOnBaseplates(baseplates, x, z)) {
       setHoverPos(null);
       return;
     }
@@ -113,15 +190,15 @@ const SceneContent: React.FC<SceneProps> = ({
       if (e.face?.normal) {
         const normal = e.face.normal;
         const gridX = Math.round(e.point.x);
-        const gridY = brick.y; 
+        const gridY = attachY(brick, normal.y, activeHeight);
         const gridZ = Math.round(e.point.z);
 
         if (normal.y > 0.5) {
-           addBrick(Math.round(e.point.x), gridY + 1, Math.round(e.point.z));
+           addBrick(Math.round(e.point.x), gridY, Math.round(e.point.z));
         } else {
            addBrick(
              gridX + Math.round(normal.x), 
-             gridY + Math.round(normal.y), 
+             gridY, 
              gridZ + Math.round(normal.z)
            );
         }
@@ -130,7 +207,7 @@ const SceneContent: React.FC<SceneProps> = ({
          if (e.face?.normal) {
             const normal = e.face.normal;
             const gridX = Math.round(e.point.x);
-            const gridY = brick.y; 
+            const gridY = attachY(brick, normal.y, liftedHeight);
             const gridZ = Math.round(e.point.z);
             
             let targetX = gridX;
@@ -139,11 +216,9 @@ const SceneContent: React.FC<SceneProps> = ({
 
             if (normal.y > 0.5) {
                 targetX = Math.round(e.point.x);
-                targetY = gridY + 1;
                 targetZ = Math.round(e.point.z);
             } else {
                 targetX = gridX + Math.round(normal.x);
-                targetY = gridY + Math.round(normal.y);
                 targetZ = gridZ + Math.round(normal.z);
             }
             
@@ -158,15 +233,14 @@ const SceneContent: React.FC<SceneProps> = ({
     if (toolMode === 'MOVE' && liftedGroup) {
         if (e.face?.normal) {
             const normal = e.face.normal;
-            let targetX, targetY, targetZ;
+            let targetX, targetZ;
 
+            const targetY = attachY(brick, normal.y, liftedHeight);
             if (normal.y > 0.5) {
                 targetX = Math.round(e.point.x);
-                targetY = brick.y + 1;
                 targetZ = Math.round(e.point.z);
             } else {
                 targetX = Math.round(e.point.x) + Math.round(normal.x);
-                targetY = brick.y + Math.round(normal.y);
                 targetZ = Math.round(e.point.z) + Math.round(normal.z);
             }
 
@@ -187,13 +261,13 @@ const SceneContent: React.FC<SceneProps> = ({
         if (normal.y > 0.5) {
             setHoverPos({
                 x: gridX,
-                y: brick.y + 1,
+                y: attachY(brick, normal.y, activeHeight),
                 z: gridZ
             });
         } else {
             setHoverPos({
                 x: gridX + Math.round(normal.x),
-                y: Math.max(0, brick.y + Math.round(normal.y)),
+                y: Math.max(0, attachY(brick, normal.y, activeHeight)),
                 z: gridZ + Math.round(normal.z)
             });
         }
@@ -208,9 +282,41 @@ const SceneContent: React.FC<SceneProps> = ({
       }
   }
 
-  const activeSizeX = rotated ? selectedBrickType.sizeZ : selectedBrickType.sizeX;
-  const activeSizeZ = rotated ? selectedBrickType.sizeX : selectedBrickType.sizeZ;
-  const activeSpecial = selectedBrickType.specialType;
+  const activeShape = brickShapeFor(selectedBrickType, rotation);
+
+  // What a click would place right now, so the ghost can warn before it does
+  const ghostBricks = useMemo((): BrickData[] => {
+    if (!hoverPos) return [];
+    if (toolMode === 'BUILD') {
+      return [{ id: 'ghost', x: hoverPos.x, y: hoverPos.y, z: hoverPos.z, color: selectedColor, ...activeShape }];
+    }
+    if (toolMode === 'MOVE' && liftedGroup) {
+      return liftedGroup.bricks.map(b => ({
+        ...b,
+        x: hoverPos.x + Math.round(b.offsetX || 0),
+        y: hoverPos.y + (b.offsetY || 0),
+        z: hoverPos.z + Math.round(b.offsetZ || 0),
+      }));
+    }
+    return [];
+  }, [hoverPos, toolMode, selectedColor, selectedBrickType, rotation, liftedGroup]);
+
+  const placementIssue = useMemo(
+    () => (ghostBricks.length > 0 ? validatePlacement(ghostBricks, occupancy, placementOptions) : null),
+    // The index is updated in place, so the bricks stand in for its changes
+    [ghostBricks, occupancy, bricks, placementOptions]
+  );
+  const ghostColor = (color: string) => (placementIssue ? INVALID_GHOST_COLOR : color);
+
+  // The lifted group relative to the hovered stud; only rebuilt when the group or its colour changes
+  const liftedGhost = useMemo(() => (liftedGroup?.bricks || []).map(b => ({
+    ...b,
+    // Ensure 0,0,0 relative to group, on the same cells a drop would use
+    x: Math.round(b.offsetX || 0),
+    y: b.offsetY || 0,
+    z: Math.round(b.offsetZ || 0),
+    color: ghostColor(b.color),
+  })), [liftedGroup, !!placementIssue]);
 
   return (
     <>
@@ -228,21 +334,16 @@ const SceneContent: React.FC<SceneProps> = ({
 
       <group onPointerMissed={onPointerMissed}>
         <group key={buildKey}>
-          {bricks?.map((brick, index) => (
-            <mesh 
-              key={brick.id}
-              onClick={(e) => onBrickClick(e, brick)}
-              onPointerMove={(e) => onBrickHover(e, brick)}
-              onPointerOut={() => { document.body.style.cursor = 'default'; }}
-            >
-              <Brick 
-                data={brick} 
-                onLand={playLandedSound} 
-                // Fast animation: 15ms
-                delay={isAnimating ? index * 15 : 0} 
-              />
-            </mesh>
-          ))}
+          <BrickInstances
+            bricks={bricks || []}
+            dropsIn={brick => !settledIds?.has(brick.id)}
+            // Fast animation: 15ms
+            dropDelay={brick => (isAnimating ? (dropOrder.get(brick.id) ?? 0) * 15 : 0)}
+            onLand={playLandedSound}
+            onBrickClick={onBrickClick}
+            onBrickHover={onBrickHover}
+            onBrickOut={() => { document.body.style.cursor = 'default'; }}
+          />
         </group>
 
         {/* Ghost Brick for Builder */}
@@ -253,48 +354,45 @@ const SceneContent: React.FC<SceneProps> = ({
               x: hoverPos.x, 
               y: hoverPos.y, 
               z: hoverPos.z, 
-              color: selectedColor,
-              sizeX: activeSizeX,
-              sizeZ: activeSizeZ,
-              specialType: activeSpecial
+              color: ghostColor(selectedColor),
+              ...activeShape
             }} 
-            isGhost 
           />
         )}
 
         {/* Lifted Group "Ghost" */}
         {toolMode === 'MOVE' && liftedGroup && hoverPos && (
-            <group position={[hoverPos.x, hoverPos.y, hoverPos.z]}>
-                {liftedGroup.bricks?.map((b) => (
-                    <Brick 
-                        key={b.id}
-                        data={{
-                            ...b,
-                            // Ensure 0,0,0 relative to group
-                            x: b.offsetX || 0,
-                            y: b.offsetY || 0,
-                            z: b.offsetZ || 0,
-                        }}
-                        isGhost 
-                    />
-                ))}
+            <group position={[hoverPos.x, hoverPos.y * PLATE_HEIGHT, hoverPos.z]}>
+                <BrickInstances bricks={liftedGhost} ghost />
             </group>
         )}
 
-        <GridPlane 
+        {placementIssue && (
+          <Html
+            position={issueLabelPosition(placementIssue.brick)}
+            center
+            style={{ pointerEvents: 'none' }}
+          >
+            <div className="whitespace-nowrap rounded-lg bg-red-500 px-2 py-1 text-xs font-bold text-white shadow-md">
+              {placementIssue.message}
+            </div>
+          </Html>
+        )}
+
+        {baseplates.map(plate => (
+          <Baseplate
+            key={plate.id}
+            plate={plate}
+            onPlaneClick={() => handleClick()}
+            onPlaneMove={(p) => handlePointerMove(p)}
+          />
+        ))}
+
+        <GroundPlane 
+          baseplates={baseplates}
           onPlaneClick={(p) => handleClick()} 
           onPlaneMove={(p) => handlePointerMove(p)} 
         />
-        
-        <Grid 
-          position={[0, 0.01, 0]} 
-          args={[40, 40]} 
-          sectionSize={1} 
-          sectionThickness={1} 
-          sectionColor="#cccccc" 
-          cellColor="#e5e5e5" 
-          fadeDistance={25} 
-        />
       </group>
       
       <OrbitControls makeDefault enableDamping={true} dampingFactor={0.05} minPolarAngle={0} maxPolarAngle={Math.PI / 2.1} />
@@ -302,9 +400,10 @@ const SceneContent: React.FC<SceneProps> = ({
   );
 };
 
-const Scene: React.FC<SceneProps> = (props) => {
+const Scene: React.FC<SceneProps> = ({ canvasRef, ...props }) => {
   return (
-    <Canvas shadows camera={{ position: [12, 14, 12], fov: 45 }}>
+    // preserveDrawingBuffer lets the project library read the canvas back for thumbnails
+    <Canvas ref={canvasRef} shadows camera={{ position: [12, 14, 12], fov: 45 }} gl={{ preserveDrawingBuffer: true }}>
       <SceneContent {...props} />
     </Canvas>
   );
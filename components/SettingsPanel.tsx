@@ -0,0 +1,335 @@
+import React from 'react';
+import { GenerationSettings, FloatingVoxelStrategy, ColorPaletteId, BuildFill, OptimizerMode } from '../types';
+import { GENERATION_PROVIDERS } from '../services/generationService';
+import { COLOR_PALETTES } from '../services/colorQuantize';
+import { MAX_BASEPLATE_SIZE } from '../services/baseplates';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-blue-400 outline-none text-sm";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onChange }) => {
+  if (!isOpen) return null;
+
+  const paletteSize = (COLOR_PALETTES.find(p => p.id === settings.colors.paletteId) || COLOR_PALETTES[0]).colors.length;
+
+  const update = <K extends 'gemini' | 'openai' | 'offline' | 'repair' | 'colors' | 'shape' | 'network' | 'optimizer' | 'building'>(section: K, patch: Partial<GenerationSettings[K]>) => {
+    onChange({ ...settings, [section]: { ...settings[section], ...patch } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span>⚙️</span> Generation Settings
+            </h2>
+            <p className="text-xs text-gray-400 mt-1">Choose which backend turns images into bricks</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 text-gray-500" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {GENERATION_PROVIDERS.map(provider => {
+            const isSelected = settings.providerId === provider.id;
+            return (
+              <div
+                key={provider.id}
+                className={`rounded-xl border-2 p-4 transition-all ${isSelected ? 'border-blue-500 bg-blue-50/50' : 'border-gray-100'}`}
+              >
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="provider"
+                    checked={isSelected}
+                    onChange={() => onChange({ ...settings, providerId: provider.id })}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="font-bold text-gray-800">{provider.label}</div>
+                    <div className="text-xs text-gray-500">{provider.description}</div>
+                  </div>
+                </label>
+
+                {isSelected && provider.id === 'gemini' && (
+                  <div className="mt-3 pl-7 space-y-2">
+                    <label className="block text-xs font-bold text-gray-500">
+                      Model
+                      <input
+                        value={settings.gemini.model}
+                        onChange={e => update('gemini', { model: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                )}
+
+                {isSelected && provider.id === 'openai' && (
+                  <div className="mt-3 pl-7 space-y-2">
+                    <label className="block text-xs font-bold text-gray-500">
+                      Base URL
+                      <input
+                        value={settings.openai.baseUrl}
+                        onChange={e => update('openai', { baseUrl: e.target.value })}
+                        placeholder="http://localhost:11434/v1"
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block text-xs font-bold text-gray-500">
+                      Model
+                      <input
+                        value={settings.openai.model}
+                        onChange={e => update('openai', { model: e.target.value })}
+                        placeholder="e.g. llava or gpt-4o-mini"
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block text-xs font-bold text-gray-500">
+                      API Key (optional)
+                      <input
+                        type="password"
+                        value={settings.openai.apiKey}
+                        onChange={e => update('openai', { apiKey: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                )}
+
+                {isSelected && provider.id === 'offline' && (
+                  <div className="mt-3 pl-7 space-y-2">
+                    <label className="block text-xs font-bold text-gray-500">
+                      Width in studs: {settings.offline.resolution}
+                      <input
+                        type="range"
+                        min={8}
+                        max={32}
+                        value={settings.offline.resolution}
+                        onChange={e => update('offline', { resolution: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </label>
+                    <label className="block text-xs font-bold text-gray-500">
+                      Max thickness: {settings.offline.maxDepth * 2 - 1} studs
+                      <input
+                        type="range"
+                        min={1}
+                        max={6}
+                        value={settings.offline.maxDepth}
+                        onChange={e => update('offline', { maxDepth: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Build size & style */}
+          <div className="rounded-xl border-2 border-gray-100 p-4 space-y-2">
+            <div>
+              <div className="font-bold text-gray-800">Size & style</div>
+              <div className="text-xs text-gray-500">Sent with every new generation and enforced on the result, within the first baseplate</div>
+            </div>
+            {([
+              { field: 'targetVoxels', label: 'Target size', unit: 'blocks', min: 20, max: 800, step: 10 },
+              { field: 'maxWidth', label: 'Max width', unit: 'studs', min: 2, max: MAX_BASEPLATE_SIZE, step: 1 },
+              { field: 'maxDepth', label: 'Max depth', unit: 'studs', min: 2, max: MAX_BASEPLATE_SIZE, step: 1 },
+              { field: 'maxHeight', label: 'Max height', unit: 'layers', min: 2, max: 40, step: 1 },
+            ] as const).map(({ field, label, unit, min, max, step }) => (
+              <label key={field} className="block text-xs font-bold text-gray-500">
+                {label}: {settings.shape[field]} {unit}
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings.shape[field]}
+                  onChange={e => update('shape', { [field]: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+            ))}
+            <div className="flex items-center gap-4 text-sm text-gray-700">
+              {(['solid', 'hollow'] as BuildFill[]).map(fill => (
+                <label key={fill} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="fill"
+                    checked={settings.shape.fill === fill}
+                    onChange={() => update('shape', { fill })}
+                  />
+                  {fill === 'solid' ? 'Solid' : 'Hollow'}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 cursor-pointer ml-auto">
+                <input
+                  type="checkbox"
+                  checked={settings.shape.symmetric}
+                  onChange={e => update('shape', { symmetric: e.target.checked })}
+                />
+                Symmetric
+              </label>
+            </div>
+          </div>
+
+          {/* Colour matching */}
+          <div className="rounded-xl border-2 border-gray-100 p-4 space-y-2">
+            <div>
+              <div className="font-bold text-gray-800">Colours</div>
+              <div className="text-xs text-gray-500">Generated colours are matched to real brick colours before bricks are merged</div>
+            </div>
+            <label className="block text-xs font-bold text-gray-500">
+              Palette
+              <select
+                value={settings.colors.paletteId}
+                onChange={e => update('colors', { paletteId: e.target.value as ColorPaletteId })}
+                className={inputClass}
+              >
+                {COLOR_PALETTES.map(palette => (
+                  <option key={palette.id} value={palette.id}>{palette.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-bold text-gray-500">
+              Max colours: {Math.min(settings.colors.maxColors, paletteSize)}
+              <input
+                type="range"
+                min={1}
+                max={paletteSize}
+                value={Math.min(settings.colors.maxColors, paletteSize)}
+                onChange={e => update('colors', { maxColors: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.colors.dither}
+                onChange={e => update('colors', { dither: e.target.checked })}
+              />
+              Dither gradients (more colour detail, smaller bricks)
+            </label>
+          </div>
+
+          {/* Clean-up of generated output */}
+          <div className="rounded-xl border-2 border-gray-100 p-4">
+            <div className="font-bold text-gray-800">Floating bricks</div>
+            <div className="text-xs text-gray-500 mb-2">What to do with generated parts that don't rest on anything</div>
+            {([
+              { value: 'support', label: 'Add support columns' },
+              { value: 'remove', label: 'Remove them' },
+            ] as Array<{ value: FloatingVoxelStrategy, label: string }>).map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="floatingVoxels"
+                  checked={settings.repair.floatingVoxels === option.value}
+                  onChange={() => update('repair', { floatingVoxels: option.value })}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          {/* Brick layout */}
+          <div className="rounded-xl border-2 border-gray-100 p-4 space-y-2">
+            <div>
+              <div className="font-bold text-gray-800">Brick layout</div>
+              <div className="text-xs text-gray-500">How voxels are merged into bricks</div>
+            </div>
+            {([
+              { value: 'stable', label: 'Interlocking', description: 'Staggers seams between layers so the model holds together when built' },
+              { value: 'greedy', label: 'Fewest bricks', description: 'Biggest bricks first, layer by layer; seams may stack up' },
+              { value: 'inventory', label: 'Only parts I own', description: 'Uses the 📦 My Parts inventory; swaps sizes, then colours, then hollows the inside' },
+            ] as Array<{ value: OptimizerMode, label: string, description: string }>).map(option => (
+              <label key={option.value} className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="optimizerMode"
+                  className="mt-1"
+                  checked={settings.optimizer.mode === option.value}
+                  onChange={() => update('optimizer', { mode: option.value })}
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.optimizer.mergeHiddenColors}
+                disabled={settings.optimizer.mode !== 'stable'}
+                onChange={e => update('optimizer', { mergeHiddenColors: e.target.checked })}
+              />
+              Recolour hidden interior bricks to merge them
+            </label>
+          </div>
+
+          {/* Hand building */}
+          <div className="rounded-xl border-2 border-gray-100 p-4 space-y-2">
+            <div>
+              <div className="font-bold text-gray-800">Building</div>
+              <div className="text-xs text-gray-500">Rules for placing and moving parts by hand</div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.building.requireSupport}
+                onChange={e => update('building', { requireSupport: e.target.checked })}
+              />
+              Parts must sit on the baseplate or click onto another part
+            </label>
+          </div>
+
+          {/* Network */}
+          <div className="rounded-xl border-2 border-gray-100 p-4 space-y-2">
+            <div>
+              <div className="font-bold text-gray-800">Network</div>
+              <div className="text-xs text-gray-500">Applies to the cloud and OpenAI-compatible backends</div>
+            </div>
+            <label className="block text-xs font-bold text-gray-500">
+              Timeout: {settings.network.timeoutSeconds} seconds
+              <input
+                type="range"
+                min={15}
+                max={600}
+                step={15}
+                value={settings.network.timeoutSeconds}
+                onChange={e => update('network', { timeoutSeconds: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="block text-xs font-bold text-gray-500">
+              Automatic retries: {settings.network.maxRetries}
+              <input
+                type="range"
+                min={0}
+                max={5}
+                value={settings.network.maxRetries}
+                onChange={e => update('network', { maxRetries: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
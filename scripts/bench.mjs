@@ -0,0 +1,18 @@
+// Runs benchmark and check files through Vite, so they import the app's TypeScript and JSON as the
+// app does. Usage: node scripts/bench.mjs benchmarks/spatialIndex.bench.ts [...]
+import { createServer } from 'vite';
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error('Usage: node scripts/bench.mjs <benchmark file> [...]');
+  process.exit(1);
+}
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'warn' });
+try {
+  for (const file of files) {
+    await server.ssrLoadModule(`/${file}`);
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,86 @@
+import { v4 as uuidv4 } from "uuid";
+import { Baseplate } from "../types";
+
+/**
+ * The build areas of a project. Parts are placed over baseplates, new generated builds
+ * go on the first one, and several side by side make room for a diorama.
+ */
+
+export const DEFAULT_BASEPLATE_COLOR = "#EEEEEE";
+// The largest baseplate sold, and what generated builds are sized against at most
+export const MAX_BASEPLATE_SIZE = 48;
+
+export const createBaseplate = (plate: Partial<Omit<Baseplate, "id">> = {}): Baseplate => ({
+  id: uuidv4(),
+  x: 0,
+  z: 0,
+  width: 16,
+  depth: 16,
+  color: DEFAULT_BASEPLATE_COLOR,
+  studded: true,
+  ...plate,
+});
+
+// A new project starts with the board every build used before baseplates could be set up:
+// studs -10 to 10 each way, centred on the origin
+export const createDefaultBaseplates = (): Baseplate[] => [createBaseplate({ x: -10, z: -10, width: 21, depth: 21 })];
+
+export const isOnBaseplate = (plate: Baseplate, x: number, z: number): boolean =>
+  x >= plate.x && x < plate.x + plate.width && z >= plate.z && z < plate.z + plate.depth;
+
+export const isOnBaseplates = (baseplates: Baseplate[], x: number, z: number): boolean =>
+  baseplates.some(plate => isOnBaseplate(plate, x, z));
+
+// Stud cells a baseplate covers, as [x, z]
+export const getBaseplateCells = (plate: Baseplate): Array<[number, number]> => {
+  const cells: Array<[number, number]> = [];
+  for (let x = plate.x; x < plate.x + plate.width; x++) {
+    for (let z = plate.z; z < plate.z + plate.depth; z++) cells.push([x, z]);
+  }
+  return cells;
+};
+
+/**
+ * The stud a build centred on `plate` is centred on. Shape bounds run from -floor(size/2)
+ * to ceil(size/2) - 1, so a build as big as the plate covers it exactly.
+ */
+export const baseplateCenter = (plate: Baseplate) => ({
+  x: plate.x + Math.floor(plate.width / 2),
+  z: plate.z + Math.floor(plate.depth / 2),
+});
+
+/**
+ * Inclusive stud cells covered by all baseplates together, or null when there are none.
+ */
+export const baseplatesExtent = (baseplates: Baseplate[]) => {
+  if (baseplates.length === 0) return null;
+  return {
+    minX: Math.min(...baseplates.map(p => p.x)),
+    maxX: Math.max(...baseplates.map(p => p.x + p.width - 1)),
+    minZ: Math.min(...baseplates.map(p => p.z)),
+    maxZ: Math.max(...baseplates.map(p => p.z + p.depth - 1)),
+  };
+};
+
+/**
+ * Where a new `width` x `depth` baseplate goes: right of the others, lined up with the first.
+ */
+export const nextBaseplatePosition = (baseplates: Baseplate[], width: number, depth: number) => {
+  const extent = baseplatesExtent(baseplates);
+  if (!extent) return { x: -Math.floor(width / 2), z: -Math.floor(depth / 2) };
+  return { x: extent.maxX + 1, z: baseplates[0].z };
+};
+
+/**
+ * Ids of baseplates that cover a stud of another one.
+ */
+export const findOverlappingBaseplates = (baseplates: Baseplate[]): Set<string> => {
+  const overlapping = new Set<string>();
+  baseplates.forEach((a, i) => baseplates.slice(i + 1).forEach(b => {
+    if (a.x < b.x + b.width && b.x < a.x + a.width && a.z < b.z + b.depth && b.z < a.z + a.depth) {
+      overlapping.add(a.id);
+      overlapping.add(b.id);
+    }
+  }));
+  return overlapping;
+};
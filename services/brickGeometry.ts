@@ -0,0 +1,338 @@
+import { BrickData, BrickType, PartDirection, PartPrimitive } from "../types";
+import {
+  BRICK_TYPES, PLATE_HEIGHT, PLATES_PER_BRICK, BRICK_WIDTH, BRICK_DEPTH, STUD_RADIUS, STUD_HEIGHT, BRICK_GAP
+} from "../constants";
+
+/**
+ * Plain description of the shapes Brick.tsx draws, for code that needs brick
+ * geometry outside of React (exporters, offscreen renders), plus the cells, studs and
+ * sockets each brick covers in the world grid. Both come from the part catalog.
+ */
+
+export type Vec3 = [number, number, number];
+
+export interface BrickPrimitive {
+  role: "body" | "stud" | "axle" | "tire" | "rim";
+  shape: "box" | "cylinder" | "wedge";
+  // box: [width, height, depth]; cylinder: [radius, height, radialSegments];
+  // wedge: [width, height, depth, edgeHeight], thin side towards -z before rotation
+  args: number[];
+  position: Vec3; // Relative to the brick centre
+  rotation: Vec3; // Euler XYZ
+  color: string;
+}
+
+/**
+ * Height of a brick in plates. Bricks without a height (including everything saved before
+ * plates existed) are full bricks.
+ */
+export const getBrickHeight = (brick: Pick<BrickData, "height">): number => brick.height || PLATES_PER_BRICK;
+
+// ---- Catalog lookup ----
+
+/**
+ * Finds the catalog entry for a brick: the named part if it has one, otherwise the first
+ * part matching its footprint (in either orientation), height, tile flag and special type.
+ */
+export const findBrickType = (
+  brick: Pick<BrickData, "sizeX" | "sizeZ" | "specialType" | "height" | "tile" | "part">
+): BrickType | undefined => {
+  if (brick.part) return BRICK_TYPES.find(t => t.label === brick.part);
+  const sizeX = brick.sizeX || 1;
+  const sizeZ = brick.sizeZ || 1;
+  return BRICK_TYPES.find(t =>
+    t.specialType === brick.specialType &&
+    getBrickHeight(t) === getBrickHeight(brick) &&
+    !!t.tile === !!brick.tile &&
+    ((t.sizeX === sizeX && t.sizeZ === sizeZ) || (t.sizeX === sizeZ && t.sizeZ === sizeX))
+  );
+};
+
+/**
+ * The fields a new brick of `type` needs at `rotation`. Parts the footprint alone can't
+ * identify (slopes, arches…) also carry their label.
+ */
+export const brickShapeFor = (
+  type: BrickType,
+  rotation: number
+): Pick<BrickData, "sizeX" | "sizeZ" | "rotation" | "specialType" | "height" | "tile" | "part"> => {
+  const turned = rotation % 180 !== 0;
+  const shape = {
+    sizeX: turned ? type.sizeZ : type.sizeX,
+    sizeZ: turned ? type.sizeX : type.sizeZ,
+    rotation,
+    ...(type.specialType ? { specialType: type.specialType } : {}),
+    ...(getBrickHeight(type) !== PLATES_PER_BRICK ? { height: getBrickHeight(type) } : {}),
+    ...(type.tile ? { tile: true } : {}),
+  };
+  return findBrickType(shape) === type ? shape : { ...shape, part: type.label };
+};
+
+// Stand-in for footprints the catalog doesn't have, e.g. from old or hand-edited files
+const plainPart = (brick: BrickData): BrickType => {
+  const sizeX = Math.max(1, Math.floor(brick.sizeX || 1));
+  const sizeZ = Math.max(1, Math.floor(brick.sizeZ || 1));
+  const height = getBrickHeight(brick);
+  const cells: Array<[number, number]> = [];
+  for (let x = 0; x < sizeX; x++) {
+    for (let z = 0; z < sizeZ; z++) cells.push([x, z]);
+  }
+  return {
+    label: `${sizeX}x${sizeZ}`,
+    category: "Bricks",
+    sizeX,
+    sizeZ,
+    height,
+    occupancy: [{ mask: Array.from({ length: sizeZ }, () => "#".repeat(sizeX)), from: 0, to: height }],
+    studs: brick.tile ? [] : cells,
+    sockets: cells,
+    geometry: [{ shape: "box", from: [0, 0, 0], to: [sizeX, height, sizeZ] }],
+  };
+};
+
+// Part and rotation per distinct shape; a build only has a handful of those
+const placementCache = new Map<string, { part: BrickType, rotation: number }>();
+
+/**
+ * A brick's part and its quarter turns (0, 90, 180 or 270). Bricks whose stored footprint
+ * doesn't match their rotation (older data only swapped the sizes) get a quarter turn added.
+ */
+const placement = (brick: BrickData): { part: BrickType, rotation: number } => {
+  const key = `${brick.part}|${brick.sizeX}|${brick.sizeZ}|${brick.height}|${brick.tile}|${brick.specialType}|${brick.rotation}`;
+  let found = placementCache.get(key);
+  if (found) return found;
+  const part = findBrickType(brick) || plainPart(brick);
+  let rotation = ((Math.round((brick.rotation || 0) / 90) * 90) % 360 + 360) % 360;
+  const turned = rotation % 180 !== 0;
+  if ((turned ? part.sizeZ : part.sizeX) !== (brick.sizeX || 1)) rotation = (rotation + 90) % 360;
+  found = { part, rotation };
+  placementCache.set(key, found);
+  return found;
+};
+
+/**
+ * A brick's rotation in degrees (0, 90, 180 or 270), consistent with its stored footprint.
+ */
+export const getBrickRotation = (brick: BrickData): number => placement(brick).rotation;
+
+// Rotates a point about the vertical axis the way three.js does (rotation.y = degrees)
+const turn = (x: number, z: number, degrees: number): [number, number] => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.round(Math.cos(radians));
+  const sin = Math.round(Math.sin(radians));
+  return [x * cos + z * sin, -x * sin + z * cos];
+};
+
+// World cell offset from the brick's min corner for a part-local cell
+const toWorldCell = (part: BrickType, rotation: number, x: number, z: number): [number, number] => {
+  const [cx, cz] = turn(x + 0.5 - part.sizeX / 2, z + 0.5 - part.sizeZ / 2, rotation);
+  const turned = rotation % 180 !== 0;
+  const width = turned ? part.sizeZ : part.sizeX;
+  const depth = turned ? part.sizeX : part.sizeZ;
+  return [Math.round(cx + width / 2 - 0.5), Math.round(cz + depth / 2 - 0.5)];
+};
+
+// Cells, studs and sockets of a part at a rotation, relative to its min corner
+interface PartLayout {
+  cells: Vec3[];
+  studs: Array<[number, number]>;
+  sockets: Array<[number, number]>;
+}
+
+// Every brick of a part shares its layouts; large builds ask for them constantly
+const layoutCache = new WeakMap<BrickType, Map<number, PartLayout>>();
+
+const partLayout = (part: BrickType, rotation: number): PartLayout => {
+  let byRotation = layoutCache.get(part);
+  if (!byRotation) {
+    byRotation = new Map();
+    layoutCache.set(part, byRotation);
+  }
+  let layout = byRotation.get(rotation);
+  if (layout) return layout;
+
+  const cells: Vec3[] = [];
+  const seen = new Set<string>();
+  part.occupancy.forEach(layer => {
+    layer.mask.forEach((row, z) => {
+      Array.from(row).forEach((char, x) => {
+        if (char !== "#") return;
+        const [dx, dz] = toWorldCell(part, rotation, x, z);
+        for (let plate = layer.from; plate < layer.to; plate++) {
+          const key = `${dx},${plate},${dz}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          cells.push([dx, plate, dz]);
+        }
+      });
+    });
+  });
+  layout = {
+    cells,
+    studs: part.studs.map(([x, z]) => toWorldCell(part, rotation, x, z)),
+    sockets: part.sockets.map(([x, z]) => toWorldCell(part, rotation, x, z)),
+  };
+  byRotation.set(rotation, layout);
+  return layout;
+};
+
+const layoutOf = (brick: BrickData): PartLayout => {
+  const { part, rotation } = placement(brick);
+  return partLayout(part, rotation);
+};
+
+/**
+ * Every stud cell and plate a brick fills, as [x, plate, z]. Arches leave the cells under
+ * their span free; corner bricks leave out their missing quarter.
+ */
+export const getBrickCells = (brick: BrickData): Vec3[] =>
+  layoutOf(brick).cells.map(([dx, plate, dz]) => [brick.x + dx, brick.y + plate, brick.z + dz]);
+
+/**
+ * Stud cells on top of a brick as [x, z]; a part stacked directly above connects through these.
+ */
+export const getStudCells = (brick: BrickData): Array<[number, number]> =>
+  layoutOf(brick).studs.map(([dx, dz]) => [brick.x + dx, brick.z + dz]);
+
+/**
+ * Cells underneath a brick, as [x, z], that grip the studs of a part directly below.
+ */
+export const getSocketCells = (brick: BrickData): Array<[number, number]> =>
+  layoutOf(brick).sockets.map(([dx, dz]) => [brick.x + dx, brick.z + dz]);
+
+// ---- Shapes ----
+
+/**
+ * Centre of a brick in scene units, matching the resting position in Brick.tsx.
+ */
+export const getBrickCenter = (brick: BrickData): Vec3 => {
+  const sizeX = Math.max(1, brick.sizeX || 1);
+  const sizeZ = Math.max(1, brick.sizeZ || 1);
+  return [
+    brick.x * BRICK_WIDTH + ((sizeX - 1) / 2) * BRICK_WIDTH,
+    (brick.y + getBrickHeight(brick) / 2) * PLATE_HEIGHT,
+    brick.z * BRICK_DEPTH + ((sizeZ - 1) / 2) * BRICK_DEPTH,
+  ];
+};
+
+const CYLINDER_SEGMENTS: Record<BrickPrimitive["role"], number> = { body: 24, stud: 16, axle: 12, tire: 24, rim: 16 };
+
+// Yaw that turns a wedge's thin side from -z to `direction`
+const WEDGE_YAW: Record<PartDirection, number> = { "-z": 0, "-x": Math.PI / 2, "+z": Math.PI, "+x": -Math.PI / 2 };
+const DIRECTIONS: Record<PartDirection, [number, number]> = { "+x": [1, 0], "-x": [-1, 0], "+z": [0, 1], "-z": [0, -1] };
+
+const turnDirection = (direction: PartDirection, degrees: number): PartDirection => {
+  const [x, z] = turn(...DIRECTIONS[direction], degrees);
+  return (Object.keys(DIRECTIONS) as PartDirection[]).find(d => DIRECTIONS[d][0] === x && DIRECTIONS[d][1] === z)!;
+};
+
+/**
+ * One catalog primitive in scene units, relative to the brick centre. Box sides on the
+ * outside of the footprint are pulled in by half of BRICK_GAP so neighbours stay apart.
+ */
+const toBrickPrimitive = (primitive: PartPrimitive, part: BrickType, rotation: number, color: string): BrickPrimitive => {
+  const height = getBrickHeight(part);
+  // Part-local point -> scene offset from the brick centre
+  const place = (x: number, y: number, z: number): Vec3 => {
+    const [tx, tz] = turn(x - part.sizeX / 2, z - part.sizeZ / 2, rotation);
+    return [tx * BRICK_WIDTH, (y - height / 2) * PLATE_HEIGHT, tz * BRICK_DEPTH];
+  };
+  const base = { role: primitive.role || "body", color: primitive.color || color } as const;
+
+  if (primitive.shape === "cylinder") {
+    const [x, y, z] = primitive.center;
+    const axis = primitive.axis === "y" ? "y" : (primitive.axis === "x") === (rotation % 180 === 0) ? "x" : "z";
+    const length = primitive.axis === "y" ? primitive.length * PLATE_HEIGHT : primitive.length * BRICK_WIDTH;
+    return {
+      ...base,
+      shape: "cylinder",
+      args: [primitive.radius * BRICK_WIDTH, length, CYLINDER_SEGMENTS[base.role]],
+      position: place(x, y, z),
+      rotation: axis === "y" ? [0, 0, 0] : axis === "x" ? [0, 0, Math.PI / 2] : [Math.PI / 2, 0, 0],
+    };
+  }
+
+  const inset = (value: number, size: number) =>
+    value === 0 ? BRICK_GAP / 2 : value === size ? size - BRICK_GAP / 2 : value;
+  const x0 = inset(primitive.from[0], part.sizeX), x1 = inset(primitive.to[0], part.sizeX);
+  const z0 = inset(primitive.from[2], part.sizeZ), z1 = inset(primitive.to[2], part.sizeZ);
+  const [y0, y1] = [primitive.from[1], primitive.to[1]];
+  const position = place((x0 + x1) / 2, (y0 + y1) / 2, (z0 + z1) / 2);
+  const sizeX = (x1 - x0) * BRICK_WIDTH, sizeY = (y1 - y0) * PLATE_HEIGHT, sizeZ = (z1 - z0) * BRICK_DEPTH;
+
+  if (primitive.shape === "box") {
+    const turned = rotation % 180 !== 0;
+    return { ...base, shape: "box", args: turned ? [sizeZ, sizeY, sizeX] : [sizeX, sizeY, sizeZ], position, rotation: [0, 0, 0] };
+  }
+
+  // Wedge: width across the slope, depth along it
+  const alongX = primitive.thin === "+x" || primitive.thin === "-x";
+  return {
+    ...base,
+    shape: "wedge",
+    args: [alongX ? sizeZ : sizeX, sizeY, alongX ? sizeX : sizeZ, primitive.edge * PLATE_HEIGHT],
+    position,
+    rotation: [0, WEDGE_YAW[turnDirection(primitive.thin, rotation)], primitive.inverted ? Math.PI : 0],
+  };
+};
+
+export const getBrickPrimitives = (brick: BrickData, options: { studs: boolean }): BrickPrimitive[] => {
+  const { part, rotation } = placement(brick);
+  const primitives = part.geometry.map(primitive => toBrickPrimitive(primitive, part, rotation, brick.color));
+
+  if (options.studs && !brick.tile) {
+    const [cx, , cz] = getBrickCenter(brick);
+    const top = (getBrickHeight(brick) * PLATE_HEIGHT) / 2;
+    getStudCells(brick).forEach(([x, z]) => {
+      primitives.push({
+        role: "stud",
+        shape: "cylinder",
+        args: [STUD_RADIUS, STUD_HEIGHT, 16],
+        position: [x * BRICK_WIDTH - cx, top + STUD_HEIGHT / 2, z * BRICK_DEPTH - cz],
+        rotation: [0, 0, 0],
+        color: brick.color,
+      });
+    });
+  }
+
+  return primitives;
+};
+
+/**
+ * A brick split for solid modelling: the cells its box primitives fill whole, as
+ * [x, plate, z], and the rest of its primitives (wedges, cylinders) without studs. Exporters
+ * fuse the cells of neighbouring parts into one shell.
+ */
+export const getBrickSolids = (brick: BrickData): { cells: Vec3[], primitives: BrickPrimitive[] } => {
+  const { part, rotation } = placement(brick);
+  const cells: Vec3[] = [];
+  const primitives: BrickPrimitive[] = [];
+
+  part.geometry.forEach(primitive => {
+    if (primitive.shape !== "box" || ![...primitive.from, ...primitive.to].every(Number.isInteger)) {
+      primitives.push(toBrickPrimitive(primitive, part, rotation, brick.color));
+      return;
+    }
+    const [x0, y0, z0] = primitive.from;
+    const [x1, y1, z1] = primitive.to;
+    for (let x = x0; x < x1; x++) {
+      for (let z = z0; z < z1; z++) {
+        const [dx, dz] = toWorldCell(part, rotation, x, z);
+        for (let plate = y0; plate < y1; plate++) cells.push([brick.x + dx, brick.y + plate, brick.z + dz]);
+      }
+    }
+  });
+
+  return { cells, primitives };
+};
+
+/**
+ * Whether a brick is drawn as a single box filling its whole footprint, so it can be
+ * treated as solid cells.
+ */
+export const isSolidBox = (brick: BrickData): boolean => {
+  const { part } = placement(brick);
+  const [body] = part.geometry;
+  return part.geometry.length === 1 && body.shape === "box" &&
+    body.from.every(v => v === 0) && body.to.join() === [part.sizeX, getBrickHeight(part), part.sizeZ].join();
+};
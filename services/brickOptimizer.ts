@@ -0,0 +1,688 @@
+import { v4 as uuidv4 } from "uuid";
+import { BrickData, BrickType, ConnectivityReport, InventoryItem, OptimizerSettings, Voxel } from "../types";
+import { BRICK_TYPES, PLATES_PER_BRICK } from "../constants";
+import { findBrickType, getBrickCells, getBrickHeight, getSocketCells, getStudCells, isSolidBox } from "./brickGeometry";
+import { ciede2000, hexToRgb, rgbToLab } from "./colorUtils";
+import { inventoryKey } from "./inventory";
+
+// Whole voxels are packed into plain bricks, thin and smooth-topped ones into plates and tiles
+const PACKED_CATEGORIES = ["Bricks", "Plates", "Tiles"];
+
+// Standard parts `height` plates tall, with a smooth top or not; largest first
+const packableTypes = (height: number, tile: boolean): BrickType[] =>
+  BRICK_TYPES.filter(t => PACKED_CATEGORIES.includes(t.category) && getBrickHeight(t) === height && !!t.tile === tile)
+    .sort((a, b) => (b.sizeX * b.sizeZ) - (a.sizeX * a.sizeZ));
+
+/**
+ * One part-high piece of a voxel: a whole voxel is one brick-high slab, a thin or
+ * smooth-topped one a plate-high slab per plate. `y` is in plates, like a brick's.
+ */
+interface Slab {
+  x: number;
+  y: number;
+  z: number;
+  color: string;
+  height: number;
+  tile: boolean;
+}
+
+/**
+ * Splits voxels into slabs. A thin voxel with another one on top is filled up to the
+ * whole layer, since a gap under the part above would leave it unsupported. `occupied`
+ * holds the voxel cells that count as on top, by default the voxels themselves.
+ */
+const toSlabs = (voxels: Voxel[], occupied = new Set(voxels.map(v => cellKey(v.x, v.y, v.z)))): Slab[] =>
+  voxels.flatMap(v => {
+    const covered = occupied.has(cellKey(v.x, v.y + 1, v.z));
+    const plates = covered ? PLATES_PER_BRICK : Math.min(PLATES_PER_BRICK, Math.max(1, Math.round(v.plates || PLATES_PER_BRICK)));
+    const tile = !covered && !!v.tile;
+    const base = { x: v.x, z: v.z, color: v.color };
+    if (plates === PLATES_PER_BRICK && !tile) return [{ ...base, y: v.y * PLATES_PER_BRICK, height: PLATES_PER_BRICK, tile }];
+    return Array.from({ length: plates }, (_, i) => ({
+      ...base, y: v.y * PLATES_PER_BRICK + i, height: 1, tile: tile && i === plates - 1,
+    }));
+  });
+
+// Height and smooth top of a slab's part, as BrickData fields
+const slabShape = (slab: Pick<Slab, "height" | "tile">): Pick<BrickData, "height" | "tile"> => ({
+  ...(slab.height !== PLATES_PER_BRICK ? { height: slab.height } : {}),
+  ...(slab.tile ? { tile: true } : {}),
+});
+
+/**
+ * Brick layers (voxel y) a placed brick reaches into. Bricks sit at y in plates, so a plate
+ * shares its layer with the bricks around it.
+ */
+export const brickLayers = (brick: BrickData): number[] => {
+  const first = Math.floor(brick.y / PLATES_PER_BRICK);
+  const last = Math.floor((brick.y + getBrickHeight(brick) - 1) / PLATES_PER_BRICK);
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+};
+
+/**
+ * The voxel cells ([x, layer, z]) a placed part fills. Unlike brickLayers this follows the
+ * part's shape, so the space under an arch stays free.
+ */
+export const brickLayerCells = (brick: BrickData): Array<[number, number, number]> => {
+  const cells = new Map<string, [number, number, number]>();
+  getBrickCells(brick).forEach(([x, plate, z]) => {
+    const y = Math.floor(plate / PLATES_PER_BRICK);
+    cells.set(cellKey(x, y, z), [x, y, z]);
+  });
+  return Array.from(cells.values());
+};
+
+// Helper to optimize 1x1 voxels into larger standard bricks
+export const optimizeBricks = (rawBricks: Voxel[]): BrickData[] => {
+  if (!rawBricks || !Array.isArray(rawBricks)) return [];
+  return packSlabs(toSlabs(rawBricks.filter(Boolean)));
+};
+
+const packSlabs = (slabs: Slab[]): BrickData[] => {
+  const optimized: BrickData[] = [];
+  
+  // Group slabs by plate (Y), part height, top and Color
+  const bricksByLayerColor = new Map<string, Set<string>>();
+  
+  slabs.forEach(b => {
+    const key = `${b.y},${b.height},${b.tile},${b.color}`;
+    if (!bricksByLayerColor.has(key)) {
+      bricksByLayerColor.set(key, new Set());
+    }
+    bricksByLayerColor.get(key)?.add(`${b.x},${b.z}`);
+  });
+
+  // Process each layer/color group
+  bricksByLayerColor.forEach((coordsSet, key) => {
+    const [yStr, heightStr, tileStr, color] = key.split(',');
+    const y = parseInt(yStr);
+    const shape = slabShape({ height: parseInt(heightStr), tile: tileStr === "true" });
+    // Filter out special types for auto-optimization (keep strictly standard blocks)
+    const standardTypes = packableTypes(parseInt(heightStr), tileStr === "true");
+    
+    // Convert Set to array and sort to process systematically (top-left to bottom-right)
+    const coords = Array.from(coordsSet).map(c => {
+      const [x, z] = c.split(',').map(Number);
+      return { x, z };
+    }).sort((a, b) => {
+      if (a.z !== b.z) return a.z - b.z;
+      return a.x - b.x;
+    });
+
+    const processed = new Set<string>();
+
+    coords.forEach(({ x, z }) => {
+      const coordKey = `${x},${z}`;
+      if (processed.has(coordKey)) return;
+
+      // Try to fit the largest possible brick starting at (x, z)
+      let bestFit: { type: BrickType, rotated: boolean } | null = null;
+
+      for (const brickType of standardTypes) {
+         // Try Standard Orientation
+         let fit = true;
+         for(let i = 0; i < brickType.sizeX; i++) {
+           for(let j = 0; j < brickType.sizeZ; j++) {
+              if (!coordsSet.has(`${x + i},${z + j}`) || processed.has(`${x + i},${z + j}`)) {
+                fit = false;
+                break;
+              }
+           }
+           if(!fit) break;
+         }
+         if (fit) {
+           bestFit = { type: brickType, rotated: false };
+           break; // Found best fit because we are iterating by size desc
+         }
+
+         // Try Rotated Orientation (if dimensions differ)
+         if (brickType.sizeX !== brickType.sizeZ) {
+           fit = true;
+           // Rotated: sizeX acts as depth (z), sizeZ acts as width (x)
+           const rWidth = brickType.sizeZ;
+           const rDepth = brickType.sizeX;
+
+           for(let i = 0; i < rWidth; i++) {
+              for(let j = 0; j < rDepth; j++) {
+                 if (!coordsSet.has(`${x + i},${z + j}`) || processed.has(`${x + i},${z + j}`)) {
+                   fit = false;
+                   break;
+                 }
+              }
+              if(!fit) break;
+           }
+           if (fit) {
+              bestFit = { type: brickType, rotated: true };
+              break;
+           }
+         }
+      }
+
+      if (bestFit) {
+         const width = bestFit.rotated ? bestFit.type.sizeZ : bestFit.type.sizeX;
+         const depth = bestFit.rotated ? bestFit.type.sizeX : bestFit.type.sizeZ;
+
+         // Mark as processed
+         for(let i = 0; i < width; i++) {
+            for(let j = 0; j < depth; j++) {
+               processed.add(`${x + i},${z + j}`);
+            }
+         }
+
+         optimized.push({
+            id: uuidv4(),
+            x,
+            y,
+            z,
+            color,
+            sizeX: width,
+            sizeZ: depth,
+            rotation: bestFit.rotated ? 90 : 0,
+            ...shape
+         });
+      } else {
+         // Fallback 1x1 
+         if (!processed.has(coordKey)) {
+            processed.add(coordKey);
+            optimized.push({
+               id: uuidv4(),
+               x,
+               y,
+               z,
+               color,
+               sizeX: 1,
+               sizeZ: 1,
+               ...shape
+            });
+         }
+      }
+    });
+  });
+
+  return optimized;
+};
+
+export const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+  mode: "stable",
+  mergeHiddenColors: true,
+};
+
+// Layout scoring for the stable mode, in "bricks": an extra brick costs 1
+const ALIGNED_SEAM_COST = 1.5; // per stud of seam that continues straight through the layer below
+const BRIDGE_BONUS = 1; // per extra brick below that one brick clamps together
+
+// Scan orders tried for every layer: [x step, z step, x is the primary axis]
+const SCAN_ORDERS: Array<[number, number, boolean]> = [
+  [1, 1, false], [-1, 1, false], [1, -1, true], [-1, -1, true],
+];
+
+const layerKey = (x: number, z: number) => `${x},${z}`;
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+interface LayerCell {
+  x: number;
+  z: number;
+  color: string;
+  // Hidden inside the model, so any colour will do
+  wildcard: boolean;
+}
+
+interface PlacedBrick {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  color: string;
+  rotated: boolean;
+  cells: string[];
+}
+
+/**
+ * Packs one layer starting each brick at the first uncovered cell in the given scan order.
+ * Candidates are scored by size, by seams that line up with the layer below (`below` maps
+ * a cell to the brick under it) and by how many bricks below they bridge.
+ */
+const packLayer = (
+  cells: Map<string, LayerCell>,
+  below: Map<string, number> | undefined,
+  types: BrickType[],
+  [sx, sz, xPrimary]: [number, number, boolean]
+): { bricks: PlacedBrick[], score: number } => {
+  const order = Array.from(cells.values()).sort((a, b) => {
+    const primary = xPrimary ? (a.x - b.x) * sx : (a.z - b.z) * sz;
+    if (primary !== 0) return primary;
+    return xPrimary ? (a.z - b.z) * sz : (a.x - b.x) * sx;
+  });
+
+  const taken = new Set<string>();
+  const bricks: PlacedBrick[] = [];
+  let score = 0;
+
+  // A seam between two cells is "aligned" when the same two cells also belong to different bricks below
+  const seamBelow = (a: string, b: string) => {
+    if (!below) return false;
+    const ownerA = below.get(a);
+    const ownerB = below.get(b);
+    return ownerA !== undefined && ownerB !== undefined && ownerA !== ownerB;
+  };
+
+  order.forEach(anchor => {
+    const anchorKey = layerKey(anchor.x, anchor.z);
+    if (taken.has(anchorKey)) return;
+
+    let best: { brick: PlacedBrick, score: number } | null = null;
+
+    for (const type of types) {
+      const footprints: Array<[number, number, boolean]> = [[type.sizeX, type.sizeZ, false]];
+      if (type.sizeX !== type.sizeZ) footprints.push([type.sizeZ, type.sizeX, true]);
+
+      for (const [width, depth, rotated] of footprints) {
+        // The brick grows away from the anchor in the scan direction
+        const minX = sx > 0 ? anchor.x : anchor.x - width + 1;
+        const minZ = sz > 0 ? anchor.z : anchor.z - depth + 1;
+        const keys: string[] = [];
+        let color: string | null = null;
+        let fits = true;
+        for (let i = 0; i < width && fits; i++) {
+          for (let j = 0; j < depth && fits; j++) {
+            const key = layerKey(minX + i, minZ + j);
+            const cell = cells.get(key);
+            if (!cell || taken.has(key)) fits = false;
+            else if (!cell.wildcard) {
+              if (color === null) color = cell.color;
+              else if (color !== cell.color) fits = false;
+            }
+            keys.push(key);
+          }
+        }
+        if (!fits) continue;
+
+        let aligned = 0;
+        for (let i = 0; i < width; i++) {
+          for (const [inside, outside] of [[minZ, minZ - 1], [minZ + depth - 1, minZ + depth]]) {
+            if (cells.has(layerKey(minX + i, outside)) && seamBelow(layerKey(minX + i, inside), layerKey(minX + i, outside))) aligned++;
+          }
+        }
+        for (let j = 0; j < depth; j++) {
+          for (const [inside, outside] of [[minX, minX - 1], [minX + width - 1, minX + width]]) {
+            if (cells.has(layerKey(outside, minZ + j)) && seamBelow(layerKey(inside, minZ + j), layerKey(outside, minZ + j))) aligned++;
+          }
+        }
+        const bridged = below ? new Set(keys.map(k => below.get(k)).filter(id => id !== undefined)).size : 0;
+
+        const candidateScore = width * depth - aligned * ALIGNED_SEAM_COST + Math.max(0, bridged - 1) * BRIDGE_BONUS;
+        if (!best || candidateScore > best.score) {
+          best = {
+            brick: { x: minX, z: minZ, width, depth, color: color ?? anchor.color, rotated, cells: keys },
+            score: candidateScore,
+          };
+        }
+      }
+    }
+
+    // Every standard palette has a 1x1, but fall back to one in case it was removed
+    const brick = best?.brick ?? { x: anchor.x, z: anchor.z, width: 1, depth: 1, color: anchor.color, rotated: false, cells: [anchorKey] };
+    brick.cells.forEach(k => taken.add(k));
+    bricks.push(brick);
+    score += (best?.score ?? 1) - brick.width * brick.depth - 1;
+  });
+
+  return { bricks, score };
+};
+
+/**
+ * Stability-aware alternative to optimizeBricks. Layers are packed bottom-up, and each layer
+ * takes whichever scan order gives the fewest bricks with the fewest seams stacked on the
+ * seams below (running bond). Thin voxels make plate-high layers of their own, packed the
+ * same way. `fixed` bricks stay where they are but count as neighbours.
+ * Returns the bricks plus how many hidden voxels changed colour to merge.
+ */
+export const optimizeStableBricks = (
+  rawBricks: Voxel[],
+  settings: OptimizerSettings = DEFAULT_OPTIMIZER_SETTINGS,
+  fixed: BrickData[] = []
+): { bricks: BrickData[], recolored: number } => {
+  // Which brick covers each plate cell; fixed bricks first so new layers bond to them too
+  const owner = new Map<string, number>();
+  let nextOwner = 0;
+  fixed.forEach(b => {
+    const id = nextOwner++;
+    getBrickCells(b).forEach(([x, y, z]) => owner.set(cellKey(x, y, z), id));
+  });
+
+  const voxels = rawBricks.filter(Boolean);
+  const occupied = new Set([
+    ...fixed.flatMap(brickLayerCells).map(([x, y, z]) => cellKey(x, y, z)),
+    ...voxels.map(v => cellKey(v.x, v.y, v.z)),
+  ]);
+  const hidden = new Set(voxels
+    .filter(v => [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]
+      .every(([dx, dy, dz]) => occupied.has(cellKey(v.x + dx, v.y + dy, v.z + dz))))
+    .map(v => cellKey(v.x, v.y, v.z)));
+
+  // Slabs by plate, part height and top; only whole, hidden voxels take any colour
+  const layers = new Map<string, { y: number, height: number, tile: boolean, cells: Map<string, LayerCell> }>();
+  toSlabs(voxels, occupied).forEach(s => {
+    const plates = Array.from({ length: s.height }, (_, i) => cellKey(s.x, s.y + i, s.z));
+    if (plates.some(k => owner.has(k))) return;
+    const key = `${s.y},${s.height},${s.tile}`;
+    if (!layers.has(key)) layers.set(key, { y: s.y, height: s.height, tile: s.tile, cells: new Map() });
+    layers.get(key)!.cells.set(layerKey(s.x, s.z), {
+      x: s.x,
+      z: s.z,
+      color: s.color,
+      wildcard: settings.mergeHiddenColors && s.height === PLATES_PER_BRICK &&
+        hidden.has(cellKey(s.x, s.y / PLATES_PER_BRICK, s.z)),
+    });
+  });
+
+  const optimized: BrickData[] = [];
+  let recolored = 0;
+
+  Array.from(layers.values()).sort((a, b) => a.y - b.y).forEach(({ y, height, tile, cells }) => {
+    const below = new Map<string, number>();
+    cells.forEach(({ x, z }) => {
+      const id = owner.get(cellKey(x, y - 1, z));
+      if (id !== undefined) below.set(layerKey(x, z), id);
+    });
+
+    const types = packableTypes(height, tile);
+    let best: { bricks: PlacedBrick[], score: number } | null = null;
+    for (const order of SCAN_ORDERS) {
+      const layout = packLayer(cells, below.size > 0 ? below : undefined, types, order);
+      if (!best || layout.score > best.score) best = layout;
+    }
+
+    best!.bricks.forEach(brick => {
+      const id = nextOwner++;
+      brick.cells.forEach(k => {
+        const cell = cells.get(k)!;
+        for (let i = 0; i < height; i++) owner.set(cellKey(cell.x, y + i, cell.z), id);
+        if (cell.color !== brick.color) recolored++;
+      });
+      optimized.push({
+        id: uuidv4(),
+        x: brick.x,
+        y,
+        z: brick.z,
+        color: brick.color,
+        sizeX: brick.width,
+        sizeZ: brick.depth,
+        ...(brick.rotated ? { rotation: 90 } : {}),
+        ...slabShape({ height, tile }),
+      });
+    });
+  });
+
+  return { bricks: optimized, recolored };
+};
+
+/**
+ * Splits a build into the pieces it would fall apart into off the baseplate: bricks are
+ * joined when one sits directly on top of the other with a socket on one of its studs.
+ */
+export const scoreConnectivity = (bricks: BrickData[]): ConnectivityReport => {
+  if (bricks.length === 0) return { bricks: 0, pieces: 0, score: 100 };
+
+  const parent = bricks.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  // Studs keyed by the plate just above them, which is where a part clicked on them starts
+  const owner = new Map<string, number>();
+  bricks.forEach((b, index) => {
+    const above = b.y + getBrickHeight(b);
+    getStudCells(b).forEach(([x, z]) => owner.set(cellKey(x, above, z), index));
+  });
+  bricks.forEach((b, index) => {
+    getSocketCells(b).forEach(([x, z]) => {
+      const under = owner.get(cellKey(x, b.y, z));
+      if (under !== undefined) parent[find(index)] = find(under);
+    });
+  });
+
+  const sizes = new Map<number, number>();
+  bricks.forEach((_, i) => sizes.set(find(i), (sizes.get(find(i)) || 0) + 1));
+  const largest = Math.max(...sizes.values());
+  return { bricks: bricks.length, pieces: sizes.size, score: Math.round((largest / bricks.length) * 100) };
+};
+
+// Hidden voxels on this grid stay when hollowing for the inventory, as pillars under the roof
+const PILLAR_SPACING = 3;
+
+/**
+ * Packs slabs using only parts with stock left, bottom layer first so foundations get
+ * parts before the top. Exact colours go first (largest part that fits, so running out
+ * of a size falls back to smaller ones); what's left then tries the owned colours nearest
+ * by CIEDE2000. `stock` is consumed.
+ */
+const packFromStock = (slabs: Slab[], stock: Map<string, number>) => {
+  const open = new Map(slabs.map(s => [cellKey(s.x, s.y, s.z), s]));
+  const sorted = [...slabs].sort((a, b) => a.y - b.y || a.z - b.z || a.x - b.x);
+  const bricks: BrickData[] = [];
+  let recolored = 0;
+
+  const place = (anchor: Slab, color: string): boolean => {
+    for (const type of packableTypes(anchor.height, anchor.tile)) {
+      const footprints: Array<[number, number, boolean]> = [[type.sizeX, type.sizeZ, false]];
+      if (type.sizeX !== type.sizeZ) footprints.push([type.sizeZ, type.sizeX, true]);
+      const key = inventoryKey(type.label, color);
+      if (!(stock.get(key)! > 0)) continue;
+
+      for (const [width, depth, rotated] of footprints) {
+        const keys: string[] = [];
+        for (let i = 0; i < width; i++) {
+          for (let j = 0; j < depth; j++) {
+            const cell = open.get(cellKey(anchor.x + i, anchor.y, anchor.z + j));
+            if (cell && cell.color === anchor.color && cell.height === anchor.height && cell.tile === anchor.tile) {
+              keys.push(cellKey(cell.x, cell.y, cell.z));
+            }
+          }
+        }
+        if (keys.length !== width * depth) continue;
+
+        stock.set(key, stock.get(key)! - 1);
+        keys.forEach(k => open.delete(k));
+        if (color.toUpperCase() !== anchor.color.toUpperCase()) recolored += keys.length;
+        bricks.push({
+          id: uuidv4(),
+          x: anchor.x,
+          y: anchor.y,
+          z: anchor.z,
+          color,
+          sizeX: width,
+          sizeZ: depth,
+          ...(rotated ? { rotation: 90 } : {}),
+          ...slabShape(anchor),
+        });
+        return true;
+      }
+    }
+    return false;
+  };
+
+  sorted.forEach(v => {
+    if (open.has(cellKey(v.x, v.y, v.z))) place(v, v.color);
+  });
+
+  const ownedColors = Array.from(new Set(Array.from(stock.keys()).map(key => key.split("|")[1])));
+  const nearestOwned = new Map<string, string[]>();
+  sorted.forEach(v => {
+    if (!open.has(cellKey(v.x, v.y, v.z))) return;
+    if (!nearestOwned.has(v.color)) {
+      const rgb = hexToRgb(v.color);
+      const lab = rgb ? rgbToLab(rgb) : null;
+      nearestOwned.set(v.color, ownedColors
+        .map(color => ({ color, distance: lab ? ciede2000(lab, rgbToLab(hexToRgb(color)!)) : 0 }))
+        .sort((a, b) => a.distance - b.distance)
+        .map(c => c.color));
+    }
+    for (const color of nearestOwned.get(v.color)!) {
+      if (place(v, color)) break;
+    }
+  });
+
+  return { bricks, leftover: Array.from(open.values()), recolored };
+};
+
+/**
+ * Builds voxels from the owned-parts inventory only: sizes are substituted first, then
+ * colours by nearest match, and if parts still run out the interior is hollowed (keeping
+ * pillars) and packed again. `fixed` bricks are already built and use up stock.
+ * `missing` is a greedy packing of whatever couldn't be built, i.e. the shopping list.
+ */
+export const optimizeInventoryBricks = (
+  rawBricks: Voxel[],
+  inventory: InventoryItem[],
+  fixed: BrickData[] = []
+): { bricks: BrickData[], missing: BrickData[], recolored: number, hollowed: number } => {
+  const initialStock = new Map<string, number>();
+  inventory.forEach(item => {
+    const key = inventoryKey(item.type, item.color);
+    initialStock.set(key, (initialStock.get(key) || 0) + item.count);
+  });
+  fixed.forEach(b => {
+    const type = findBrickType(b);
+    const key = type && inventoryKey(type.label, b.color);
+    if (key && initialStock.has(key)) initialStock.set(key, Math.max(0, initialStock.get(key)! - 1));
+  });
+
+  const occupied = new Set([
+    ...rawBricks.map(v => cellKey(v.x, v.y, v.z)),
+    ...bricksToVoxels(fixed).map(v => cellKey(v.x, v.y, v.z)),
+  ]);
+  let result = packFromStock(toSlabs(rawBricks, occupied), new Map(initialStock));
+  let hollowed = 0;
+
+  if (result.leftover.length > 0) {
+    const mod = (n: number) => ((n % PILLAR_SPACING) + PILLAR_SPACING) % PILLAR_SPACING;
+    const shell = rawBricks.filter(v => {
+      const hidden = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]
+        .every(([dx, dy, dz]) => occupied.has(cellKey(v.x + dx, v.y + dy, v.z + dz)));
+      return !hidden || (mod(v.x) === 0 && mod(v.z) === 0);
+    });
+
+    if (shell.length < rawBricks.length) {
+      // Thin voxels stay as they were even if hollowing uncovers them
+      const hollowResult = packFromStock(toSlabs(shell, occupied), new Map(initialStock));
+      if (hollowResult.leftover.length < result.leftover.length) {
+        result = hollowResult;
+        hollowed = rawBricks.length - shell.length;
+      }
+    }
+  }
+
+  return {
+    bricks: result.bricks,
+    missing: packSlabs(result.leftover),
+    recolored: result.recolored,
+    hollowed,
+  };
+};
+
+/**
+ * Runs the optimizer chosen in the settings and words what it did for the notes shown after
+ * generation. The connectivity "before" is the plain greedy layout of the same voxels, so
+ * the stable mode can show what it gained. `missing` is only filled in inventory mode.
+ */
+export const optimizeBuild = (
+  rawBricks: Voxel[],
+  settings: OptimizerSettings = DEFAULT_OPTIMIZER_SETTINGS,
+  fixed: BrickData[] = [],
+  inventory: InventoryItem[] = []
+): { bricks: BrickData[], missing: BrickData[], before: ConnectivityReport, after: ConnectivityReport, notes: string[] } => {
+  const greedy = optimizeBricks(rawBricks);
+  const before = scoreConnectivity([...fixed, ...greedy]);
+  if (settings.mode === "greedy") return { bricks: greedy, missing: [], before, after: before, notes: [] };
+
+  if (settings.mode === "inventory") {
+    const { bricks, missing, recolored, hollowed } = optimizeInventoryBricks(rawBricks, inventory, fixed);
+    const notes: string[] = [];
+    if (bricks.length > greedy.length) notes.push(`Used ${bricks.length - greedy.length} more, smaller bricks to make do with the parts you own`);
+    if (recolored) notes.push(`Swapped ${recolored} stud(s) to the nearest colour you own`);
+    if (hollowed) notes.push(`Hollowed out ${hollowed} interior voxel(s) to save parts`);
+    if (missing.length) notes.push(`Still ${missing.length} brick(s) short; see the missing parts list`);
+    return { bricks, missing, before, after: scoreConnectivity([...fixed, ...bricks]), notes };
+  }
+
+  const { bricks, recolored } = optimizeStableBricks(rawBricks, settings, fixed);
+  const after = scoreConnectivity([...fixed, ...bricks]);
+  const notes = [describeConnectivity(before, after)];
+  if (recolored) notes.push(`Recoloured ${recolored} hidden interior voxel(s) so they could join neighbouring bricks`);
+  return { bricks, missing: [], before, after, notes };
+};
+
+/**
+ * One-line summary of an optimize pass for the notes shown after generation.
+ */
+export const describeConnectivity = (before: ConnectivityReport, after: ConnectivityReport): string => {
+  const pieces = (report: ConnectivityReport) => `${report.pieces} piece${report.pieces === 1 ? "" : "s"}`;
+  return `Connectivity ${before.score}% → ${after.score}% (${pieces(before)} → ${pieces(after)}, ${before.bricks} → ${after.bricks} bricks)`;
+};
+
+/**
+ * "Merge & optimize" for an existing build: the bricks `inScope` accepts are split back into
+ * voxels and re-packed around the rest, which stays as it is. Shaped and special parts,
+ * plates, tiles and bricks not sitting on a whole-brick layer have no voxel form and are
+ * never touched.
+ */
+export const reoptimizeBricks = (
+  bricks: BrickData[],
+  settings: OptimizerSettings = DEFAULT_OPTIMIZER_SETTINGS,
+  inScope: (brick: BrickData) => boolean = () => true
+): { bricks: BrickData[], replaced: number, added: number, before: ConnectivityReport, after: ConnectivityReport } => {
+  const selected = bricks.filter(b =>
+    isSolidBox(b) && !b.tile && getBrickHeight(b) === PLATES_PER_BRICK && b.y % PLATES_PER_BRICK === 0 && inScope(b)
+  );
+  const selectedIds = new Set(selected.map(b => b.id));
+  const kept = bricks.filter(b => !selectedIds.has(b.id));
+
+  // Inventory mode could leave cells out, which would silently delete parts of the build
+  const packSettings: OptimizerSettings = settings.mode === "inventory" ? { ...settings, mode: "stable" } : settings;
+  const { bricks: packed } = optimizeBuild(bricksToVoxels(selected), packSettings, kept);
+  const result = [...kept, ...packed].sort((a, b) => a.y - b.y);
+
+  return {
+    bricks: result,
+    replaced: selected.length,
+    added: packed.length,
+    before: scoreConnectivity(bricks),
+    after: scoreConnectivity(result),
+  };
+};
+
+/**
+ * Inverse of optimizeBricks: splits bricks back into 1x1 cells, one per brick layer each
+ * filled cell reaches into. Where plates share a layer the lowest one gives the cell its
+ * colour; plates stacked from the bottom of a layer that don't fill it make a thin voxel,
+ * smooth-topped when the top one is a tile. Special parts (axles, wheels) have no voxel
+ * form and are skipped.
+ */
+export const bricksToVoxels = (bricks: BrickData[]): Voxel[] => {
+  const voxels = new Map<string, Voxel>();
+  // Which part fills each plate cell
+  const plates = new Map<string, BrickData>();
+  [...bricks].sort((a, b) => a.y - b.y).forEach(b => {
+    if (b.specialType) return;
+    getBrickCells(b).forEach(([x, plate, z]) => plates.set(cellKey(x, plate, z), b));
+    brickLayerCells(b).forEach(([x, y, z]) => {
+      const key = cellKey(x, y, z);
+      if (!voxels.has(key)) voxels.set(key, { x, y, z, color: b.color });
+    });
+  });
+
+  return Array.from(voxels.values()).map(v => {
+    const bottom = v.y * PLATES_PER_BRICK;
+    let filled = 0;
+    while (filled < PLATES_PER_BRICK && plates.has(cellKey(v.x, bottom + filled, v.z))) filled++;
+    if (filled === 0 || (filled === PLATES_PER_BRICK && !plates.get(cellKey(v.x, bottom + filled - 1, v.z))!.tile)) return v;
+    // Plates higher up in the layer, above a gap, can't be told apart from a whole voxel
+    for (let plate = bottom + filled; plate < bottom + PLATES_PER_BRICK; plate++) {
+      if (plates.has(cellKey(v.x, plate, v.z))) return v;
+    }
+    return {
+      ...v,
+      ...(filled < PLATES_PER_BRICK ? { plates: filled } : {}),
+      ...(plates.get(cellKey(v.x, bottom + filled - 1, v.z))!.tile ? { tile: true } : {}),
+    };
+  });
+};
@@ -0,0 +1,62 @@
+/**
+ * Incremental parser for a streamed `{ "bricks": [ {...}, {...} ] }` response. Each
+ * brick object is returned as soon as its closing brace arrives, so bricks can be
+ * shown before the whole answer is in. Text around the JSON (e.g. a ```json fence) is ignored.
+ */
+export const createBrickStreamParser = () => {
+  let buffer = "";
+  let pos = 0;
+  let arrayStart = -1;
+  let done = false;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  const push = (chunk: string): unknown[] => {
+    buffer += chunk;
+    const found: unknown[] = [];
+    if (done) return found;
+
+    if (arrayStart < 0) {
+      const key = buffer.indexOf('"bricks"');
+      const open = key >= 0 ? buffer.indexOf("[", key) : -1;
+      if (open < 0) return found;
+      arrayStart = open;
+      pos = open + 1;
+    }
+
+    for (; pos < buffer.length; pos++) {
+      const c = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === "\\") escaped = true;
+        else if (c === '"') inString = false;
+        continue;
+      }
+      if (c === '"') {
+        inString = true;
+      } else if (c === "{") {
+        if (depth === 0) objectStart = pos;
+        depth++;
+      } else if (c === "}") {
+        depth--;
+        if (depth === 0 && objectStart >= 0) {
+          try {
+            found.push(JSON.parse(buffer.slice(objectStart, pos + 1)));
+          } catch {
+            // Skip a garbled brick; the final parse decides whether the whole answer is usable
+          }
+          objectStart = -1;
+        }
+      } else if (c === "]" && depth === 0) {
+        done = true;
+        pos++;
+        break;
+      }
+    }
+    return found;
+  };
+
+  return { push };
+};
@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from "uuid";
+import { BrickData, GenerationRequest, InventoryItem, OptimizerSettings, Voxel } from "../types";
+import { optimizeBuild, brickLayerCells, bricksToVoxels, DEFAULT_OPTIMIZER_SETTINGS } from "./brickOptimizer";
+import { findBrickType } from "./brickGeometry";
+
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+// Voxel cells a brick covers; voxels are a brick layer tall while brick y is in plates
+const brickCells = (b: BrickData): string[] => brickLayerCells(b).map(([x, y, z]) => cellKey(x, y, z));
+
+/**
+ * The build as an edit request shows it to the model: plain bricks as voxels, plus the voxels
+ * of special parts (wheels, axle bricks) and which part each group belongs to.
+ */
+export const toEditRequest = (bricks: BrickData[]): Pick<GenerationRequest, "currentBuild" | "specialParts"> => {
+  const special = bricks.filter(b => b.specialType);
+  const voxels = bricksToVoxels(bricks);
+  const taken = new Set(voxels.map(v => cellKey(v.x, v.y, v.z)));
+  const specialParts = special.map(b => ({
+    part: findBrickType(b)?.label || b.specialType!,
+    voxels: brickLayerCells(b).map(([x, y, z]) => ({ x, y, z })),
+  }));
+  special.forEach(b => brickLayerCells(b).forEach(([x, y, z]) => {
+    if (taken.has(cellKey(x, y, z))) return;
+    taken.add(cellKey(x, y, z));
+    voxels.push({ x, y, z, color: b.color });
+  }));
+  return { currentBuild: voxels, specialParts };
+};
+
+// How much of its layer a voxel fills, so thinning or thickening one counts as a change
+const voxelShape = (v: Voxel) => `${v.plates || "whole"},${!!v.tile}`;
+
+/**
+ * Applies an edited voxel model on top of the current build. Bricks whose cells all survive
+ * with the same colour and thickness are kept as-is (same ids, so they don't re-animate);
+ * every other cell is re-packed into new bricks, bonding to the kept ones in the stable
+ * optimizer mode (or from what's left of the inventory in inventory mode). Special parts can't be re-packed:
+ * one stays while all its cells do, repainted if they all took one new colour, and goes
+ * along with whatever is left of its cells otherwise.
+ */
+export const applyVoxelDiff = (
+  current: BrickData[],
+  target: Voxel[],
+  optimizer: OptimizerSettings = DEFAULT_OPTIMIZER_SETTINGS,
+  inventory: InventoryItem[] = []
+): { bricks: BrickData[], added: BrickData[], removed: number, missing: BrickData[] } => {
+  const targetColors = new Map(target.map(v => [cellKey(v.x, v.y, v.z), v.color]));
+  const targetShapes = new Map(target.map(v => [cellKey(v.x, v.y, v.z), voxelShape(v)]));
+  const currentShapes = new Map(bricksToVoxels(current).map(v => [cellKey(v.x, v.y, v.z), voxelShape(v)]));
+
+  const kept: BrickData[] = [];
+  const repainted: BrickData[] = [];
+  const covered = new Set<string>();
+  current.forEach(b => {
+    const cells = brickCells(b);
+    if (b.specialType) {
+      cells.forEach(c => covered.add(c));
+      if (!cells.every(c => targetColors.has(c))) return;
+      const colors = new Set(cells.map(c => targetColors.get(c)!.toLowerCase()));
+      const [color] = colors;
+      if (colors.size === 1 && color !== b.color.toLowerCase()) {
+        repainted.push({ ...b, id: uuidv4(), color: targetColors.get(cells[0])! });
+      } else {
+        kept.push(b);
+      }
+      return;
+    }
+    const unchanged = cells.every(c =>
+      targetColors.get(c)?.toLowerCase() === b.color.toLowerCase() && targetShapes.get(c) === currentShapes.get(c)
+    );
+    if (!unchanged) return;
+    kept.push(b);
+    cells.forEach(c => covered.add(c));
+  });
+
+  const remaining = target.filter(v => !covered.has(cellKey(v.x, v.y, v.z)));
+  const { bricks: packed, missing } = optimizeBuild(remaining, optimizer, [...kept, ...repainted], inventory);
+  const added = [...repainted, ...packed].sort((a, b) => a.y - b.y);
+
+  return {
+    bricks: [...kept, ...added],
+    added,
+    removed: current.length - kept.length,
+    missing,
+  };
+};
@@ -0,0 +1,409 @@
+import { v4 as uuidv4 } from "uuid";
+import { Baseplate, BrickData, BrickType, BuildFile, BuildFileBrick, BuildFileMetadata } from "../types";
+import { BRICK_TYPES, PALETTE, PLATES_PER_BRICK } from "../constants";
+import { brickShapeFor, findBrickType, getBrickHeight, getBrickRotation } from "./brickGeometry";
+import { createBaseplate, DEFAULT_BASEPLATE_COLOR, MAX_BASEPLATE_SIZE } from "./baseplates";
+import { checkPlacement } from "./placement";
+import { createSpatialIndex } from "./spatialIndex";
+
+/**
+ * BrickGenius build files (*.brick.json).
+ *
+ * The on-disk format is documented in docs/build-file-format.md. When the format
+ * changes, bump BUILD_FILE_VERSION and add a migration from the previous version
+ * to MIGRATIONS so files shared between teammates keep opening.
+ */
+
+export const BUILD_FILE_FORMAT = "brickgenius-build";
+export const BUILD_FILE_VERSION = 3;
+export const BUILD_FILE_EXTENSION = "brick.json";
+
+const SPECIAL_TYPES = ["AXLE", "TIRE"];
+
+export class BuildFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "BuildFileError";
+    this.issues = issues;
+  }
+}
+
+export interface ParsedBuild {
+  bricks: BrickData[];
+  metadata: BuildFileMetadata;
+  baseplates: Baseplate[];
+  palette: BuildFile["palette"];
+  migratedFrom?: number; // Set when the file was upgraded from an older version
+}
+
+// ---- Catalog helpers ----
+
+const catalogId = (type: BrickType) => type.label;
+
+/**
+ * The app's part for a file catalog entry: the part with that id, or else the plain part
+ * with the same footprint, so files from other tools only need to get the shape right.
+ */
+const findCatalogPart = (entry: BuildFile["catalog"][number]): BrickType | undefined => {
+  const byId = BRICK_TYPES.find(t => catalogId(t) === entry.id);
+  if (byId) {
+    const sameShape = byId.sizeX === entry.sizeX && byId.sizeZ === entry.sizeZ && getBrickHeight(byId) === entry.height;
+    return sameShape ? byId : undefined;
+  }
+  return findBrickType(entry);
+};
+
+// ---- Serialization ----
+
+export const serializeBuild = (
+  bricks: BrickData[],
+  baseplates: Baseplate[],
+  metadata: Partial<BuildFileMetadata> & { name: string }
+): BuildFile => {
+  const now = new Date().toISOString();
+  const usedTypes = new Map<string, BrickType>();
+
+  const fileBricks: BuildFileBrick[] = bricks.map(b => {
+    const type = findBrickType(b);
+    if (!type) {
+      throw new BuildFileError(
+        `Brick ${b.id} (${b.sizeX || 1}x${b.sizeZ || 1}, ${getBrickHeight(b)} plates) is not in the part catalog`
+      );
+    }
+    usedTypes.set(catalogId(type), type);
+    return {
+      id: b.id,
+      type: catalogId(type),
+      x: b.x,
+      y: b.y,
+      z: b.z,
+      color: b.color,
+      sizeX: b.sizeX || 1,
+      sizeZ: b.sizeZ || 1,
+      rotation: getBrickRotation(b),
+    };
+  });
+
+  return {
+    format: BUILD_FILE_FORMAT,
+    version: BUILD_FILE_VERSION,
+    metadata: {
+      createdAt: now,
+      ...metadata,
+      updatedAt: now,
+      generator: "BrickGenius AI",
+    },
+    board: {
+      baseplates: baseplates.map(({ id, x, z, width, depth, color, studded }) => ({ id, x, z, width, depth, color, studded })),
+    },
+    palette: PALETTE.map(p => ({ name: p.name, value: p.value })),
+    catalog: Array.from(usedTypes.values()).map(t => ({
+      id: catalogId(t),
+      sizeX: t.sizeX,
+      sizeZ: t.sizeZ,
+      height: getBrickHeight(t),
+      ...(t.tile ? { tile: true } : {}),
+      ...(t.specialType ? { specialType: t.specialType } : {}),
+    })),
+    bricks: fileBricks,
+  };
+};
+
+export const exportBuildFile = (
+  bricks: BrickData[],
+  baseplates: Baseplate[],
+  metadata: Partial<BuildFileMetadata> & { name: string }
+): string => JSON.stringify(serializeBuild(bricks, baseplates, metadata), null, 2);
+
+// ---- Migrations ----
+
+type CatalogEntry = BuildFile["catalog"][number];
+
+// Version 0 is the unversioned legacy shape: a bare brick array or `{ bricks: [...] }` as
+// produced by the generator and early autosaves, with y counted in brick layers
+type LegacyBrick = Partial<Omit<BuildFileBrick, "type">> & Pick<BrickData, "specialType">;
+type LegacyBuildFile = LegacyBrick[] | { name?: string; bricks: LegacyBrick[] };
+
+// v1 had a square board `size` studs across, and catalog parts were all a brick tall
+interface BuildFileV1 extends Omit<BuildFile, "version" | "board" | "catalog"> {
+  version: 1;
+  board: { size: number };
+  catalog: Array<Omit<CatalogEntry, "height">>;
+}
+
+interface BuildFileV2 extends Omit<BuildFileV1, "version" | "catalog"> {
+  version: 2;
+  catalog: CatalogEntry[];
+}
+
+// The document each version reads as, and the version each migration produces. These are
+// the shapes a well-formed file has; validateBuildFile checks the result of the last step.
+interface BuildFileVersions {
+  0: LegacyBuildFile;
+  1: BuildFileV1;
+  2: BuildFileV2;
+  3: BuildFile;
+}
+interface NextVersion {
+  0: 1;
+  1: 2;
+  2: 3;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Each entry upgrades a document from version N to N + 1.
+ */
+const MIGRATIONS: { [V in keyof NextVersion]: (doc: BuildFileVersions[V]) => BuildFileVersions[NextVersion[V]] } = {
+  0: doc => {
+    const rawBricks = Array.isArray(doc) ? doc : doc?.bricks || [];
+    const name = Array.isArray(doc) ? undefined : doc?.name;
+    const now = new Date().toISOString();
+
+    return {
+      format: BUILD_FILE_FORMAT,
+      version: 1,
+      metadata: { name: name || "Imported Build", createdAt: now, updatedAt: now, generator: "BrickGenius AI" },
+      board: { size: 20 },
+      palette: PALETTE.map(p => ({ name: p.name, value: p.value })),
+      // Legacy files predate the catalog, so only the original bricks, axles and wheels appear in them
+      catalog: BRICK_TYPES.filter(t => ["Bricks", "Technic"].includes(t.category)).map(t => ({
+        id: catalogId(t), sizeX: t.sizeX, sizeZ: t.sizeZ, specialType: t.specialType,
+      })),
+      bricks: rawBricks.map(b => {
+        const sizeX = b?.sizeX ?? 1;
+        const sizeZ = b?.sizeZ ?? 1;
+        const type = findBrickType({ sizeX, sizeZ, specialType: b?.specialType });
+        return {
+          id: b?.id || uuidv4(),
+          // Unknown footprints keep a synthetic id so validation can report them
+          type: type ? catalogId(type) : `${sizeX}x${sizeZ}${b?.specialType ? ` ${b.specialType}` : ""}`,
+          x: b?.x,
+          y: b?.y,
+          z: b?.z,
+          color: b?.color,
+          sizeX,
+          sizeZ,
+          rotation: b?.rotation ?? 0,
+        };
+      }),
+    };
+  },
+  // v2 measures y in plates instead of brick layers and gives every catalog part a height
+  1: doc => ({
+    ...doc,
+    version: 2,
+    catalog: (Array.isArray(doc?.catalog) ? doc.catalog : []).map(entry => ({ ...entry, height: PLATES_PER_BRICK })),
+    bricks: (Array.isArray(doc?.bricks) ? doc.bricks : []).map(b => ({
+      ...b,
+      y: typeof b?.y === "number" ? b.y * PLATES_PER_BRICK : b?.y,
+    })),
+  }),
+  // v3 replaces the fixed square board with a list of baseplates; `size` studs either side
+  // of the origin becomes one plate covering the same studs
+  2: doc => {
+    const size = Number.isInteger(doc?.board?.size) && doc.board.size > 0 ? doc.board.size : 20;
+    const half = Math.floor(size / 2);
+    return {
+      ...doc,
+      version: 3,
+      board: {
+        baseplates: [{
+          id: uuidv4(), x: -half, z: -half, width: 2 * half + 1, depth: 2 * half + 1, color: DEFAULT_BASEPLATE_COLOR, studded: true,
+        }],
+      },
+    };
+  },
+};
+
+const detectVersion = (doc: unknown): number => {
+  if (Array.isArray(doc)) return 0;
+  if (isRecord(doc) && doc.format === undefined && Array.isArray(doc.bricks)) return 0;
+  if (!isRecord(doc) || doc.format !== BUILD_FILE_FORMAT) {
+    throw new BuildFileError("This is not a BrickGenius build file.");
+  }
+  if (typeof doc.version !== "number" || !Number.isInteger(doc.version) || doc.version < 1) {
+    throw new BuildFileError(`Unsupported build file version "${doc.version}".`);
+  }
+  return doc.version;
+};
+
+export const migrateBuildFile = (doc: unknown): { file: BuildFile; migratedFrom?: number } => {
+  const originalVersion = detectVersion(doc);
+  if (originalVersion > BUILD_FILE_VERSION) {
+    throw new BuildFileError(
+      `This file was saved by a newer version of BrickGenius (format v${originalVersion}). Please update the app.`
+    );
+  }
+
+  // detectVersion vouches for the starting shape, and each step's output is typed as the
+  // next step's input
+  let current = doc;
+  for (let v = originalVersion; v < BUILD_FILE_VERSION; v++) {
+    const migrate = MIGRATIONS[v as keyof NextVersion] as ((doc: unknown) => unknown) | undefined;
+    if (!migrate) throw new BuildFileError(`No migration available from format v${v}.`);
+    current = migrate(current);
+  }
+
+  return {
+    file: current as BuildFile,
+    migratedFrom: originalVersion < BUILD_FILE_VERSION ? originalVersion : undefined,
+  };
+};
+
+// ---- Validation ----
+
+const isHexColor = (value: unknown) => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+/**
+ * Checks a (migrated) build file for problems that would corrupt the board.
+ * Returns a list of human-readable issues; empty means the file is valid.
+ */
+export const validateBuildFile = (file: BuildFile): string[] => {
+  const issues: string[] = [];
+
+  if (!Array.isArray(file.bricks)) return ["Missing brick list."];
+  if (!Array.isArray(file.catalog)) return ["Missing part catalog."];
+  if (!Array.isArray(file.board?.baseplates) || file.board.baseplates.length === 0) return ["Missing baseplates."];
+
+  // Every check below reads fields off the entries, so a hand-edited null stops here
+  const lists: Array<[string, unknown[]]> = [["Baseplate", file.board.baseplates], ["Part", file.catalog], ["Brick", file.bricks]];
+  lists.forEach(([label, entries]) => entries.forEach((entry, index) => {
+    if (!isRecord(entry)) issues.push(`${label} #${index + 1} is not an object.`);
+  }));
+  if (issues.length > 0) return issues;
+
+  file.board.baseplates.forEach((plate, index) => {
+    const label = `Baseplate #${index + 1}`;
+    if (![plate.x, plate.z].every(Number.isInteger)) {
+      issues.push(`${label} has non-integer coordinates.`);
+    }
+    const sizes = [plate.width, plate.depth];
+    if (!sizes.every(size => Number.isInteger(size) && size >= 1 && size <= MAX_BASEPLATE_SIZE)) {
+      issues.push(`${label} has an invalid size ${plate.width}x${plate.depth} (1 to ${MAX_BASEPLATE_SIZE} studs each way).`);
+    }
+    if (!isHexColor(plate.color)) {
+      issues.push(`${label} has an invalid color "${plate.color}".`);
+    }
+    if (typeof plate.studded !== "boolean") {
+      issues.push(`${label} needs "studded" to be true or false.`);
+    }
+  });
+
+  const catalog = new Map(file.catalog.map(entry => [entry.id, entry]));
+
+  file.catalog.forEach(entry => {
+    if (!Number.isInteger(entry.height) || entry.height < 1) {
+      issues.push(`Part "${entry.id}" has an invalid height ${entry.height}.`);
+    } else if (entry.specialType !== undefined && !SPECIAL_TYPES.includes(entry.specialType)) {
+      issues.push(`Part "${entry.id}" has unknown specialType "${entry.specialType}".`);
+    } else if (!findCatalogPart(entry)) {
+      issues.push(`Part "${entry.id}" (${entry.sizeX}x${entry.sizeZ}, ${entry.height} plates) is not in this app's catalog.`);
+    }
+  });
+
+  file.bricks.forEach((b, index) => {
+    const label = `Brick #${index + 1}`;
+    if (![b.x, b.y, b.z].every(Number.isInteger)) {
+      issues.push(`${label} has non-integer coordinates.`);
+    }
+    if (b.y < 0) {
+      issues.push(`${label} is below the ground (y=${b.y}).`);
+    }
+    if (!isHexColor(b.color)) {
+      issues.push(`${label} has an invalid color "${b.color}".`);
+    }
+    if (![0, 90, 180, 270].includes(b.rotation)) {
+      issues.push(`${label} has unsupported rotation ${b.rotation}.`);
+    }
+    if (!Number.isInteger(b.sizeX) || !Number.isInteger(b.sizeZ) || b.sizeX < 1 || b.sizeZ < 1) {
+      issues.push(`${label} has an invalid size ${b.sizeX}x${b.sizeZ}.`);
+      return;
+    }
+
+    const type = catalog.get(b.type);
+    if (!type) {
+      issues.push(`${label} references unknown part "${b.type}".`);
+      return;
+    }
+    const expected = b.rotation % 180 !== 0 ? [type.sizeZ, type.sizeX] : [type.sizeX, type.sizeZ];
+    if (b.sizeX !== expected[0] || b.sizeZ !== expected[1]) {
+      issues.push(`${label} is ${b.sizeX}x${b.sizeZ} but part "${b.type}" at ${b.rotation}° is ${expected[0]}x${expected[1]}.`);
+    }
+  });
+
+  // Overlaps use the same per-cell rules as building, so a plate may sit on top of another
+  // part (or under an arch) but not inside it. Saved builds may be bigger than the board.
+  const placed: BrickData[] = [];
+  const indexOf = new Map<BrickData, number>();
+  file.bricks.forEach((b, index) => {
+    const entry = catalog.get(b.type);
+    const type = entry && findCatalogPart(entry);
+    if (!type || ![b.x, b.y, b.z].every(Number.isInteger) || b.y < 0) return;
+    const brick: BrickData = { id: b.id, x: b.x, y: b.y, z: b.z, color: b.color, ...brickShapeFor(type, b.rotation) };
+    placed.push(brick);
+    indexOf.set(brick, index);
+  });
+  checkPlacement(placed, createSpatialIndex()).forEach(issue => {
+    const [x, y, z] = issue.cell!;
+    issues.push(`Brick #${indexOf.get(issue.brick)! + 1} overlaps brick #${indexOf.get(issue.other!)! + 1} at (${x}, ${y}, ${z}).`);
+  });
+
+  return issues;
+};
+
+// ---- Parsing ----
+
+export const parseBuildFile = (text: string): ParsedBuild => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new BuildFileError("The file is not valid JSON.");
+  }
+
+  const { file, migratedFrom } = migrateBuildFile(doc);
+  const issues = validateBuildFile(file);
+  if (issues.length > 0) {
+    throw new BuildFileError(`The build file has ${issues.length} problem(s).`, issues);
+  }
+
+  const catalog = new Map(file.catalog.map(entry => [entry.id, entry]));
+  const seenIds = new Set<string>();
+
+  const bricks: BrickData[] = file.bricks.map(b => {
+    // Ids must be unique on the board; regenerate clashes from hand-edited files
+    const id = b.id && !seenIds.has(b.id) ? b.id : uuidv4();
+    seenIds.add(id);
+    const type = findCatalogPart(catalog.get(b.type)!)!;
+    return {
+      id,
+      x: b.x,
+      y: b.y,
+      z: b.z,
+      color: b.color,
+      ...brickShapeFor(type, b.rotation),
+    };
+  });
+
+  // Baseplate ids only need to be unique within the project
+  const seenPlates = new Set<string>();
+  const baseplates = file.board.baseplates.map(({ id, x, z, width, depth, color, studded }) => {
+    const plate = createBaseplate({ x, z, width, depth, color, studded });
+    if (typeof id === "string" && id && !seenPlates.has(id)) plate.id = id;
+    seenPlates.add(plate.id);
+    return plate;
+  });
+
+  return {
+    bricks: bricks.sort((a, b) => a.y - b.y),
+    metadata: file.metadata,
+    baseplates,
+    palette: file.palette,
+    migratedFrom,
+  };
+};
@@ -0,0 +1,200 @@
+import { Baseplate, BuildShapeSettings, Voxel } from "../types";
+
+/**
+ * Size/style limits for generated builds. They go into the prompt and response schema,
+ * and enforceBuildShape applies them afterwards because models treat them as suggestions.
+ */
+
+export const DEFAULT_BUILD_SHAPE: BuildShapeSettings = {
+  targetVoxels: 100,
+  maxWidth: 17,
+  maxDepth: 17,
+  maxHeight: 20,
+  fill: "solid",
+  symmetric: false,
+};
+
+// Allow this much over the target before the model gets scaled down
+const TARGET_TOLERANCE = 1.5;
+
+const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/**
+ * The limits for a new build on `plate`: no wider or deeper than the plate itself.
+ */
+export const fitShapeToBaseplate = (shape: BuildShapeSettings, plate: Baseplate): BuildShapeSettings => ({
+  ...shape,
+  maxWidth: Math.min(shape.maxWidth, plate.width),
+  maxDepth: Math.min(shape.maxDepth, plate.depth),
+});
+
+/**
+ * Inclusive coordinate ranges for a build of the configured size, centred on the origin.
+ */
+export const getShapeBounds = (shape: BuildShapeSettings) => {
+  const width = shape.maxWidth;
+  const depth = shape.maxDepth;
+  return {
+    minX: -Math.floor(width / 2),
+    maxX: Math.ceil(width / 2) - 1,
+    minZ: -Math.floor(depth / 2),
+    maxZ: Math.ceil(depth / 2) - 1,
+    maxY: shape.maxHeight - 1,
+  };
+};
+
+const extent = (voxels: Voxel[]) => {
+  const xs = voxels.map(v => v.x), ys = voxels.map(v => v.y), zs = voxels.map(v => v.z);
+  return {
+    minX: Math.min(...xs), maxX: Math.max(...xs),
+    minY: Math.min(...ys), maxY: Math.max(...ys),
+    minZ: Math.min(...zs), maxZ: Math.max(...zs),
+  };
+};
+
+/**
+ * Shrinks the model by `factor` (> 1). Each output cell takes the most common colour
+ * of the source voxels that fall into it, so thin features survive.
+ */
+const downscale = (voxels: Voxel[], factor: number): Voxel[] => {
+  const e = extent(voxels);
+  const cells = new Map<string, { x: number, y: number, z: number, colors: Map<string, number> }>();
+  voxels.forEach(v => {
+    const x = Math.floor((v.x - e.minX) / factor);
+    const y = Math.floor((v.y - e.minY) / factor);
+    const z = Math.floor((v.z - e.minZ) / factor);
+    const k = key(x, y, z);
+    if (!cells.has(k)) cells.set(k, { x, y, z, colors: new Map() });
+    const colors = cells.get(k)!.colors;
+    colors.set(v.color, (colors.get(v.color) || 0) + 1);
+  });
+
+  const scaled = Array.from(cells.values()).map(c => ({
+    x: c.x, y: c.y, z: c.z,
+    color: Array.from(c.colors).sort((a, b) => b[1] - a[1])[0][0],
+  }));
+  // Re-centre on x/z; y already starts at 0
+  const s = extent(scaled);
+  const dx = -Math.round((s.minX + s.maxX) / 2);
+  const dz = -Math.round((s.minZ + s.maxZ) / 2);
+  return scaled.map(v => ({ ...v, x: v.x + dx, z: v.z + dz }));
+};
+
+/**
+ * Rebuilds the model as a mirror image of whichever half (left or right) has more voxels.
+ */
+const mirrorX = (voxels: Voxel[]): Voxel[] => {
+  const e = extent(voxels);
+  const axis2 = e.minX + e.maxX; // twice the mirror axis, so mirrored x stays an integer
+  const left = voxels.filter(v => v.x * 2 < axis2);
+  const right = voxels.filter(v => v.x * 2 > axis2);
+  const center = voxels.filter(v => v.x * 2 === axis2);
+  const master = left.length >= right.length ? left : right;
+  return [...center, ...master, ...master.map(v => ({ ...v, x: axis2 - v.x }))];
+};
+
+/**
+ * Fills cavities that are closed off within a layer, i.e. not reachable from outside the bounding box.
+ */
+const fillInterior = (voxels: Voxel[]): Voxel[] => {
+  const e = extent(voxels);
+  const occupied = new Map(voxels.map(v => [key(v.x, v.y, v.z), v]));
+  const filled = [...voxels];
+
+  for (let y = e.minY; y <= e.maxY; y++) {
+    const outside = new Set<string>();
+    const queue: Array<[number, number]> = [];
+    for (let x = e.minX - 1; x <= e.maxX + 1; x++) queue.push([x, e.minZ - 1], [x, e.maxZ + 1]);
+    for (let z = e.minZ; z <= e.maxZ; z++) queue.push([e.minX - 1, z], [e.maxX + 1, z]);
+    queue.forEach(([x, z]) => outside.add(`${x},${z}`));
+
+    for (let head = 0; head < queue.length; head++) {
+      const [x, z] = queue[head];
+      [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dz]) => {
+        const nx = x + dx, nz = z + dz;
+        if (nx < e.minX || nx > e.maxX || nz < e.minZ || nz > e.maxZ) return;
+        const k = `${nx},${nz}`;
+        if (outside.has(k) || occupied.has(key(nx, y, nz))) return;
+        outside.add(k);
+        queue.push([nx, nz]);
+      });
+    }
+
+    for (let x = e.minX; x <= e.maxX; x++) {
+      for (let z = e.minZ; z <= e.maxZ; z++) {
+        if (outside.has(`${x},${z}`) || occupied.has(key(x, y, z))) continue;
+        // Take the colour of the cell below, or of the nearest wall to the left
+        let source = occupied.get(key(x, y - 1, z));
+        for (let wx = x - 1; !source && wx >= e.minX; wx--) source = occupied.get(key(wx, y, z));
+        filled.push({ x, y, z, color: source ? source.color : voxels[0].color });
+      }
+    }
+  }
+  return filled;
+};
+
+/**
+ * Removes voxels with all six neighbours occupied; nothing can see them.
+ */
+const hollowOut = (voxels: Voxel[]): Voxel[] => {
+  const occupied = new Set(voxels.map(v => key(v.x, v.y, v.z)));
+  return voxels.filter(v =>
+    v.y === 0 ||
+    !occupied.has(key(v.x + 1, v.y, v.z)) || !occupied.has(key(v.x - 1, v.y, v.z)) ||
+    !occupied.has(key(v.x, v.y + 1, v.z)) || !occupied.has(key(v.x, v.y - 1, v.z)) ||
+    !occupied.has(key(v.x, v.y, v.z + 1)) || !occupied.has(key(v.x, v.y, v.z - 1))
+  );
+};
+
+/**
+ * Applies the shape settings to a repaired, grounded model. Returns the new voxels and
+ * a line per change for the generation summary.
+ */
+export const enforceBuildShape = (voxels: Voxel[], shape: BuildShapeSettings): { voxels: Voxel[], notes: string[] } => {
+  if (voxels.length === 0) return { voxels, notes: [] };
+  const notes: string[] = [];
+  let result = voxels;
+
+  if (shape.fill === "solid") {
+    const filled = fillInterior(result);
+    if (filled.length > result.length) notes.push(`Filled ${filled.length - result.length} hollow cell(s)`);
+    result = filled;
+  }
+
+  if (shape.symmetric) {
+    const mirrored = mirrorX(result);
+    const before = new Set(result.map(v => `${key(v.x, v.y, v.z)},${v.color}`));
+    if (mirrored.length !== result.length || mirrored.some(v => !before.has(`${key(v.x, v.y, v.z)},${v.color}`))) {
+      notes.push("Mirrored the model to make it symmetric");
+    }
+    result = mirrored;
+  }
+
+  // Scale down until the model fits the size limits and the brick budget
+  const e = extent(result);
+  const bounds = getShapeBounds(shape);
+  let factor = Math.max(
+    1,
+    (e.maxX - e.minX + 1) / (bounds.maxX - bounds.minX + 1),
+    (e.maxZ - e.minZ + 1) / (bounds.maxZ - bounds.minZ + 1),
+    (e.maxY - e.minY + 1) / (bounds.maxY + 1)
+  );
+  let scaled = factor > 1 ? downscale(result, factor) : result;
+  const budget = shape.targetVoxels * TARGET_TOLERANCE;
+  for (let i = 0; i < 20 && scaled.length > budget; i++) {
+    factor *= 1.1;
+    scaled = downscale(result, factor);
+  }
+  if (factor > 1) {
+    notes.push(`Scaled the model down to ${Math.round(100 / factor)}% to fit the size limits`);
+    result = scaled;
+  }
+
+  if (shape.fill === "hollow") {
+    const hollow = hollowOut(result);
+    if (hollow.length < result.length) notes.push(`Hollowed out ${result.length - hollow.length} hidden cell(s)`);
+    result = hollow;
+  }
+
+  return { voxels: result, notes };
+};
@@ -0,0 +1,111 @@
+import { ColorPaletteId, QuantizeSettings, Voxel } from "../types";
+import { PALETTE } from "../constants";
+import { BRICKLINK_COLORS } from "./partsList";
+import { ciede2000, hexToRgb, rgbToLab, Lab } from "./colorUtils";
+
+/**
+ * Snaps generated colours to real brick colours before optimizeBricks, so near-identical
+ * shades end up as one colour (and merge into bigger bricks) instead of many 1x1s.
+ */
+
+export const COLOR_PALETTES: Array<{ id: ColorPaletteId, label: string, colors: Array<{ name: string, value: string }> }> = [
+  { id: "basic", label: "Basic (8 colours)", colors: PALETTE },
+  { id: "bricklink", label: "Extended brick colours", colors: BRICKLINK_COLORS },
+];
+
+export const DEFAULT_QUANTIZE_SETTINGS: QuantizeSettings = { paletteId: "bricklink", maxColors: 8, dither: false };
+
+// 4x4 Bayer matrix, normalised to (0, 1)
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+].map(row => row.map(v => (v + 0.5) / 16));
+
+const toLab = (hex: string): Lab | null => {
+  const rgb = hexToRgb(hex);
+  return rgb ? rgbToLab(rgb) : null;
+};
+
+/**
+ * Picks up to `maxColors` palette entries that best cover the source colours, weighted by
+ * how many voxels use each. Greedy: repeatedly add whichever colour lowers total error most.
+ */
+const choosePaletteSubset = (sources: Array<{ lab: Lab, count: number }>, palette: Lab[], maxColors: number): number[] => {
+  const chosen: number[] = [];
+  const bestDistance = sources.map(() => Infinity);
+  const distances = sources.map(s => palette.map(p => ciede2000(s.lab, p)));
+
+  while (chosen.length < Math.min(maxColors, palette.length)) {
+    let bestIndex = -1;
+    let bestError = Infinity;
+    palette.forEach((_, i) => {
+      if (chosen.includes(i)) return;
+      const error = sources.reduce((sum, s, j) => sum + s.count * Math.min(bestDistance[j], distances[j][i]), 0);
+      if (error < bestError) {
+        bestError = error;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex < 0) break;
+    chosen.push(bestIndex);
+    sources.forEach((_, j) => { bestDistance[j] = Math.min(bestDistance[j], distances[j][bestIndex]); });
+    // Every source colour already has an exact match
+    if (bestError === 0) break;
+  }
+  return chosen;
+};
+
+/**
+ * `keepColors` are passed through untouched, e.g. the colours already on the board when
+ * editing a build, so an edit doesn't repaint bricks it didn't mean to change.
+ */
+export const quantizeVoxels = (
+  voxels: Voxel[],
+  settings: QuantizeSettings,
+  keepColors: string[] = []
+): { voxels: Voxel[], sourceColorCount: number, colorCount: number } => {
+  const palette = (COLOR_PALETTES.find(p => p.id === settings.paletteId) || COLOR_PALETTES[0]).colors;
+  const paletteLab = palette.map(c => toLab(c.value)!);
+  const kept = new Set(keepColors.map(c => c.toLowerCase()));
+
+  const counts = new Map<string, number>();
+  voxels.forEach(v => {
+    if (!kept.has(v.color.toLowerCase())) counts.set(v.color, (counts.get(v.color) || 0) + 1);
+  });
+  const sources = Array.from(counts, ([hex, count]) => ({ hex, count, lab: toLab(hex) }))
+    .filter((s): s is { hex: string, count: number, lab: Lab } => !!s.lab);
+
+  const allowed = choosePaletteSubset(sources, paletteLab, Math.max(1, settings.maxColors));
+
+  // Nearest and second-nearest allowed colour per source, for dithering between the two
+  const matches = new Map(sources.map(s => {
+    const ranked = allowed
+      .map(i => ({ i, distance: ciede2000(s.lab, paletteLab[i]) }))
+      .sort((a, b) => a.distance - b.distance);
+    return [s.hex, ranked] as const;
+  }));
+
+  const used = new Set<string>();
+  const quantized = voxels.map(v => {
+    const ranked = matches.get(v.color);
+    if (!ranked || ranked.length === 0) return v;
+    const [first, second] = ranked;
+    let index = first.i;
+    if (settings.dither && second && first.distance > 0) {
+      // 0 when the source sits on the nearest colour, 0.5 when it's halfway between the two
+      const mix = first.distance / (first.distance + second.distance);
+      const threshold = BAYER_4[((v.y % 4) + 4) % 4][(((v.x + v.z) % 4) + 4) % 4];
+      if (mix > threshold) index = second.i;
+    }
+    used.add(palette[index].value);
+    return { ...v, color: palette[index].value };
+  });
+
+  return {
+    voxels: quantized,
+    sourceColorCount: counts.size,
+    colorCount: used.size,
+  };
+};
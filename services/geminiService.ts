@@ -1,5 +1,10 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedBuild } from "../types";
+import { GoogleGenAI, Part } from "@google/genai";
+import { GeneratedBuild, GenerationCallOptions, GenerationProvider, GenerationRequest } from "../types";
+import { buildGenerationPrompt, buildResponseSchema, describeView } from "./generationPrompt";
+import { createBrickStreamParser } from "./brickStream";
+import { GenerationError } from "./generationErrors";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
 
 // Initialize Gemini client inside the function to ensure we pick up the latest process.env.API_KEY
 
@@ -20,68 +25,56 @@ const fileToGenerativePart = async (file: File): Promise<string> => {
   });
 };
 
-export const generateLegoFromImage = async (imageFile: File): Promise<GeneratedBuild> => {
+export const generateLegoBuild = async (
+  request: GenerationRequest,
+  model: string = DEFAULT_GEMINI_MODEL,
+  { signal, onPartial }: GenerationCallOptions = {}
+): Promise<GeneratedBuild> => {
   // Create a new instance right before the call to ensure the API key is current
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   try {
-    const base64Image = await fileToGenerativePart(imageFile);
-
-    const model = "gemini-2.5-flash";
-    
-    const prompt = `
-      Analyze this image and create a 3D voxel/LEGO representation of the main subject.
-      Return a JSON object containing a list of "bricks".
-      
-      Rules:
-      1. The coordinate system is x, y, z. 
-      2. 'y' is the vertical axis. The bottom-most layer must be y=0.
-      3. 'x' and 'z' are horizontal axes. Keep values generally between -8 and 8 to fit on a baseplate.
-      4. Use standard basic colors (hex codes) that closely match the image.
-      5. Do not create floating bricks; every brick must be supported by another brick below it or the ground (y=0).
-      6. Simplify the shape to be recognizable but constructed of roughly 50-150 1x1x1 blocks.
-      7. The output must conform to the JSON schema provided.
-    `;
+    const parts: Part[] = [
+      { text: buildGenerationPrompt(request) },
+    ];
+    if (request.views && request.views.length > 0) {
+      for (const [index, view] of request.views.entries()) {
+        parts.push({ text: describeView(view, index) });
+        parts.push({ inlineData: { mimeType: view.file.type, data: await fileToGenerativePart(view.file) } });
+      }
+    } else if (request.image) {
+      parts.push({
+        inlineData: {
+          mimeType: request.image.type,
+          data: await fileToGenerativePart(request.image),
+        },
+      });
+    }
 
-    const response = await ai.models.generateContent({
+    // Streamed so bricks can be shown while the rest of the answer is still arriving
+    const stream = await ai.models.generateContentStream({
       model: model,
-      contents: {
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              mimeType: imageFile.type,
-              data: base64Image,
-            },
-          },
-        ],
-      },
+      contents: { parts },
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            bricks: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  x: { type: Type.INTEGER },
-                  y: { type: Type.INTEGER },
-                  z: { type: Type.INTEGER },
-                  color: { type: Type.STRING },
-                },
-                required: ["x", "y", "z", "color"],
-              },
-            },
-          },
-          required: ["bricks"],
-        },
+        responseJsonSchema: buildResponseSchema(request),
+        abortSignal: signal,
       },
     });
 
-    const text = response.text;
-    if (!text) throw new Error("No response text from Gemini");
+    const parser = createBrickStreamParser();
+    const partial: unknown[] = [];
+    let text = "";
+    for await (const chunk of stream) {
+      const piece = chunk.text || "";
+      text += piece;
+      const found = parser.push(piece);
+      if (found.length > 0 && onPartial) {
+        partial.push(...found);
+        onPartial([...partial]);
+      }
+    }
+    if (!text) throw new GenerationError("empty", "No response text from Gemini");
 
     const data = JSON.parse(text) as GeneratedBuild;
     return data;
@@ -90,4 +83,13 @@ export const generateLegoFromImage = async (imageFile: File): Promise<GeneratedB
     console.error("Gemini API Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  description: "Cloud generation with Gemini. Needs a Gemini API key.",
+  requiresApiKey: true,
+  supportsTextPrompt: true,
+  generate: (request, settings, options) => generateLegoBuild(request, settings.gemini.model || DEFAULT_GEMINI_MODEL, options),
+};
@@ -0,0 +1,95 @@
+import { GenerationErrorKind } from "../types";
+
+/**
+ * Error categories for generation, so the UI can say what went wrong and whether
+ * retrying (automatically or by the user) is worth it.
+ */
+
+const RETRYABLE: Record<GenerationErrorKind, boolean> = {
+  auth: false,
+  quota: true,
+  network: true,
+  timeout: true,
+  cancelled: false,
+  malformed: true,
+  empty: true,
+  unknown: false,
+};
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE[this.kind];
+  }
+}
+
+/**
+ * Maps an HTTP status from a provider to a category.
+ */
+export const errorFromStatus = (status: number, detail: string): GenerationError => {
+  const message = detail ? `${status}: ${detail.slice(0, 200)}` : `HTTP ${status}`;
+  if (status === 401 || status === 403) return new GenerationError("auth", message, status);
+  if (status === 429) return new GenerationError("quota", message, status);
+  if (status === 408 || status >= 500) return new GenerationError("network", message, status);
+  return new GenerationError("unknown", message, status);
+};
+
+/**
+ * Turns anything a provider threw into a GenerationError.
+ */
+export const classifyGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new GenerationError("cancelled", "Generation was cancelled");
+  }
+  if (error instanceof SyntaxError) {
+    return new GenerationError("malformed", `The model returned invalid JSON (${message})`);
+  }
+
+  // SDK errors (e.g. the Gemini client's ApiError) carry the HTTP status
+  const status = (error as { status?: unknown })?.status;
+  if (/api key|permission denied|unauthenticated/i.test(message)) {
+    return new GenerationError("auth", message, typeof status === "number" ? status : undefined);
+  }
+  if (typeof status === "number") return errorFromStatus(status, message);
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) return new GenerationError("quota", message);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new GenerationError("network", message);
+  }
+  return new GenerationError("unknown", message);
+};
+
+/**
+ * Short title and advice for showing an error to the user.
+ */
+export const describeGenerationError = (error: GenerationError): { title: string, advice: string } => {
+  switch (error.kind) {
+    case "auth":
+      return { title: "API key rejected", advice: "Check the API key for this provider in the settings." };
+    case "quota":
+      return { title: "Quota or rate limit reached", advice: "Wait a minute and try again, or switch provider in the settings." };
+    case "network":
+      return { title: "Couldn't reach the model server", advice: "Check your connection and the server URL, then try again." };
+    case "timeout":
+      return { title: "Generation timed out", advice: "Try a smaller target size or raise the timeout in the settings." };
+    case "cancelled":
+      return { title: "Generation cancelled", advice: "" };
+    case "malformed":
+      return { title: "The model's answer couldn't be read", advice: "Try again; a simpler image or description helps." };
+    case "empty":
+      return { title: "Nothing usable came back", advice: "Try a clearer image or a more specific description." };
+    default:
+      return { title: "Generation failed", advice: "Try again, or check the generation settings." };
+  }
+};
@@ -0,0 +1,139 @@
+import { BuildShapeSettings, GenerationRequest, ImageView, LabeledImage } from "../types";
+import { getShapeBounds } from "./buildShape";
+
+/**
+ * Prompt and response schema shared by every model-backed generation provider,
+ * so they all return the same GeneratedBuild shape.
+ */
+
+export const VIEW_LABELS: Record<ImageView, string> = {
+  front: "Front",
+  side: "Side (right)",
+  top: "Top",
+  back: "Back",
+};
+
+// How each view maps onto the build axes, so the model can line the photos up
+const VIEW_DESCRIPTIONS: Record<ImageView, string> = {
+  front: "seen from the front (+z); image right is +x, image up is +y",
+  side: "seen from the right-hand side (+x); image right is -z, so the front is on the left",
+  top: "seen from above (+y); image right is +x, the front (+z) is at the bottom of the image",
+  back: "seen from behind (-z); image right is -x",
+};
+
+/**
+ * Caption sent with each view image, in the order the images are attached.
+ */
+export const describeView = (view: LabeledImage, index: number) =>
+  `Image ${index + 1}: ${VIEW_LABELS[view.view]} view, ${VIEW_DESCRIPTIONS[view.view]}.`;
+
+const buildRules = (isEdit: boolean, shape?: BuildShapeSettings) => {
+  const bounds = shape && getShapeBounds(shape);
+  const footprint = bounds && !isEdit
+    ? `Keep x between ${bounds.minX} and ${bounds.maxX}, z between ${bounds.minZ} and ${bounds.maxZ}, and y at most ${bounds.maxY}.`
+    : "Keep values generally between -8 and 8 to fit on a baseplate.";
+  const size = isEdit
+    ? "Only add or remove as many 1x1x1 blocks as the change needs."
+    : `Simplify the shape to be recognizable but constructed of roughly ${shape ? shape.targetVoxels : "50-150"} 1x1x1 blocks.`;
+
+  const style: string[] = [];
+  if (shape && !isEdit) {
+    style.push(shape.fill === "hollow"
+      ? "Build a hollow shell one block thick; leave the inside empty."
+      : "Build it solid; fill the inside completely.");
+    if (shape.symmetric) style.push("Make the model mirror-symmetric left to right (across x = 0).");
+  }
+
+  return `
+      Rules:
+      1. The coordinate system is x, y, z.
+      2. 'y' is the vertical axis. The bottom-most layer must be y=0.
+      3. 'x' and 'z' are horizontal axes. ${footprint}
+      4. Use standard basic colors (hex codes) that closely match the subject.
+      5. Do not create floating bricks; every brick must be supported by another brick below it or the ground (y=0).
+      6. ${size}
+      7. The output must conform to the JSON schema provided.
+      8. A layer (y step) is 1.2 times as tall as a stud (x or z step) is wide; keep real-world proportions.
+      9. A block with nothing on top can be thinner: "plates": 1 or 2 fills that many thirds of its layer from the bottom, and "tile": true gives it a smooth top. Use them for flat roofs, thin details and smooth surfaces; leave both out for a whole block.${style.map((rule, i) => `
+      ${i + 10}. ${rule}`).join("")}
+    `;
+};
+
+/**
+ * Builds the instruction text for an image, a text description, or both.
+ */
+export const buildGenerationPrompt = (request: GenerationRequest): string => {
+  const description = request.prompt?.trim();
+
+  let task: string;
+  if (request.currentBuild) {
+    if (!description) throw new Error("Describe the change to make");
+    task = `
+      Here is an existing 3D voxel/LEGO model as JSON:
+      ${JSON.stringify({ bricks: request.currentBuild })}${request.specialParts?.length ? `
+      Some of those voxels are special parts rather than plain bricks:
+      ${JSON.stringify(request.specialParts)}
+      Keep all of a part's voxels to keep it (a new color repaints it) and leave them all out to remove it.` : ""}
+      Change it as follows: "${description}".${request.image ? `
+      The attached image is what the model was originally built from.` : ""}
+      Keep every brick that the change doesn't affect at exactly the same position and color,
+      and return the complete updated model, not just the changed bricks.`;
+  } else if (request.views && request.views.length > 0) {
+    task = `
+      The attached images show the same object from different sides:
+      ${request.views.map(describeView).join("\n      ")}
+      Create one 3D voxel/LEGO model of the object that matches every view.${description ? `
+      Description: "${description}".` : ""}`;
+  } else if (request.image && description) {
+    task = `
+      Create a 3D voxel/LEGO representation of: "${description}".
+      Use the attached image as a visual reference for shape and colors, but follow the description where they differ.`;
+  } else if (request.image) {
+    task = `
+      Analyze this image and create a 3D voxel/LEGO representation of the main subject.`;
+  } else if (description) {
+    task = `
+      Design a 3D voxel/LEGO model of: "${description}".
+      Honour any sizes given in studs; otherwise pick a size that reads well from every side.`;
+  } else {
+    throw new Error("Describe what to build or add a reference image");
+  }
+
+  return `${task}
+      Return a JSON object containing a list of "bricks".
+${buildRules(!!request.currentBuild, request.shape)}`;
+};
+
+/**
+ * JSON Schema for the model response: a list of 1x1x1 voxels, optionally thin or smooth-topped.
+ * New builds get their coordinate ranges from the shape settings; edits keep whatever the
+ * build already spans.
+ */
+export const buildResponseSchema = (request?: GenerationRequest) => {
+  const bounds = request?.shape && !request.currentBuild ? getShapeBounds(request.shape) : null;
+  const range = (minimum?: number, maximum?: number) =>
+    bounds ? { type: "integer", minimum, maximum } : { type: "integer" };
+
+  return {
+    type: "object",
+    properties: {
+      bricks: {
+        type: "array",
+        ...(bounds && request?.shape ? { maxItems: request.shape.targetVoxels * 2 } : {}),
+        items: {
+          type: "object",
+          properties: {
+            x: range(bounds?.minX, bounds?.maxX),
+            y: range(0, bounds?.maxY),
+            z: range(bounds?.minZ, bounds?.maxZ),
+            color: { type: "string" },
+            plates: { type: "integer", minimum: 1, maximum: 2 },
+            tile: { type: "boolean" },
+          },
+          required: ["x", "y", "z", "color"],
+        },
+      },
+    },
+    required: ["bricks"],
+  };
+};
@@ -0,0 +1,235 @@
+import { Baseplate, BrickColor, BuildShapeSettings, FloatingVoxelStrategy, RepairReport, Voxel } from "../types";
+import { PALETTE, PLATES_PER_BRICK } from "../constants";
+import { baseplateCenter, isOnBaseplates } from "./baseplates";
+import { enforceBuildShape } from "./buildShape";
+import { GenerationError } from "./generationErrors";
+
+/**
+ * Clean-up pass between a provider's raw answer and optimizeBricks. Models don't
+ * reliably follow the prompt rules, so everything the prompt asks for is enforced here.
+ */
+
+// Short form needs the # so words like "bad" aren't read as colours
+const HEX_COLOR = /^(?:#([0-9a-f]{3})|#?([0-9a-f]{6}))$/i;
+
+const voxelKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/**
+ * Accepts #rgb, #rrggbb (# optional) and palette names like "red".
+ */
+const normalizeColor = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  const hex = HEX_COLOR.exec(trimmed);
+  if (hex) {
+    const digits = hex[1] ? hex[1].split("").map(c => c + c).join("") : hex[2];
+    return `#${digits.toUpperCase()}`;
+  }
+  const named = PALETTE.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+  return named ? named.value : null;
+};
+
+/**
+ * Voxels that can't reach the ground through face-adjacent neighbours, grouped into connected pieces.
+ * Sideways contact counts because optimizeBricks can merge neighbours in a layer into one brick.
+ */
+const findFloatingGroups = (voxels: Voxel[]): Voxel[][] => {
+  const byKey = new Map(voxels.map(v => [voxelKey(v.x, v.y, v.z), v]));
+  const seen = new Set<string>();
+  const groups: Voxel[][] = [];
+  const neighbours = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+  voxels.forEach(start => {
+    const startKey = voxelKey(start.x, start.y, start.z);
+    if (seen.has(startKey)) return;
+
+    const group: Voxel[] = [];
+    let grounded = false;
+    const queue = [start];
+    seen.add(startKey);
+    while (queue.length > 0) {
+      const v = queue.pop()!;
+      group.push(v);
+      if (v.y === 0) grounded = true;
+      neighbours.forEach(([dx, dy, dz]) => {
+        const key = voxelKey(v.x + dx, v.y + dy, v.z + dz);
+        const next = byKey.get(key);
+        if (next && !seen.has(key)) {
+          seen.add(key);
+          queue.push(next);
+        }
+      });
+    }
+    if (!grounded) groups.push(group);
+  });
+
+  return groups;
+};
+
+/**
+ * Drops a column from the group's lowest voxel to whatever is below it (or the ground).
+ */
+const buildSupportColumn = (group: Voxel[], occupied: Set<string>): Voxel[] => {
+  const lowest = group.reduce((a, b) => (b.y < a.y || (b.y === a.y && (b.x * b.x + b.z * b.z) < (a.x * a.x + a.z * a.z)) ? b : a));
+  const column: Voxel[] = [];
+  for (let y = lowest.y - 1; y >= 0 && !occupied.has(voxelKey(lowest.x, y, lowest.z)); y--) {
+    column.push({ x: lowest.x, y, z: lowest.z, color: lowest.color });
+  }
+  return column;
+};
+
+/**
+ * Light version of step 1 for bricks still streaming in: keeps well-formed ones, rounds
+ * coordinates and fills in a colour, without any of the whole-model fixes.
+ */
+export const toPreviewVoxels = (raw: unknown[]): Voxel[] => {
+  const voxels: Voxel[] = [];
+  raw.forEach(item => {
+    const b = item as Partial<Record<keyof Voxel, unknown>> | null;
+    const coords = [b?.x, b?.y, b?.z].map(Number);
+    if (!b || coords.some(c => !Number.isFinite(c))) return;
+    const [x, y, z] = coords.map(Math.round);
+    voxels.push({ x, y: Math.max(0, y), z, color: normalizeColor(b.color) || BrickColor.GREY });
+  });
+  return voxels;
+};
+
+export interface RepairOptions {
+  floatingVoxels: FloatingVoxelStrategy;
+  // Edits of an existing build must stay where they are: no recentring or grounding,
+  // voxels below the ground are cut instead
+  keepPosition?: boolean;
+  // Size and style limits for new builds; applied before clamping so oversized models shrink instead of being cut
+  shape?: BuildShapeSettings;
+  // The project's build areas. New builds are centred on the first and cut to it;
+  // edits may reach onto any of them
+  baseplates: Baseplate[];
+}
+
+export const repairGeneratedBuild = (
+  data: unknown,
+  { floatingVoxels, keepPosition = false, shape, baseplates }: RepairOptions
+): { voxels: Voxel[], report: RepairReport } => {
+  const report: RepairReport = {
+    invalid: 0,
+    rounded: 0,
+    recolored: 0,
+    duplicates: 0,
+    shift: { x: 0, y: 0, z: 0 },
+    outOfBounds: 0,
+    supportsAdded: 0,
+    floatingRemoved: 0,
+    shapeChanges: [],
+  };
+
+  const rawBricks = (data as { bricks?: unknown } | null)?.bricks;
+  if (!Array.isArray(rawBricks)) {
+    throw new GenerationError("malformed", "The model response doesn't contain a list of bricks");
+  }
+
+  // 1. Schema: numeric coordinates and a usable colour
+  const seen = new Set<string>();
+  let voxels: Voxel[] = [];
+  rawBricks.forEach(raw => {
+    const b = raw as Partial<Record<keyof Voxel, unknown>> | null;
+    const coords = [b?.x, b?.y, b?.z].map(Number);
+    if (!b || typeof b !== "object" || coords.some(c => !Number.isFinite(c))) {
+      report.invalid++;
+      return;
+    }
+    const [x, y, z] = coords.map(Math.round);
+    if (x !== coords[0] || y !== coords[1] || z !== coords[2]) report.rounded++;
+
+    let color = normalizeColor(b.color);
+    if (!color) {
+      color = BrickColor.RED;
+      report.recolored++;
+    }
+
+    // 2. Duplicates: first voxel at a position wins
+    const key = voxelKey(x, y, z);
+    if (seen.has(key)) {
+      report.duplicates++;
+      return;
+    }
+    seen.add(key);
+    // Thin and smooth-topped blocks are optional; anything else reads as a whole block
+    const plates = Number(b.plates);
+    const thin = Number.isInteger(plates) && plates >= 1 && plates < PLATES_PER_BRICK;
+    voxels.push({ x, y, z, color, ...(thin ? { plates } : {}), ...(b.tile === true ? { tile: true } : {}) });
+  });
+
+  if (voxels.length === 0) {
+    throw new GenerationError("empty", "The model didn't return any usable bricks");
+  }
+
+  // 3. Recentre on the origin and sit the lowest layer on the ground
+  if (!keepPosition) {
+    const xs = voxels.map(v => v.x);
+    const zs = voxels.map(v => v.z);
+    report.shift = {
+      x: -Math.round((Math.min(...xs) + Math.max(...xs)) / 2) || 0,
+      y: -Math.min(...voxels.map(v => v.y)) || 0,
+      z: -Math.round((Math.min(...zs) + Math.max(...zs)) / 2) || 0,
+    };
+    const { shift } = report;
+    if (shift.x || shift.y || shift.z) {
+      voxels = voxels.map(v => ({ ...v, x: v.x + shift.x, y: v.y + shift.y, z: v.z + shift.z }));
+    }
+  }
+
+  // Size and style settings (new builds only)
+  if (shape && !keepPosition) {
+    const shaped = enforceBuildShape(voxels, shape);
+    voxels = shaped.voxels;
+    report.shapeChanges = shaped.notes;
+  }
+
+  // 4. Move new builds onto their baseplate and clamp to the placeable area
+  const areas = keepPosition ? baseplates : baseplates.slice(0, 1);
+  if (!keepPosition && areas.length > 0) {
+    const center = baseplateCenter(areas[0]);
+    voxels = voxels.map(v => ({ ...v, x: v.x + center.x, z: v.z + center.z }));
+  }
+  const inBounds = voxels.filter(v => v.y >= 0 && isOnBaseplates(areas, v.x, v.z));
+  report.outOfBounds = voxels.length - inBounds.length;
+  voxels = inBounds;
+
+  // 5. Floating pieces: prop them up or drop them. Supporting one group can ground
+  //    another resting on it, so re-check after each column, lowest group first.
+  let floating = findFloatingGroups(voxels);
+  if (floatingVoxels === "remove") {
+    const removed = new Set(floating.flat());
+    report.floatingRemoved = removed.size;
+    voxels = voxels.filter(v => !removed.has(v));
+  } else {
+    while (floating.length > 0) {
+      const lowestGroup = floating.reduce((a, b) =>
+        Math.min(...b.map(v => v.y)) < Math.min(...a.map(v => v.y)) ? b : a
+      );
+      const column = buildSupportColumn(lowestGroup, new Set(voxels.map(v => voxelKey(v.x, v.y, v.z))));
+      report.supportsAdded += column.length;
+      voxels = [...voxels, ...column];
+      floating = findFloatingGroups(voxels);
+    }
+  }
+
+  return { voxels, report };
+};
+
+/**
+ * Human-readable summary of a repair, one line per kind of change. Empty when nothing changed.
+ */
+export const describeRepairReport = (report: RepairReport): string[] => {
+  const lines: string[] = [];
+  if (report.invalid) lines.push(`Ignored ${report.invalid} malformed brick(s)`);
+  if (report.rounded) lines.push(`Snapped ${report.rounded} brick(s) to the stud grid`);
+  if (report.recolored) lines.push(`Gave ${report.recolored} brick(s) without a valid colour the default red`);
+  if (report.duplicates) lines.push(`Removed ${report.duplicates} duplicate brick(s)`);
+  if (report.shift.x || report.shift.z) lines.push(`Centred the model on the baseplate`);
+  if (report.shift.y) lines.push(`Moved the model ${report.shift.y > 0 ? "up" : "down"} ${Math.abs(report.shift.y)} layer(s) to sit on the ground`);
+  if (report.outOfBounds) lines.push(`Cut ${report.outOfBounds} brick(s) that didn't fit on the baseplate`);
+  if (report.supportsAdded) lines.push(`Added ${report.supportsAdded} support brick(s) under floating parts`);
+  if (report.floatingRemoved) lines.push(`Removed ${report.floatingRemoved} floating brick(s)`);
+  return [...lines, ...report.shapeChanges];
+};
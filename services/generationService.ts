@@ -0,0 +1,140 @@
+import { GeneratedBuild, GenerationCallOptions, GenerationProvider, GenerationProviderId, GenerationRequest, GenerationSettings } from "../types";
+import { geminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { openAICompatibleProvider, DEFAULT_OPENAI_BASE_URL } from "./openAICompatibleService";
+import { offlineProvider, DEFAULT_OFFLINE_SETTINGS } from "./offlineService";
+import { DEFAULT_QUANTIZE_SETTINGS } from "./colorQuantize";
+import { DEFAULT_BUILD_SHAPE } from "./buildShape";
+import { DEFAULT_OPTIMIZER_SETTINGS } from "./brickOptimizer";
+import { GenerationError, classifyGenerationError } from "./generationErrors";
+
+/**
+ * Registry of generation backends. Every provider returns a GeneratedBuild, so the
+ * rest of the pipeline (optimizeBricks, drop animation) doesn't care which one ran.
+ */
+
+export const GENERATION_PROVIDERS: GenerationProvider[] = [
+  geminiProvider,
+  openAICompatibleProvider,
+  offlineProvider,
+];
+
+const SETTINGS_STORAGE_KEY = "brickgenius.generationSettings";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  providerId: "gemini",
+  gemini: { model: DEFAULT_GEMINI_MODEL },
+  openai: { baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: "", model: "" },
+  offline: DEFAULT_OFFLINE_SETTINGS,
+  repair: { floatingVoxels: "support" },
+  colors: DEFAULT_QUANTIZE_SETTINGS,
+  shape: DEFAULT_BUILD_SHAPE,
+  network: { timeoutSeconds: 120, maxRetries: 2 },
+  optimizer: DEFAULT_OPTIMIZER_SETTINGS,
+  building: { requireSupport: false },
+};
+
+// First retry waits about this long; each further retry doubles it
+const RETRY_BASE_DELAY_MS = 1000;
+
+export const getProvider = (id: GenerationProviderId): GenerationProvider =>
+  GENERATION_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "null");
+    if (!stored) return DEFAULT_GENERATION_SETTINGS;
+    // Merge section by section so settings saved by older versions pick up new fields
+    return {
+      providerId: GENERATION_PROVIDERS.some(p => p.id === stored.providerId)
+        ? stored.providerId
+        : DEFAULT_GENERATION_SETTINGS.providerId,
+      gemini: { ...DEFAULT_GENERATION_SETTINGS.gemini, ...stored.gemini },
+      openai: { ...DEFAULT_GENERATION_SETTINGS.openai, ...stored.openai },
+      offline: { ...DEFAULT_GENERATION_SETTINGS.offline, ...stored.offline },
+      repair: { ...DEFAULT_GENERATION_SETTINGS.repair, ...stored.repair },
+      colors: { ...DEFAULT_GENERATION_SETTINGS.colors, ...stored.colors },
+      shape: { ...DEFAULT_GENERATION_SETTINGS.shape, ...stored.shape },
+      network: { ...DEFAULT_GENERATION_SETTINGS.network, ...stored.network },
+      optimizer: { ...DEFAULT_GENERATION_SETTINGS.optimizer, ...stored.optimizer },
+      building: { ...DEFAULT_GENERATION_SETTINGS.building, ...stored.building },
+    };
+  } catch (e) {
+    console.warn("Could not read generation settings", e);
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save generation settings", e);
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new GenerationError("cancelled", "Generation was cancelled"));
+  }, { once: true });
+});
+
+/**
+ * Runs the selected provider with a per-attempt timeout, retrying retryable failures
+ * (network, quota, timeouts, unreadable or empty answers) with exponential backoff.
+ * Always rejects with a GenerationError.
+ */
+export const generateBuild = async (
+  request: GenerationRequest,
+  settings: GenerationSettings,
+  { signal, onPartial }: GenerationCallOptions = {}
+): Promise<GeneratedBuild> => {
+  const provider = getProvider(settings.providerId);
+  const { timeoutSeconds, maxRetries } = settings.network;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const cancel = () => controller.abort();
+    signal?.addEventListener("abort", cancel, { once: true });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutSeconds * 1000);
+
+    try {
+      if (signal?.aborted) throw new GenerationError("cancelled", "Generation was cancelled");
+      // A retry starts the streamed preview over
+      if (attempt > 0) onPartial?.([]);
+
+      const result = await provider.generate(
+        { shape: settings.shape, ...request },
+        settings,
+        { signal: controller.signal, onPartial }
+      );
+      if (!result || !Array.isArray(result.bricks)) {
+        throw new GenerationError("malformed", "The response doesn't contain a list of bricks");
+      }
+      if (result.bricks.length === 0) {
+        throw new GenerationError("empty", "The model returned an empty build");
+      }
+      return result;
+
+    } catch (error) {
+      const classified = signal?.aborted
+        ? new GenerationError("cancelled", "Generation was cancelled")
+        : timedOut
+          ? new GenerationError("timeout", `No complete answer after ${timeoutSeconds} seconds`)
+          : classifyGenerationError(error);
+
+      if (!classified.retryable || attempt >= maxRetries) throw classified;
+      console.warn(`Generation attempt ${attempt + 1} failed (${classified.kind}), retrying`, error);
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 250, signal);
+
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    }
+  }
+};
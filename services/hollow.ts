@@ -0,0 +1,160 @@
+import { BrickData } from "../types";
+import { getBrickCells, getBrickHeight, getSocketCells, getStudCells } from "./brickGeometry";
+import { brickLayerCells } from "./brickOptimizer";
+
+/**
+ * Removes bricks that can't be seen from outside the build. Works on whole bricks, so it
+ * applies to hand-built models as well as generated ones and never adds bricks.
+ */
+
+export const DEFAULT_WALL_THICKNESS = 1;
+
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+const NEIGHBOURS = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+// Which brick fills each stud cell, per plate
+const plateOwners = (bricks: BrickData[]): Map<string, BrickData> => {
+  const owner = new Map<string, BrickData>();
+  bricks.forEach(b => getBrickCells(b).forEach(([x, y, z]) => owner.set(cellKey(x, y, z), b)));
+  return owner;
+};
+
+/**
+ * Bricks connected to the ground through studs gripped by the bricks directly above or
+ * below. Sitting next to each other doesn't count, as with real bricks.
+ */
+const groundedIds = (bricks: BrickData[]): Set<string> => {
+  // Studs keyed by the plate above them, sockets by the plate under them
+  const studs = new Map<string, BrickData[]>();
+  const sockets = new Map<string, BrickData[]>();
+  const add = (map: Map<string, BrickData[]>, key: string, b: BrickData) => map.set(key, [...(map.get(key) || []), b]);
+  bricks.forEach(b => {
+    getStudCells(b).forEach(([x, z]) => add(studs, cellKey(x, b.y + getBrickHeight(b), z), b));
+    getSocketCells(b).forEach(([x, z]) => add(sockets, cellKey(x, b.y, z), b));
+  });
+
+  const grounded = new Set<string>();
+  const queue = bricks.filter(b => b.y === 0);
+  queue.forEach(b => grounded.add(b.id));
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    const above = getStudCells(current).flatMap(([x, z]) => sockets.get(cellKey(x, current.y + getBrickHeight(current), z)) || []);
+    const below = getSocketCells(current).flatMap(([x, z]) => studs.get(cellKey(x, current.y, z)) || []);
+    [...above, ...below].forEach(next => {
+      if (!grounded.has(next.id)) {
+        grounded.add(next.id);
+        queue.push(next);
+      }
+    });
+  }
+  return grounded;
+};
+
+/**
+ * How deep each occupied cell sits below the visible surface: 0 for cells that outside air
+ * touches, 1 for the cells behind those, and so on. Air is flood-filled from outside the
+ * bounding box, so it reaches every cell an exterior ray could, plus pockets around corners;
+ * sealed cavities stay dark. The baseplate closes the bottom.
+ */
+const surfaceDepths = (occupied: Set<string>, cells: Array<[number, number, number]>): Map<string, number> => {
+  const depth = new Map<string, number>();
+  if (cells.length === 0) return depth;
+
+  const xs = cells.map(c => c[0]);
+  const ys = cells.map(c => c[1]);
+  const zs = cells.map(c => c[2]);
+  const min = [Math.min(...xs) - 1, 0, Math.min(...zs) - 1];
+  const max = [Math.max(...xs) + 1, Math.max(...ys) + 1, Math.max(...zs) + 1];
+  const inBox = (x: number, y: number, z: number) =>
+    x >= min[0] && x <= max[0] && y >= min[1] && y <= max[1] && z >= min[2] && z <= max[2];
+
+  const air = new Set<string>([cellKey(min[0], max[1], min[2])]);
+  const airQueue: Array<[number, number, number]> = [[min[0], max[1], min[2]]];
+  const queue: Array<[number, number, number]> = [];
+  while (airQueue.length > 0) {
+    const [x, y, z] = airQueue.pop()!;
+    NEIGHBOURS.forEach(([dx, dy, dz]) => {
+      const [nx, ny, nz] = [x + dx, y + dy, z + dz];
+      const key = cellKey(nx, ny, nz);
+      if (!inBox(nx, ny, nz) || air.has(key)) return;
+      if (occupied.has(key)) {
+        if (!depth.has(key)) {
+          depth.set(key, 0);
+          queue.push([nx, ny, nz]);
+        }
+        return;
+      }
+      air.add(key);
+      airQueue.push([nx, ny, nz]);
+    });
+  }
+
+  // Breadth-first inwards from the surface
+  for (let head = 0; head < queue.length; head++) {
+    const [x, y, z] = queue[head];
+    const d = depth.get(cellKey(x, y, z))!;
+    NEIGHBOURS.forEach(([dx, dy, dz]) => {
+      const key = cellKey(x + dx, y + dy, z + dz);
+      if (occupied.has(key) && !depth.has(key)) {
+        depth.set(key, d + 1);
+        queue.push([x + dx, y + dy, z + dz]);
+      }
+    });
+  }
+  return depth;
+};
+
+/**
+ * Hollows a build, keeping walls `wallThickness` studs (or brick layers) thick. A brick goes
+ * only if every cell it covers is deeper than the walls; plates count as the layer they sit
+ * in. Bricks that were attached to the ground but would lose that connection get support
+ * back: removed bricks under them are restored, working down until everything is attached
+ * again. Special parts always stay.
+ */
+export const hollowBuild = (
+  bricks: BrickData[],
+  wallThickness: number = DEFAULT_WALL_THICKNESS
+): { bricks: BrickData[], removed: number, supportsKept: number } => {
+  // Depth is measured in brick layers so walls are as thick vertically as sideways
+  const cells: Array<[number, number, number]> = [];
+  const occupied = new Set<string>();
+  bricks.forEach(b => brickLayerCells(b).forEach(([x, y, z]) => {
+    const key = cellKey(x, y, z);
+    if (occupied.has(key)) return;
+    cells.push([x, y, z]);
+    occupied.add(key);
+  }));
+
+  const depth = surfaceDepths(occupied, cells);
+  const isHidden = (b: BrickData) =>
+    !b.specialType && brickLayerCells(b).every(([x, y, z]) => (depth.get(cellKey(x, y, z)) ?? Infinity) >= wallThickness);
+  const owner = plateOwners(bricks);
+
+  const removed = new Set(bricks.filter(isHidden).map(b => b.id));
+  if (removed.size === 0) return { bricks, removed: 0, supportsKept: 0 };
+
+  const groundedBefore = groundedIds(bricks);
+  let supportsKept = 0;
+  for (;;) {
+    const remaining = bricks.filter(b => !removed.has(b.id));
+    const grounded = groundedIds(remaining);
+    const detached = remaining.filter(b => groundedBefore.has(b.id) && !grounded.has(b.id));
+    if (detached.length === 0) break;
+
+    let restored = 0;
+    detached.forEach(b => getSocketCells(b).forEach(([x, z]) => {
+      const below = owner.get(cellKey(x, b.y - 1, z));
+      if (below && removed.delete(below.id)) restored++;
+    }));
+    // Nothing left to restore underneath; the rest was hanging off something else
+    if (restored === 0) break;
+    supportsKept += restored;
+  }
+
+  return {
+    bricks: bricks.filter(b => !removed.has(b.id)),
+    removed: removed.size,
+    supportsKept,
+  };
+};
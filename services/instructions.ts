@@ -0,0 +1,185 @@
+import { BrickData, InstructionStep, PartsListRow } from "../types";
+import { buildPartsList } from "./partsList";
+
+/**
+ * Splits a build into numbered building steps.
+ *
+ * Bricks are taken layer by layer from the ground up, where a layer is every part whose
+ * bottom sits at the same height (plates start layers of their own). Within a layer,
+ * bricks that touch side-by-side form a connected cluster, and clusters are kept
+ * together in one step where they fit. Large clusters are split in flood-fill order so
+ * each step adds parts that sit next to each other.
+ */
+
+export const DEFAULT_PARTS_PER_STEP = 8;
+
+// Two bricks on the same layer touch if their footprints overlap or share an edge
+const touches = (a: BrickData, b: BrickData) => {
+  const aW = a.sizeX || 1, aD = a.sizeZ || 1;
+  const bW = b.sizeX || 1, bD = b.sizeZ || 1;
+  const xGap = Math.max(a.x, b.x) - Math.min(a.x + aW, b.x + bW);
+  const zGap = Math.max(a.z, b.z) - Math.min(a.z + aD, b.z + bD);
+  // Edge contact only (not diagonal corners)
+  return (xGap <= 0 && zGap <= 0) && !(xGap === 0 && zGap === 0);
+};
+
+/**
+ * Connected clusters within one layer, each in flood-fill order starting from its
+ * front-left brick. Clusters are ordered the same way.
+ */
+const layerClusters = (layer: BrickData[]): BrickData[][] => {
+  const sorted = [...layer].sort((a, b) => a.z - b.z || a.x - b.x);
+  const visited = new Set<string>();
+  const clusters: BrickData[][] = [];
+
+  sorted.forEach(start => {
+    if (visited.has(start.id)) return;
+    visited.add(start.id);
+    const cluster: BrickData[] = [];
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      cluster.push(current);
+      sorted.forEach(candidate => {
+        if (!visited.has(candidate.id) && touches(current, candidate)) {
+          visited.add(candidate.id);
+          queue.push(candidate);
+        }
+      });
+    }
+    clusters.push(cluster);
+  });
+
+  return clusters;
+};
+
+export const generateInstructions = (
+  bricks: BrickData[],
+  partsPerStep: number = DEFAULT_PARTS_PER_STEP
+): InstructionStep[] => {
+  const limit = Math.max(1, Math.floor(partsPerStep));
+  const byLayer = new Map<number, BrickData[]>();
+  bricks.forEach(b => {
+    if (!byLayer.has(b.y)) byLayer.set(b.y, []);
+    byLayer.get(b.y)!.push(b);
+  });
+
+  const groups: Array<{ layer: number, bricks: BrickData[] }> = [];
+  Array.from(byLayer.keys()).sort((a, b) => a - b).forEach((y, layer) => {
+    let current: BrickData[] = [];
+    const flush = () => {
+      if (current.length > 0) groups.push({ layer, bricks: current });
+      current = [];
+    };
+
+    layerClusters(byLayer.get(y)!).forEach(cluster => {
+      // Start a fresh step rather than splitting a cluster that would fit on its own
+      if (current.length > 0 && current.length + cluster.length > limit && cluster.length <= limit) {
+        flush();
+      }
+      cluster.forEach(brick => {
+        current.push(brick);
+        if (current.length >= limit) flush();
+      });
+    });
+    // Never mix layers in one step
+    flush();
+  });
+
+  let placed = 0;
+  return groups.map(({ layer, bricks: newBricks }, index) => {
+    placed += newBricks.length;
+    return {
+      number: index + 1,
+      layer,
+      newBrickIds: newBricks.map(b => b.id),
+      totalPlaced: placed,
+      callout: buildPartsList(newBricks),
+    };
+  });
+};
+
+/**
+ * The bricks already on the model once `step` is finished, split into earlier and new ones.
+ */
+export const getStepBricks = (bricks: BrickData[], steps: InstructionStep[], stepIndex: number) => {
+  const previousIds = new Set(steps.slice(0, stepIndex).flatMap(s => s.newBrickIds));
+  const newIds = new Set(steps[stepIndex]?.newBrickIds || []);
+  return {
+    previous: bricks.filter(b => previousIds.has(b.id)),
+    added: bricks.filter(b => newIds.has(b.id)),
+  };
+};
+
+// ---- Printable booklet ----
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const calloutHtml = (rows: PartsListRow[]) => rows.map(row => `
+      <div class="part">
+        <span class="swatch" style="background:${escapeHtml(row.color)}"></span>
+        <span class="qty">${row.count}×</span>
+        <span>${escapeHtml(row.label)}</span>
+      </div>`).join("");
+
+/**
+ * Self-contained HTML booklet: a cover with the full parts list, then one page per step.
+ * Opening it in a browser and printing produces the PDF.
+ */
+export const buildInstructionsBooklet = (
+  title: string,
+  bricks: BrickData[],
+  steps: InstructionStep[],
+  images: string[],
+  coverImage?: string
+): string => {
+  const pages = steps.map((step, i) => `
+  <section class="page">
+    <div class="step-header">
+      <span class="step-number">${step.number}</span>
+      <div class="callout">${calloutHtml(step.callout)}</div>
+    </div>
+    ${images[i] ? `<img class="render" src="${images[i]}" alt="Step ${step.number}" />` : ""}
+    <footer>${escapeHtml(title)} · Step ${step.number} of ${steps.length} · ${step.totalPlaced}/${bricks.length} parts</footer>
+  </section>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)} – Building Instructions</title>
+<style>
+  body { font-family: 'Fredoka', 'Helvetica Neue', Arial, sans-serif; margin: 0; background: #f3f4f6; color: #1f2937; }
+  .page { background: white; width: 190mm; min-height: 260mm; margin: 10mm auto; padding: 10mm; box-sizing: border-box; position: relative; page-break-after: always; }
+  h1 { font-size: 28pt; margin: 0 0 4mm; }
+  .step-header { display: flex; gap: 8mm; align-items: flex-start; }
+  .step-number { font-size: 48pt; font-weight: bold; line-height: 1; }
+  .callout { border: 2px solid #d1d5db; border-radius: 4mm; padding: 3mm 5mm; display: flex; flex-wrap: wrap; gap: 2mm 6mm; background: #f9fafb; }
+  .part { display: flex; align-items: center; gap: 2mm; font-size: 11pt; }
+  .swatch { width: 5mm; height: 5mm; border-radius: 1mm; border: 1px solid #9ca3af; display: inline-block; }
+  .qty { font-weight: bold; }
+  .render { display: block; width: 100%; margin-top: 6mm; }
+  footer { position: absolute; bottom: 8mm; left: 10mm; right: 10mm; font-size: 9pt; color: #9ca3af; text-align: center; }
+  .toolbar { text-align: center; padding: 6mm; }
+  .toolbar button { font-size: 12pt; padding: 2mm 6mm; border-radius: 3mm; border: none; background: #3b82f6; color: white; cursor: pointer; }
+  @media print {
+    body { background: white; }
+    .page { margin: 0; width: auto; min-height: 0; height: 100vh; }
+    .toolbar { display: none; }
+  }
+</style>
+</head>
+<body>
+  <div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+  <section class="page">
+    <h1>${escapeHtml(title)}</h1>
+    <p>${bricks.length} parts · ${steps.length} steps</p>
+    ${coverImage ? `<img class="render" src="${coverImage}" alt="Finished model" />` : ""}
+    <h2>Parts</h2>
+    <div class="callout">${calloutHtml(buildPartsList(bricks))}</div>
+  </section>${pages}
+</body>
+</html>
+`;
+};
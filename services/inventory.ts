@@ -0,0 +1,218 @@
+import { BrickData, InventoryItem } from "../types";
+import { BRICK_TYPES } from "../constants";
+import { BRICKLINK_COLORS, BRICKLINK_ITEMS } from "./partsList";
+import { findBrickType } from "./brickGeometry";
+import { hexToRgb } from "./colorUtils";
+
+/**
+ * The parts the user owns, for the inventory optimizer mode. Stored in local storage and
+ * importable from CSV (our parts-list export or anything with part/colour/quantity columns)
+ * or a BrickLink XML inventory or wanted list.
+ */
+
+const INVENTORY_STORAGE_KEY = "brickgenius.inventory";
+
+export class InventoryFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "InventoryFileError";
+    this.issues = issues;
+  }
+}
+
+export const inventoryKey = (type: string, color: string) => `${type}|${color.toUpperCase()}`;
+
+export const loadInventory = (): InventoryItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INVENTORY_STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    // Drop rows a hand edit or an older version left behind rather than failing on them later
+    return stored.filter(item =>
+      item
+      && typeof item.type === "string"
+      && typeof item.color === "string"
+      && Number.isFinite(item.count)
+      && item.count > 0
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const saveInventory = (items: InventoryItem[]) => {
+  localStorage.setItem(INVENTORY_STORAGE_KEY, JSON.stringify(items));
+};
+
+/**
+ * Adds counts to an inventory, merging rows for the same part and colour. Rows that drop
+ * to zero or below are removed. Sorted by part, then colour.
+ */
+export const mergeInventory = (items: InventoryItem[], added: InventoryItem[]): InventoryItem[] => {
+  const merged = new Map<string, InventoryItem>();
+  [...items, ...added].forEach(item => {
+    const color = item.color.toUpperCase();
+    const key = inventoryKey(item.type, color);
+    const existing = merged.get(key);
+    merged.set(key, { type: item.type, color, count: (existing?.count || 0) + item.count });
+  });
+  return Array.from(merged.values())
+    .filter(item => item.count > 0)
+    .sort((a, b) => a.type.localeCompare(b.type, undefined, { numeric: true }) || a.color.localeCompare(b.color));
+};
+
+/**
+ * Inventory rows for the parts already on the board, e.g. to record a set that was built.
+ */
+export const inventoryFromBricks = (bricks: BrickData[]): InventoryItem[] =>
+  mergeInventory([], bricks.flatMap(brick => {
+    const type = findBrickType(brick);
+    return type ? [{ type: type.label, color: brick.color, count: 1 }] : [];
+  }));
+
+export const inventoryColorName = (hex: string) =>
+  BRICKLINK_COLORS.find(c => c.value.toLowerCase() === hex.toLowerCase())?.name || hex.toUpperCase();
+
+// ---- Import ----
+
+const findTypeLabel = (value: string): string | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  const byLabel = BRICK_TYPES.find(t => t.label.toLowerCase() === text);
+  if (byLabel) return byLabel.label;
+  return Object.keys(BRICKLINK_ITEMS).find(label => BRICKLINK_ITEMS[label].toLowerCase() === text);
+};
+
+const findColor = (value: string): string | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  if (hexToRgb(text)) return (text.startsWith("#") ? text : `#${text}`).toUpperCase();
+  const byId = /^\d+$/.test(text) ? BRICKLINK_COLORS.find(c => c.id === Number(text)) : undefined;
+  const byName = BRICKLINK_COLORS.find(c => c.name.toLowerCase() === text.toLowerCase());
+  return (byId || byName)?.value.toUpperCase();
+};
+
+// Minimal RFC 4180 reader: quoted cells may contain commas, quotes ("") and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+// Header names accepted for each column, in order of preference
+const CSV_COLUMNS = {
+  part: ["part", "type", "brick", "bricklink item", "item", "item no", "part no"],
+  color: ["hex", "bricklink color id", "color id", "color", "colour"],
+  count: ["quantity", "qty", "count"],
+};
+
+export const parseInventoryCsv = (text: string): { items: InventoryItem[], issues: string[] } => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new InventoryFileError("The CSV file is empty.");
+
+  const names = header.map(h => h.trim().toLowerCase());
+  const columns = (candidates: string[]) =>
+    candidates.map(c => names.indexOf(c)).filter(index => index >= 0);
+  const partColumns = columns(CSV_COLUMNS.part);
+  const colorColumns = columns(CSV_COLUMNS.color);
+  const countColumn = columns(CSV_COLUMNS.count)[0];
+  if (partColumns.length === 0 || colorColumns.length === 0 || countColumn === undefined) {
+    throw new InventoryFileError("The CSV needs part, colour and quantity columns (e.g. Part, Color, Quantity).");
+  }
+
+  const items: InventoryItem[] = [];
+  const issues: string[] = [];
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const type = partColumns.map(c => findTypeLabel(row[c] || "")).find(Boolean);
+    const color = colorColumns.map(c => findColor(row[c] || "")).find(Boolean);
+    const count = Math.floor(Number(row[countColumn]));
+    if (!type) issues.push(`Line ${line}: unknown part "${row[partColumns[0]] || ""}"`);
+    else if (!color) issues.push(`Line ${line}: unknown colour "${row[colorColumns[0]] || ""}"`);
+    else if (!(count > 0)) issues.push(`Line ${line}: quantity must be a positive number`);
+    else items.push({ type, color, count });
+  });
+  return { items, issues };
+};
+
+/**
+ * Reads a BrickLink XML inventory or wanted list (ITEM elements with ITEMID, COLOR and QTY or MINQTY).
+ */
+export const parseBrickLinkInventoryXml = (text: string): { items: InventoryItem[], issues: string[] } => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new InventoryFileError("The file is not valid XML.");
+  }
+
+  const items: InventoryItem[] = [];
+  const issues: string[] = [];
+  Array.from(doc.getElementsByTagName("ITEM")).forEach((element, index) => {
+    const field = (name: string) => element.getElementsByTagName(name)[0]?.textContent?.trim() || "";
+    const itemId = field("ITEMID");
+    const colorId = field("COLOR");
+    const type = findTypeLabel(itemId);
+    const color = BRICKLINK_COLORS.find(c => c.id === Number(colorId))?.value.toUpperCase();
+    const count = Math.floor(Number(field("QTY") || field("MINQTY") || 1));
+    if (!type) issues.push(`Item ${index + 1}: part ${itemId || "(none)"} isn't in the catalog`);
+    else if (!color) issues.push(`Item ${index + 1}: BrickLink colour ${colorId || "(none)"} isn't supported`);
+    else if (count > 0) items.push({ type, color, count });
+  });
+  return { items, issues };
+};
+
+/**
+ * Picks the parser from the file contents. Throws InventoryFileError when nothing could be read.
+ */
+export const parseInventoryFile = (text: string): { items: InventoryItem[], issues: string[] } => {
+  const result = text.trimStart().startsWith("<") ? parseBrickLinkInventoryXml(text) : parseInventoryCsv(text);
+  if (result.items.length === 0) {
+    throw new InventoryFileError("No parts could be read from the file.", result.issues);
+  }
+  return { items: mergeInventory([], result.items), issues: result.issues };
+};
+
+// ---- Export ----
+
+export const exportInventoryCsv = (items: InventoryItem[]): string => {
+  const header = ["Part", "Color", "Hex", "BrickLink Item", "Quantity"];
+  const lines = items.map(item =>
+    [item.type, inventoryColorName(item.color), item.color, BRICKLINK_ITEMS[item.type] || "", item.count]
+      .map(value => (/[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value)))
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n") + "\n";
+};
@@ -0,0 +1,483 @@
+import { v4 as uuidv4 } from "uuid";
+import { Baseplate, BrickData, BrickColor, BrickType } from "../types";
+import { BRICK_TYPES, BRICK_WIDTH, BRICK_HEIGHT, BRICK_DEPTH, PLATE_HEIGHT } from "../constants";
+import { brickShapeFor, findBrickType, getBrickHeight, getBrickRotation } from "./brickGeometry";
+import { checkPlacement } from "./placement";
+import { createSpatialIndex } from "./spatialIndex";
+import { nearestColor } from "./colorUtils";
+import { createBaseplate } from "./baseplates";
+
+/**
+ * LDraw (.ldr / .mpd) import and export.
+ *
+ * LDraw units (LDU): one stud pitch is 20 LDU, a brick is 24 LDU tall and a plate 8.
+ * LDraw is the scene turned half way about X: a scene point (x, y, z) is (x, -y, -z) in
+ * LDraw, so -Y points up and -Z is the scene's front. Brick origins sit at the centre of
+ * the brick's top face.
+ */
+
+const LDU_PER_STUD = 20;
+const LDU_PER_BRICK = 24;
+
+// Scene units -> LDU, derived from the scene's brick dimensions
+const LDU_PER_UNIT_X = LDU_PER_STUD / BRICK_WIDTH;
+const LDU_PER_UNIT_Z = LDU_PER_STUD / BRICK_DEPTH;
+const LDU_PER_UNIT_Y = LDU_PER_BRICK / BRICK_HEIGHT;
+
+type SpecialType = BrickData["specialType"];
+
+interface LDrawPart {
+  part: string; // File name without .dat
+  label: string; // BRICK_TYPES label
+  // Footprint in studs along LDraw X / Z when the part is unrotated
+  ldrawSizeX: number;
+  ldrawSizeZ: number;
+  specialType?: SpecialType;
+  height?: number; // Plates (default 3)
+  tile?: boolean;
+  origin: "top" | "center";
+  // Looks different when turned half way, so it follows the brick's rotation as special
+  // parts do. Unrotated, it faces the same way in LDraw as in BRICK_TYPES: slopes run down
+  // towards -Z.
+  directional?: boolean;
+}
+
+export const LDRAW_PARTS: LDrawPart[] = [
+  { part: "3005", label: "1x1", ldrawSizeX: 1, ldrawSizeZ: 1, origin: "top" },
+  { part: "3004", label: "1x2", ldrawSizeX: 2, ldrawSizeZ: 1, origin: "top" },
+  { part: "3622", label: "1x3", ldrawSizeX: 3, ldrawSizeZ: 1, origin: "top" },
+  { part: "3010", label: "1x4", ldrawSizeX: 4, ldrawSizeZ: 1, origin: "top" },
+  { part: "3003", label: "2x2", ldrawSizeX: 2, ldrawSizeZ: 2, origin: "top" },
+  { part: "3002", label: "2x3", ldrawSizeX: 3, ldrawSizeZ: 2, origin: "top" },
+  { part: "3001", label: "2x4", ldrawSizeX: 4, ldrawSizeZ: 2, origin: "top" },
+  // Brick 2x2 with Pin and Axlehole
+  { part: "4730", label: "2x2 Axle", ldrawSizeX: 2, ldrawSizeZ: 2, specialType: "AXLE", origin: "top" },
+  // Wheel 8mm D. x 6mm with Tyre, origin at the hub
+  { part: "4624c02", label: "Wheel", ldrawSizeX: 1, ldrawSizeZ: 1, specialType: "TIRE", origin: "center" },
+  { part: "3024", label: "Plate 1x1", ldrawSizeX: 1, ldrawSizeZ: 1, height: 1, origin: "top" },
+  { part: "3023", label: "Plate 1x2", ldrawSizeX: 2, ldrawSizeZ: 1, height: 1, origin: "top" },
+  { part: "3710", label: "Plate 1x4", ldrawSizeX: 4, ldrawSizeZ: 1, height: 1, origin: "top" },
+  { part: "3022", label: "Plate 2x2", ldrawSizeX: 2, ldrawSizeZ: 2, height: 1, origin: "top" },
+  { part: "3020", label: "Plate 2x4", ldrawSizeX: 4, ldrawSizeZ: 2, height: 1, origin: "top" },
+  { part: "3070b", label: "Tile 1x1", ldrawSizeX: 1, ldrawSizeZ: 1, height: 1, tile: true, origin: "top" },
+  { part: "3069b", label: "Tile 1x2", ldrawSizeX: 2, ldrawSizeZ: 1, height: 1, tile: true, origin: "top" },
+  { part: "3068b", label: "Tile 2x2", ldrawSizeX: 2, ldrawSizeZ: 2, height: 1, tile: true, origin: "top" },
+  { part: "3040", label: "Slope 45 2x1", ldrawSizeX: 1, ldrawSizeZ: 2, origin: "top", directional: true },
+  { part: "3039", label: "Slope 45 2x2", ldrawSizeX: 2, ldrawSizeZ: 2, origin: "top", directional: true },
+  { part: "3665", label: "Inverted Slope 45 2x1", ldrawSizeX: 1, ldrawSizeZ: 2, origin: "top", directional: true },
+  { part: "3660", label: "Inverted Slope 45 2x2", ldrawSizeX: 2, ldrawSizeZ: 2, origin: "top", directional: true },
+  { part: "3062b", label: "Round 1x1", ldrawSizeX: 1, ldrawSizeZ: 1, origin: "top" },
+  { part: "3659", label: "Arch 1x4", ldrawSizeX: 4, ldrawSizeZ: 1, origin: "top" },
+  { part: "3455", label: "Arch 1x6", ldrawSizeX: 6, ldrawSizeZ: 1, origin: "top" },
+  { part: "2357", label: "Corner 2x2", ldrawSizeX: 2, ldrawSizeZ: 2, origin: "top", directional: true },
+];
+
+// Studded square baseplates, by stud count along each side. Their origin is the centre of
+// the top face, which is the scene's ground.
+export const LDRAW_BASEPLATES: Array<{ part: string; size: number }> = [
+  { part: "3867", size: 16 },
+  { part: "3811", size: 32 },
+];
+
+interface LDrawColor {
+  code: number;
+  name: string;
+  value: string;
+}
+
+// Subset of LDConfig.ldr. The first entries cover our PALETTE so it round-trips exactly.
+export const LDRAW_COLORS: LDrawColor[] = [
+  { code: 4, name: "Red", value: BrickColor.RED },
+  { code: 1, name: "Blue", value: BrickColor.BLUE },
+  { code: 2, name: "Green", value: BrickColor.GREEN },
+  { code: 14, name: "Yellow", value: BrickColor.YELLOW },
+  { code: 15, name: "White", value: BrickColor.WHITE },
+  { code: 0, name: "Black", value: BrickColor.BLACK },
+  { code: 25, name: "Orange", value: BrickColor.ORANGE },
+  { code: 22, name: "Purple", value: BrickColor.PURPLE },
+  { code: 71, name: "Light Bluish Grey", value: BrickColor.GREY },
+  { code: 72, name: "Dark Bluish Grey", value: "#6C6E68" },
+  { code: 7, name: "Light Grey", value: "#9BA19D" },
+  { code: 8, name: "Dark Grey", value: "#6D6E5C" },
+  { code: 19, name: "Tan", value: "#E4CD9E" },
+  { code: 28, name: "Dark Tan", value: "#958A73" },
+  { code: 70, name: "Reddish Brown", value: "#582A12" },
+  { code: 320, name: "Dark Red", value: "#720E0F" },
+  { code: 272, name: "Dark Blue", value: "#0A3463" },
+  { code: 73, name: "Medium Blue", value: "#5A93DB" },
+  { code: 321, name: "Dark Azure", value: "#078BC9" },
+  { code: 288, name: "Dark Green", value: "#184632" },
+  { code: 10, name: "Bright Green", value: "#4B9F4A" },
+  { code: 27, name: "Lime", value: "#BBE90B" },
+  { code: 191, name: "Bright Light Orange", value: "#F8BB3D" },
+  { code: 5, name: "Dark Pink", value: "#C870A0" },
+  { code: 13, name: "Pink", value: "#FC97AC" },
+  { code: 85, name: "Dark Purple", value: "#3F3691" },
+];
+
+const DIRECT_COLOR = /^0x2([0-9a-f]{6})$/i;
+
+export const toLDrawColor = (hex: string): number =>
+  LDRAW_COLORS.find(c => c.value.toLowerCase() === hex.toLowerCase())?.code
+  ?? nearestColor(hex, LDRAW_COLORS, c => c.value)?.code
+  ?? 16; // 16 = "main colour" (inherit)
+
+const findPartFor = (brick: BrickData): LDrawPart | undefined => {
+  const type = findBrickType(brick);
+  return type && LDRAW_PARTS.find(p => p.label === type.label);
+};
+
+const formatNumber = (n: number) => {
+  const rounded = Math.round(n * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+// Rotation matrices (row-major a..i) about the LDraw Y axis, by LDraw angle
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+const QUARTER_TURN = [0, 0, 1, 0, 1, 0, -1, 0, 0];
+const TURNS: Record<number, number[]> = {
+  0: IDENTITY,
+  90: QUARTER_TURN,
+  180: [-1, 0, 0, 0, 1, 0, 0, 0, -1],
+  270: [0, 0, -1, 0, 1, 0, 1, 0, 0],
+};
+
+// A turn in the scene runs the other way in LDraw, and a part facing -Z there faces the
+// scene's +Z, so a part at `degrees` in one is at 180 - `degrees` in the other (both ways)
+const flipTurn = (degrees: number) => ((180 - degrees) % 360 + 360) % 360;
+
+// ---- Export ----
+
+export interface LDrawExportResult {
+  text: string;
+  skipped: number; // Bricks with no LDraw equivalent
+  skippedBaseplates: number; // Baseplates with no LDraw equivalent
+}
+
+export const exportLDraw = (bricks: BrickData[], baseplates: Baseplate[], name: string): LDrawExportResult => {
+  const fileName = `${name.trim() || "build"}.ldr`;
+  const lines = [
+    `0 ${name}`,
+    `0 Name: ${fileName}`,
+    "0 Author: BrickGenius AI",
+    "0 !LDRAW_ORG Unofficial_Model",
+    "",
+  ];
+
+  // Baseplates go in the first step, under the bricks
+  let skippedBaseplates = 0;
+  baseplates.forEach(plate => {
+    const part = plate.studded && plate.width === plate.depth
+      ? LDRAW_BASEPLATES.find(p => p.size === plate.width)
+      : undefined;
+    if (!part) {
+      skippedBaseplates++;
+      return;
+    }
+    const centerX = plate.x * BRICK_WIDTH + ((plate.width - 1) / 2) * BRICK_WIDTH;
+    const centerZ = plate.z * BRICK_DEPTH + ((plate.depth - 1) / 2) * BRICK_DEPTH;
+    lines.push([
+      1,
+      toLDrawColor(plate.color),
+      formatNumber(centerX * LDU_PER_UNIT_X),
+      0,
+      formatNumber(-centerZ * LDU_PER_UNIT_Z),
+      ...IDENTITY,
+      `${part.part}.dat`,
+    ].join(" "));
+  });
+
+  let skipped = 0;
+  let currentLayer: number | null = null;
+  const sorted = [...bricks].sort((a, b) => a.y - b.y);
+
+  sorted.forEach(brick => {
+    const part = findPartFor(brick);
+    if (!part) {
+      skipped++;
+      return;
+    }
+
+    // One building step per layer
+    if (currentLayer !== null && brick.y !== currentLayer) lines.push("0 STEP");
+    currentLayer = brick.y;
+
+    const sizeX = brick.sizeX || 1;
+    const sizeZ = brick.sizeZ || 1;
+
+    // Same centre as Brick.tsx
+    const centerX = brick.x * BRICK_WIDTH + ((sizeX - 1) / 2) * BRICK_WIDTH;
+    const centerZ = brick.z * BRICK_DEPTH + ((sizeZ - 1) / 2) * BRICK_DEPTH;
+    const height = getBrickHeight(brick);
+    const originY = part.origin === "top"
+      ? (brick.y + height) * PLATE_HEIGHT
+      : (brick.y + height / 2) * PLATE_HEIGHT;
+
+    // Rotate when the part's LDraw footprint doesn't line up with ours; special and
+    // directional parts follow their rotation
+    const matrix = part.specialType || part.directional
+      ? TURNS[flipTurn(getBrickRotation(brick))]
+      : (part.ldrawSizeX === sizeX ? IDENTITY : QUARTER_TURN);
+
+    lines.push([
+      1,
+      toLDrawColor(brick.color),
+      formatNumber(centerX * LDU_PER_UNIT_X),
+      formatNumber(-originY * LDU_PER_UNIT_Y),
+      formatNumber(-centerZ * LDU_PER_UNIT_Z),
+      ...matrix,
+      `${part.part}.dat`,
+    ].join(" "));
+  });
+
+  lines.push("0 STEP", "");
+  return { text: lines.join("\n"), skipped, skippedBaseplates };
+};
+
+// ---- Import ----
+
+export interface LDrawImportResult {
+  bricks: BrickData[];
+  baseplates: Baseplate[]; // Empty when the file has none we know
+
+  unsupported: Array<{ part: string; count: number }>;
+  warnings: string[];
+}
+
+type Matrix = number[]; // 12 values: x y z a b c d e f g h i
+
+const IDENTITY_TRANSFORM: Matrix = [0, 0, 0, ...IDENTITY];
+
+// Composes a parent transform with a child transform (child expressed in parent space)
+const compose = (parent: Matrix, child: Matrix): Matrix => {
+  const [px, py, pz, a, b, c, d, e, f, g, h, i] = parent;
+  const [cx, cy, cz, ca, cb, cc, cd, ce, cf, cg, ch, ci] = child;
+  return [
+    px + a * cx + b * cy + c * cz,
+    py + d * cx + e * cy + f * cz,
+    pz + g * cx + h * cy + i * cz,
+    a * ca + b * cd + c * cg, a * cb + b * ce + c * ch, a * cc + b * cf + c * ci,
+    d * ca + e * cd + f * cg, d * cb + e * ce + f * ch, d * cc + e * cf + f * ci,
+    g * ca + h * cd + i * cg, g * cb + h * ce + i * ch, g * cc + h * cf + i * ci,
+  ];
+};
+
+interface PartReference {
+  color: number;
+  transform: Matrix;
+  file: string;
+}
+
+/**
+ * Splits an .ldr or .mpd file into named models. A plain .ldr becomes a single unnamed model.
+ */
+const parseModels = (text: string): { main: string; models: Map<string, PartReference[]> } => {
+  const models = new Map<string, PartReference[]>();
+  let main = "";
+  let current = "";
+  models.set(current, []);
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const tokens = line.split(/\s+/);
+
+    if (tokens[0] === "0" && tokens[1]?.toUpperCase() === "FILE") {
+      current = tokens.slice(2).join(" ").toLowerCase();
+      if (!main) main = current;
+      models.set(current, []);
+      return;
+    }
+
+    if (tokens[0] === "1" && tokens.length >= 15) {
+      const numbers = tokens.slice(2, 14).map(Number);
+      if (numbers.some(n => !Number.isFinite(n))) return;
+      const direct = DIRECT_COLOR.exec(tokens[1]);
+      models.get(current)!.push({
+        color: direct ? parseInt(direct[1], 16) | 0x2000000 : Number(tokens[1]),
+        transform: numbers,
+        file: tokens.slice(14).join(" ").toLowerCase().replace(/\\/g, "/"),
+      });
+    }
+  });
+
+  return { main, models };
+};
+
+const toHexColor = (code: number, parentColor: number, warnings: Set<string>): string => {
+  const resolved = code === 16 ? parentColor : code;
+  // Direct colours (0x2RRGGBB) are stored with the 0x2000000 flag
+  if (resolved >= 0x2000000) {
+    return "#" + (resolved & 0xffffff).toString(16).padStart(6, "0").toUpperCase();
+  }
+  const known = LDRAW_COLORS.find(c => c.code === resolved);
+  if (known) return known.value;
+  warnings.add(`Unknown LDraw colour ${resolved} was imported as grey.`);
+  return BrickColor.GREY;
+};
+
+const approxInteger = (n: number) => Math.abs(n - Math.round(n)) < 0.01;
+
+// How far `n` sits off the nearest whole number, in (-0.5, 0.5]
+const offGrid = (n: number) => n - Math.round(n);
+
+// A part found in the file, in stud cells and plates before it is lined up with our grid
+interface Placement {
+  file: string;
+  cellX: number;
+  cellZ: number;
+  color: string;
+}
+
+interface BrickPlacement extends Placement {
+  layer: number;
+  type: BrickType;
+  rotation: number;
+}
+
+interface BaseplatePlacement extends Placement {
+  size: number;
+  top: number; // Plates
+}
+
+export const importLDraw = (text: string): LDrawImportResult => {
+  const { main, models } = parseModels(text);
+  const brickPlacements: BrickPlacement[] = [];
+  const baseplatePlacements: BaseplatePlacement[] = [];
+  const unsupported = new Map<string, number>();
+  const warnings = new Set<string>();
+
+  const reject = (part: string) => unsupported.set(part, (unsupported.get(part) || 0) + 1);
+
+  const visit = (modelName: string, parent: Matrix, parentColor: number, depth: number) => {
+    if (depth > 32) {
+      warnings.add("Sub-models are nested too deeply (circular reference?).");
+      return;
+    }
+
+    models.get(modelName)?.forEach(ref => {
+      const world = compose(parent, ref.transform);
+      const color = ref.color === 16 ? parentColor : ref.color;
+
+      if (models.has(ref.file) && ref.file !== "") {
+        visit(ref.file, world, color, depth + 1);
+        return;
+      }
+
+      const partId = ref.file.replace(/\.dat$/, "");
+      const [x, y, z, a, , , , e, , g] = world;
+      // Only upright parts turned in quarter steps about the vertical axis fit on our grid
+      const upright = Math.abs(e - 1) < 0.01;
+      const quarterTurn = Math.abs(Math.abs(g) - 1) < 0.01 && Math.abs(a) < 0.01;
+      const unrotated = Math.abs(Math.abs(a) - 1) < 0.01 && Math.abs(g) < 0.01;
+
+      // Back from LDU to our stud grid and plates
+      const toCells = (sizeX: number, sizeZ: number) => ({
+        cellX: x / LDU_PER_UNIT_X / BRICK_WIDTH - (sizeX - 1) / 2,
+        cellZ: -z / LDU_PER_UNIT_Z / BRICK_DEPTH - (sizeZ - 1) / 2,
+      });
+      const originY = -y / LDU_PER_UNIT_Y / PLATE_HEIGHT;
+
+      // Baseplates are square, so only their position matters
+      const baseplatePart = LDRAW_BASEPLATES.find(p => p.part === partId);
+      const part = LDRAW_PARTS.find(p => p.part === partId);
+      const type = part && BRICK_TYPES.find(t => t.label === part.label);
+      if (!baseplatePart && !type) {
+        reject(ref.file);
+        return;
+      }
+      if (!upright || (!quarterTurn && !unrotated)) {
+        reject(`${ref.file} (tilted or odd angle)`);
+        return;
+      }
+
+      if (baseplatePart) {
+        baseplatePlacements.push({
+          file: ref.file,
+          ...toCells(baseplatePart.size, baseplatePart.size),
+          size: baseplatePart.size,
+          top: originY,
+          color: toHexColor(color, parentColor, warnings),
+        });
+        return;
+      }
+
+      const sizeX = quarterTurn ? part.ldrawSizeZ : part.ldrawSizeX;
+      const sizeZ = quarterTurn ? part.ldrawSizeX : part.ldrawSizeZ;
+      const height = getBrickHeight(part);
+
+      // Special and directional parts keep which way they face: a = cos, g = -sin of the
+      // LDraw turn
+      const turn = Math.round((Math.atan2(-g, a) * 180) / Math.PI / 90) * 90;
+      brickPlacements.push({
+        file: ref.file,
+        ...toCells(sizeX, sizeZ),
+        layer: part.origin === "top" ? originY - height : originY - height / 2,
+        type,
+        rotation: part.directional || part.specialType ? flipTurn(turn) : (type.sizeX !== sizeX ? 90 : 0),
+        color: toHexColor(color, parentColor, warnings),
+      });
+    });
+  };
+
+  visit(main, IDENTITY_TRANSFORM, 16, 0);
+
+  // Files needn't put a stud centre at the origin or the ground at y = 0, so the grid is
+  // lined up with the first part and the model stood on its baseplate, or with its lowest
+  // part on the ground when it has none
+  const placements: Placement[] = [...baseplatePlacements, ...brickPlacements];
+  const shiftX = placements.length > 0 ? offGrid(placements[0].cellX) : 0;
+  const shiftZ = placements.length > 0 ? offGrid(placements[0].cellZ) : 0;
+  const ground = baseplatePlacements.length > 0
+    ? baseplatePlacements[0].top
+    : Math.min(...brickPlacements.map(p => p.layer));
+  const onGrid = (p: Placement, layer = 0) => {
+    const fits = approxInteger(p.cellX - shiftX) && approxInteger(p.cellZ - shiftZ) && approxInteger(layer);
+    if (!fits) reject(`${p.file} (off the stud grid)`);
+    return fits;
+  };
+
+  const baseplates: Baseplate[] = baseplatePlacements
+    .filter(p => onGrid(p, p.top - ground))
+    .map(p => createBaseplate({
+      x: Math.round(p.cellX - shiftX),
+      z: Math.round(p.cellZ - shiftZ),
+      width: p.size,
+      depth: p.size,
+      color: p.color,
+    }));
+
+  // Which file each imported part came from, for reporting the ones that don't fit
+  const files = new Map<BrickData, string>();
+  const bricks: BrickData[] = brickPlacements
+    .filter(p => onGrid(p, p.layer - ground))
+    .map(p => {
+      const brick: BrickData = {
+        id: uuidv4(),
+        x: Math.round(p.cellX - shiftX),
+        y: Math.round(p.layer - ground),
+        z: Math.round(p.cellZ - shiftZ),
+        color: p.color,
+        ...brickShapeFor(p.type, p.rotation),
+      };
+      files.set(brick, p.file);
+      return brick;
+    });
+
+  // Skip parts below the baseplates or overlapping one imported before them; models may be
+  // bigger than the board, so they aren't held to its edges
+  const rejected = new Set<BrickData>();
+  checkPlacement(bricks, createSpatialIndex()).forEach(issue => {
+    reject(`${files.get(issue.brick)} (${issue.problem === "overlap" ? "overlaps another part" : "below the ground"})`);
+    rejected.add(issue.brick);
+  });
+
+  return {
+    bricks: bricks.filter(b => !rejected.has(b)).sort((a, b) => a.y - b.y),
+    baseplates,
+    unsupported: Array.from(unsupported.entries())
+      .map(([part, count]) => ({ part, count }))
+      .sort((a, b) => b.count - a.count),
+    warnings: Array.from(warnings),
+  };
+};
@@ -0,0 +1,502 @@
+import {
+  BoxGeometry, BufferGeometry, CylinderGeometry, Euler, Float32BufferAttribute, Group, Matrix4,
+  Mesh, MeshStandardMaterial, Quaternion, Vector3
+} from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { Baseplate, BrickData, MeshExportOptions } from "../types";
+import { BRICK_WIDTH, PLATE_HEIGHT, BRICK_DEPTH, STUD_RADIUS, STUD_HEIGHT, BRICK_GAP } from "../constants";
+import {
+  BrickPrimitive, Vec3, getBrickCells, getBrickCenter, getBrickHeight, getBrickPrimitives, getBrickSolids, getStudCells
+} from "./brickGeometry";
+import { createPrimitiveGeometry } from "./primitiveGeometry";
+import { hexToRgb } from "./colorUtils";
+import { getBaseplateCells } from "./baseplates";
+import { ConvexSolid, Polygon, boxSolid, convexSolid, unionSolids } from "./solidUnion";
+
+// A real brick is 8mm wide, so one scene unit (BRICK_WIDTH) is 8mm
+const MM_PER_UNIT = 8 / BRICK_WIDTH;
+const BASEPLATE_THICKNESS = PLATE_HEIGHT;
+// Studs, slopes and round parts sink this far into what they rest against, so slicers union
+// them with it instead of meeting it face to face
+const PRINT_OVERLAP = 0.01;
+
+// ---- Shared geometry building ----
+
+const placeGeometry = (geometry: BufferGeometry, position: Vec3, rotation: Vec3 = [0, 0, 0]) => {
+  const matrix = new Matrix4().compose(
+    new Vector3(...position),
+    new Quaternion().setFromEuler(new Euler(...rotation)),
+    new Vector3(1, 1, 1)
+  );
+  geometry.applyMatrix4(matrix);
+  return geometry;
+};
+
+const baseplatePrimitives = (plate: Baseplate, studs: boolean): Array<{ geometry: BufferGeometry, color: string }> => {
+  const parts: Array<{ geometry: BufferGeometry, color: string }> = [{
+    geometry: placeGeometry(
+      new BoxGeometry(plate.width * BRICK_WIDTH, BASEPLATE_THICKNESS, plate.depth * BRICK_DEPTH),
+      [(plate.x + (plate.width - 1) / 2) * BRICK_WIDTH, -BASEPLATE_THICKNESS / 2, (plate.z + (plate.depth - 1) / 2) * BRICK_DEPTH]
+    ),
+    color: plate.color,
+  }];
+
+  if (studs && plate.studded) {
+    getBaseplateCells(plate).forEach(([x, z]) => {
+      parts.push({
+        geometry: placeGeometry(
+          new CylinderGeometry(STUD_RADIUS, STUD_RADIUS, STUD_HEIGHT, 16),
+          [x * BRICK_WIDTH, STUD_HEIGHT / 2, z * BRICK_DEPTH]
+        ),
+        color: plate.color,
+      });
+    });
+  }
+  return parts;
+};
+
+/**
+ * Builds one merged mesh per colour, using the same shapes Brick.tsx draws.
+ * Materials are named after their colour so OBJ/MTL and glTF keep them apart.
+ */
+export const buildExportGroup = (bricks: BrickData[], baseplates: Baseplate[], options: MeshExportOptions, scale = 1): Group => {
+  const byColor = new Map<string, BufferGeometry[]>();
+  const add = (color: string, geometry: BufferGeometry) => {
+    const key = color.toUpperCase();
+    if (!byColor.has(key)) byColor.set(key, []);
+    byColor.get(key)!.push(geometry);
+  };
+
+  bricks.forEach(brick => {
+    const center = getBrickCenter(brick);
+    getBrickPrimitives(brick, { studs: options.includeStuds }).forEach(primitive => {
+      const geometry = placeGeometry(createPrimitiveGeometry(primitive), primitive.position, primitive.rotation);
+      geometry.translate(...center);
+      add(primitive.color, geometry);
+    });
+  });
+
+  if (options.includeBaseplate) {
+    baseplates.forEach(plate => {
+      baseplatePrimitives(plate, options.includeStuds).forEach(({ geometry, color }) => add(color, geometry));
+    });
+  }
+
+  const group = new Group();
+  group.name = "BrickGenius";
+  byColor.forEach((geometries, color) => {
+    const merged = mergeGeometries(geometries);
+    geometries.forEach(g => g.dispose());
+    if (!merged) return;
+    merged.scale(scale, scale, scale);
+
+    const material = new MeshStandardMaterial({ color, roughness: 0.2, metalness: 0.1 });
+    material.name = `color_${color.replace("#", "")}`;
+    const mesh = new Mesh(merged, material);
+    mesh.name = material.name;
+    group.add(mesh);
+  });
+
+  return group;
+};
+
+const disposeGroup = (group: Group) => {
+  group.traverse(obj => {
+    if (obj instanceof Mesh) {
+      obj.geometry.dispose();
+      (obj.material as MeshStandardMaterial).dispose();
+    }
+  });
+};
+
+// ---- glTF ----
+
+/**
+ * Binary glTF (.glb) with one PBR material per colour. glTF units are metres.
+ */
+export const exportGLB = async (bricks: BrickData[], baseplates: Baseplate[], options: MeshExportOptions): Promise<ArrayBuffer> => {
+  const group = buildExportGroup(bricks, baseplates, options, MM_PER_UNIT / 1000);
+  try {
+    const result = await new GLTFExporter().parseAsync(group, { binary: true });
+    return result as ArrayBuffer;
+  } finally {
+    disposeGroup(group);
+  }
+};
+
+// ---- OBJ + MTL ----
+
+export const exportOBJ = (
+  bricks: BrickData[],
+  baseplates: Baseplate[],
+  options: MeshExportOptions,
+  mtlFileName: string
+): { obj: string, mtl: string } => {
+  const group = buildExportGroup(bricks, baseplates, options, MM_PER_UNIT);
+  try {
+    const body = new OBJExporter().parse(group);
+
+    const materials: string[] = [];
+    group.children.forEach(child => {
+      const material = (child as Mesh).material as MeshStandardMaterial;
+      // MTL colours are plain sRGB, so read them from the hex rather than the linear material colour
+      const [r, g, b] = (hexToRgb(material.color.getHexString()) || [0, 0, 0]).map(c => (c / 255).toFixed(4));
+      materials.push(
+        `newmtl ${material.name}`,
+        `Kd ${r} ${g} ${b}`,
+        "Ka 0 0 0",
+        "Ks 0.2 0.2 0.2",
+        "Ns 50",
+        "d 1",
+        "illum 2",
+        ""
+      );
+    });
+
+    return {
+      obj: `# BrickGenius AI (units: mm)\nmtllib ${mtlFileName}\n${body}`,
+      mtl: `# BrickGenius AI\n${materials.join("\n")}`,
+    };
+  } finally {
+    disposeGroup(group);
+  }
+};
+
+// ---- STL ----
+
+type LayerBounds = (layer: number) => [number, number];
+
+// Cells are one plate tall. The baseplate is layer -1; bricks stack from layer 0 at the board surface
+const layerBounds: LayerBounds = layer =>
+  layer < 0 ? [-BASEPLATE_THICKNESS, 0] : [layer * PLATE_HEIGHT, (layer + 1) * PLATE_HEIGHT];
+
+const FACE_DIRECTIONS: Vec3[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+const cellBounds = (x: number, y: number, z: number): { min: Vec3, max: Vec3 } => {
+  const [y0, y1] = layerBounds(y);
+  return {
+    min: [(x - 0.5) * BRICK_WIDTH, y0, (z - 0.5) * BRICK_DEPTH],
+    max: [(x + 0.5) * BRICK_WIDTH, y1, (z + 0.5) * BRICK_DEPTH],
+  };
+};
+
+/**
+ * Emits the outer surface of a set of filled cells as quads. Faces between two filled cells
+ * are dropped, so neighbouring bricks fuse into one closed shell.
+ */
+const voxelSurface = (cells: Set<string>): Polygon[] => {
+  const quads: Polygon[] = [];
+
+  cells.forEach(key => {
+    const [x, y, z] = key.split(",").map(Number);
+    const [y0, y1] = layerBounds(y);
+    const x0 = (x - 0.5) * BRICK_WIDTH, x1 = (x + 0.5) * BRICK_WIDTH;
+    const z0 = (z - 0.5) * BRICK_DEPTH, z1 = (z + 0.5) * BRICK_DEPTH;
+
+    FACE_DIRECTIONS.forEach(([dx, dy, dz]) => {
+      if (cells.has(`${x + dx},${y + dy},${z + dz}`)) return;
+
+      let quad: Vec3[];
+      if (dx !== 0) {
+        const px = dx > 0 ? x1 : x0;
+        quad = [[px, y0, z0], [px, y1, z0], [px, y1, z1], [px, y0, z1]];
+      } else if (dy !== 0) {
+        const py = dy > 0 ? y1 : y0;
+        quad = [[x0, py, z0], [x0, py, z1], [x1, py, z1], [x1, py, z0]];
+      } else {
+        const pz = dz > 0 ? z1 : z0;
+        quad = [[x0, y0, pz], [x1, y0, pz], [x1, y1, pz], [x0, y1, pz]];
+      }
+
+      // Wind counter-clockwise when seen from outside
+      const a = new Vector3(...quad[0]);
+      const normal = new Vector3(...quad[1]).sub(a).cross(new Vector3(...quad[2]).sub(a));
+      if (normal.dot(new Vector3(dx, dy, dz)) < 0) quad.reverse();
+
+      quads.push(quad);
+    });
+  });
+
+  return quads;
+};
+
+/**
+ * Slivers joining cells that touch only along an edge or at a corner, where the shell would
+ * otherwise pinch to a line or a point and stop being a manifold. Each is PRINT_OVERLAP
+ * thick either side of where the cells meet.
+ */
+const pinchBridges = (cells: Set<string>): ConvexSolid[] => {
+  const bridges: ConvexSolid[] = [];
+  const filled = (x: number, y: number, z: number) => cells.has(`${x},${y},${z}`);
+
+  cells.forEach(key => {
+    const cell = key.split(",").map(Number) as Vec3;
+    const { min, max } = cellBounds(...cell);
+    // Where the cell ends towards `sign` along `axis`
+    const side = (axis: number, sign: number) => (sign > 0 ? max : min)[axis];
+
+    // Diagonal neighbours across an edge, each pair once: +1 along the first axis
+    [[0, 1], [0, 2], [1, 2]].forEach(([i, j]) => [-1, 1].forEach(sj => {
+      const step = (di: number, dj: number): Vec3 => {
+        const d: Vec3 = [0, 0, 0];
+        d[i] = di;
+        d[j] = dj;
+        return [cell[0] + d[0], cell[1] + d[1], cell[2] + d[2]];
+      };
+      if (!filled(...step(1, sj)) || filled(...step(1, 0)) || filled(...step(0, sj))) return;
+      const from: Vec3 = [...min];
+      const to: Vec3 = [...max];
+      [[i, 1], [j, sj]].forEach(([axis, sign]) => {
+        from[axis] = side(axis, sign) - PRINT_OVERLAP;
+        to[axis] = side(axis, sign) + PRINT_OVERLAP;
+      });
+      bridges.push(boxSolid(from, to));
+    }));
+
+    // Diagonal neighbours across a corner, with nothing else in the 2x2x2 block around it
+    [-1, 1].forEach(sy => [-1, 1].forEach(sz => {
+      const [x, y, z] = cell;
+      if (!filled(x + 1, y + sy, z + sz)) return;
+      const others: Vec3[] = [[1, 0, 0], [0, sy, 0], [0, 0, sz], [1, sy, 0], [1, 0, sz], [0, sy, sz]];
+      if (others.some(([dx, dy, dz]) => filled(x + dx, y + dy, z + dz))) return;
+      const corner: Vec3 = [side(0, 1), side(1, sy), side(2, sz)];
+      bridges.push(boxSolid(
+        corner.map(v => v - PRINT_OVERLAP) as Vec3,
+        corner.map(v => v + PRINT_OVERLAP) as Vec3
+      ));
+    }));
+  });
+
+  return bridges;
+};
+
+/**
+ * A box, wedge or cylinder primitive as a convex solid, placed the way placeGeometry and
+ * createPrimitiveGeometry place it.
+ */
+const primitiveSolid = (primitive: BrickPrimitive, center: Vec3): ConvexSolid => {
+  const matrix = new Matrix4().compose(
+    new Vector3(...primitive.position).add(new Vector3(...center)),
+    new Quaternion().setFromEuler(new Euler(...primitive.rotation)),
+    new Vector3(1, 1, 1)
+  );
+  const place = (x: number, y: number, z: number): Vec3 => new Vector3(x, y, z).applyMatrix4(matrix).toArray();
+
+  if (primitive.shape === "cylinder") {
+    const [radius, height, segments] = primitive.args;
+    const ring = (y: number) => Array.from({ length: segments }, (_, i) => {
+      const theta = (i / segments) * Math.PI * 2;
+      return place(radius * Math.sin(theta), y, radius * Math.cos(theta));
+    });
+    const top = ring(height / 2);
+    const bottom = ring(-height / 2);
+    return convexSolid([
+      top,
+      bottom,
+      ...top.map((p, i) => [p, top[(i + 1) % segments], bottom[(i + 1) % segments], bottom[i]]),
+    ]);
+  }
+
+  // Wedge: the top edge on the -z side drops to `edge` above the bottom
+  const [width, height, depth, edge = height] = primitive.args;
+  const corner = (sx: number, sy: number, sz: number) => place(
+    (sx * width) / 2,
+    sy > 0 && sz < 0 ? -height / 2 + edge : (sy * height) / 2,
+    (sz * depth) / 2
+  );
+  const face = (...corners: Vec3[]) => corners.map(c => corner(...c));
+  return convexSolid([
+    face([-1, -1, -1], [-1, 1, -1], [-1, 1, 1], [-1, -1, 1]),
+    face([1, -1, -1], [1, 1, -1], [1, 1, 1], [1, -1, 1]),
+    face([-1, -1, -1], [1, -1, -1], [1, -1, 1], [-1, -1, 1]),
+    face([-1, 1, -1], [1, 1, -1], [1, 1, 1], [-1, 1, 1]),
+    face([-1, -1, -1], [1, -1, -1], [1, 1, -1], [-1, 1, -1]),
+    face([-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]),
+  ]);
+};
+
+// The cell a point lies in, as [x, plate, z]; the baseplates are plate -1
+const cellAt = (x: number, y: number, z: number): Vec3 =>
+  [Math.round(x / BRICK_WIDTH), Math.floor(y / PLATE_HEIGHT), Math.round(z / BRICK_DEPTH)];
+
+const CELL_SIZE: Vec3 = [BRICK_WIDTH, PLATE_HEIGHT, BRICK_DEPTH];
+// Cell edges along each axis: x and z cells are centred on whole studs, plates start at 0
+const CELL_EDGE_OFFSET: Vec3 = [0.5, 0, 0.5];
+const EPSILON = 1e-6;
+
+/**
+ * A wedge or upright cylinder as printed. Flat sides the board pulls in by BRICK_GAP go back
+ * out to the cell edge, and sides against a filled cell sink PRINT_OVERLAP into it, so the
+ * part never shares a face with its neighbours. A wedge's slope stays where it was.
+ */
+const toPrintPrimitive = (primitive: BrickPrimitive, center: Vec3, occupied: Set<string>): BrickPrimitive => {
+  const upright = primitive.shape === "cylinder" && primitive.rotation.every(r => r === 0);
+  if (primitive.shape !== "wedge" && !upright) return primitive;
+
+  // Wedge: [width, height, depth, edge]; cylinder: [radius, height, segments]
+  const [width, height, depth, edge] = primitive.args;
+  const half: Vec3 = primitive.shape === "wedge" ? [width / 2, height / 2, depth / 2] : [width, height / 2, width];
+  const rotation = new Quaternion().setFromEuler(new Euler(...primitive.rotation));
+  const position = new Vector3(...primitive.position).add(new Vector3(...center));
+
+  // Corners of the primitive in the world, to find the cells a side faces
+  const min = new Vector3(Infinity, Infinity, Infinity);
+  const max = new Vector3(-Infinity, -Infinity, -Infinity);
+  [-1, 1].forEach(sx => [-1, 1].forEach(sy => [-1, 1].forEach(sz => {
+    const corner = new Vector3(sx * half[0], sy * half[1], sz * half[2]).applyQuaternion(rotation).add(position);
+    min.min(corner);
+    max.max(corner);
+  })));
+
+  // How far the side facing local `axis` * `sign` moves out
+  const grow = (axis: number, sign: number): number => {
+    const normal = new Vector3().setComponent(axis, sign).applyQuaternion(rotation).round();
+    const worldAxis = [0, 1, 2].find(i => normal.getComponent(i) !== 0)!;
+    const outward = normal.getComponent(worldAxis);
+    const size = CELL_SIZE[worldAxis];
+    const face = position.getComponent(worldAxis) + outward * half[axis];
+    const edgeIndex = (outward > 0 ? Math.ceil : Math.floor)((face / size) - CELL_EDGE_OFFSET[worldAxis] - outward * EPSILON);
+    const cellEdge = (edgeIndex + CELL_EDGE_OFFSET[worldAxis]) * size;
+    const gap = Math.abs(cellEdge - face);
+    if (gap > BRICK_GAP / 2 + EPSILON) return 0;
+
+    // Any filled cell just beyond the side, across the whole side
+    const from = min.clone().addScalar(EPSILON).setComponent(worldAxis, cellEdge + (outward * size) / 2);
+    const to = max.clone().addScalar(-EPSILON).setComponent(worldAxis, cellEdge + (outward * size) / 2);
+    const [x0, y0, z0] = cellAt(from.x, from.y, from.z);
+    const [x1, y1, z1] = cellAt(to.x, to.y, to.z);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          if (occupied.has(`${x},${y},${z}`)) return gap + PRINT_OVERLAP;
+        }
+      }
+    }
+    return gap;
+  };
+
+  // Local [low, high] per axis. A wedge's top is its slope and a cylinder's round side isn't
+  // flat, so those stay put.
+  const flat = (axis: number, sign: number) => (primitive.shape === "wedge" ? axis !== 1 || sign < 0 : axis === 1);
+  const bounds = [0, 1, 2].map(axis => [
+    -half[axis] - (flat(axis, -1) ? grow(axis, -1) : 0),
+    half[axis] + (flat(axis, 1) ? grow(axis, 1) : 0),
+  ]);
+  const offset = new Vector3(...bounds.map(([low, high]) => (low + high) / 2)).applyQuaternion(rotation);
+  const moved: Vec3 = [
+    primitive.position[0] + offset.x, primitive.position[1] + offset.y, primitive.position[2] + offset.z,
+  ];
+
+  if (primitive.shape === "cylinder") {
+    return { ...primitive, args: [width, bounds[1][1] - bounds[1][0], depth], position: moved };
+  }
+  // The slope runs from `edge` above the bottom on the thin (-z) side to the top on the thick
+  // side; keep the thin side on that line
+  const slope = (height - edge) / depth;
+  const thinTop = -half[1] + edge + slope * (bounds[2][0] + half[2]);
+  return {
+    ...primitive,
+    args: [bounds[0][1] - bounds[0][0], bounds[1][1] - bounds[1][0], bounds[2][1] - bounds[2][0], thinTop - bounds[1][0]],
+    position: moved,
+  };
+};
+
+/**
+ * Builds a single print geometry: one closed, 2-manifold surface. The box-shaped pieces of
+ * every part and the baseplates fuse into a shell of cells, cells touching only along an
+ * edge or at a corner are bridged, and slopes, round parts, wheels and studs are unioned
+ * into it. Each of those sinks PRINT_OVERLAP into what it rests against so the union cuts
+ * cleanly through it, and studs with a part on top are left out.
+ */
+export const buildPrintGeometry = (bricks: BrickData[], baseplates: Baseplate[], options: MeshExportOptions): BufferGeometry => {
+  const cells = new Set<string>();
+  // Every cell any part fills, including the ones only partly filled by a slope or round part
+  const occupied = new Set<string>();
+  const solids: ConvexSolid[] = [];
+
+  bricks.forEach(brick => getBrickCells(brick).forEach(([x, y, z]) => occupied.add(`${x},${y},${z}`)));
+  if (options.includeBaseplate) {
+    baseplates.forEach(plate => getBaseplateCells(plate).forEach(([x, z]) => {
+      cells.add(`${x},-1,${z}`);
+      occupied.add(`${x},-1,${z}`);
+    }));
+  }
+
+  bricks.forEach(brick => {
+    const { cells: boxCells, primitives } = getBrickSolids(brick);
+    boxCells.forEach(([x, y, z]) => cells.add(`${x},${y},${z}`));
+
+    const center = getBrickCenter(brick);
+    primitives.forEach(shape => solids.push(primitiveSolid(toPrintPrimitive(shape, center, occupied), center)));
+  });
+
+  if (options.includeStuds) {
+    // `top` is the plate the stud stands in
+    const addStud = (x: number, top: number, z: number) => {
+      if (occupied.has(`${x},${top},${z}`)) return;
+      solids.push(primitiveSolid({
+        role: "stud",
+        shape: "cylinder",
+        args: [STUD_RADIUS, STUD_HEIGHT + PRINT_OVERLAP, 16],
+        position: [x * BRICK_WIDTH, top * PLATE_HEIGHT + (STUD_HEIGHT - PRINT_OVERLAP) / 2, z * BRICK_DEPTH],
+        rotation: [0, 0, 0],
+        color: "",
+      }, [0, 0, 0]));
+    };
+    bricks.forEach(brick => {
+      if (brick.tile) return;
+      const top = brick.y + getBrickHeight(brick);
+      getStudCells(brick).forEach(([x, z]) => addStud(x, top, z));
+    });
+    if (options.includeBaseplate) {
+      baseplates.filter(plate => plate.studded).forEach(plate => getBaseplateCells(plate).forEach(([x, z]) => addStud(x, 0, z)));
+    }
+  }
+
+  // The shell's cells near a box, as solids for cutting the others against
+  const cellSolids = new Map<string, ConvexSolid>();
+  const shellCells = (min: Vec3, max: Vec3): ConvexSolid[] => {
+    const [x0, y0, z0] = cellAt(...min);
+    const [x1, y1, z1] = cellAt(...max);
+    const found: ConvexSolid[] = [];
+    for (let x = x0 - 1; x <= x1 + 1; x++) {
+      for (let y = y0 - 1; y <= y1 + 1; y++) {
+        for (let z = z0 - 1; z <= z1 + 1; z++) {
+          const key = `${x},${y},${z}`;
+          if (!cells.has(key)) continue;
+          if (!cellSolids.has(key)) {
+            const { min: from, max: to } = cellBounds(x, y, z);
+            cellSolids.set(key, boxSolid(from, to));
+          }
+          found.push(cellSolids.get(key)!);
+        }
+      }
+    }
+    return found;
+  };
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(
+    unionSolids(voxelSurface(cells), shellCells, [...pinchBridges(cells), ...solids]), 3
+  ));
+  geometry.computeVertexNormals();
+  geometry.scale(MM_PER_UNIT, MM_PER_UNIT, MM_PER_UNIT);
+  return geometry;
+};
+
+/**
+ * Binary STL in millimetres, ready for a slicer.
+ */
+export const exportSTL = (bricks: BrickData[], baseplates: Baseplate[], options: MeshExportOptions): ArrayBuffer => {
+  const geometry = buildPrintGeometry(bricks, baseplates, options);
+  const mesh = new Mesh(geometry);
+  try {
+    const view = new STLExporter().parse(mesh, { binary: true });
+    return view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength);
+  } finally {
+    geometry.dispose();
+  }
+};
@@ -0,0 +1,317 @@
+import { GeneratedBuild, GenerationProvider, GenerationSettings, ImageView, LabeledImage } from "../types";
+import { BRICK_WIDTH, BRICK_HEIGHT } from "../constants";
+import { MAX_BASEPLATE_SIZE } from "./baseplates";
+import { rgbToHex, RGB } from "./colorUtils";
+
+/**
+ * Fully offline, deterministic generator. The image is downscaled to a small grid,
+ * the subject is separated from the background by colour, and the resulting
+ * silhouette is "inflated" into a relief: pixels far from the outline get thicker,
+ * so the model is rounded rather than a flat cut-out. With several labelled views
+ * the silhouettes are intersected instead (see carveViews).
+ */
+
+export const DEFAULT_OFFLINE_SETTINGS: GenerationSettings["offline"] = { resolution: 16, maxDepth: 3 };
+
+// Minimum RGB distance from the background colour for a pixel to count as subject
+const BACKGROUND_THRESHOLD = 60;
+
+interface PixelGrid {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+const pixelAt = (grid: PixelGrid, x: number, y: number): [number, number, number, number] => {
+  const i = (y * grid.width + x) * 4;
+  return [grid.data[i], grid.data[i + 1], grid.data[i + 2], grid.data[i + 3]];
+};
+
+/**
+ * Average colour of the opaque border pixels, taken as the background.
+ */
+const estimateBackground = (grid: PixelGrid): RGB | null => {
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      if (x !== 0 && y !== 0 && x !== grid.width - 1 && y !== grid.height - 1) continue;
+      const [r, g, b, a] = pixelAt(grid, x, y);
+      if (a < 128) continue;
+      sum[0] += r; sum[1] += g; sum[2] += b;
+      count++;
+    }
+  }
+  return count > 0 ? [sum[0] / count, sum[1] / count, sum[2] / count] : null;
+};
+
+/**
+ * Foreground mask: opaque pixels that differ enough from the background.
+ * Images with a transparent background are separated by alpha alone.
+ */
+export const silhouetteMask = (grid: PixelGrid): boolean[] => {
+  const hasTransparency = Array.from({ length: grid.width * grid.height }).some((_, i) => grid.data[i * 4 + 3] < 128);
+  const background = hasTransparency ? null : estimateBackground(grid);
+
+  return Array.from({ length: grid.width * grid.height }, (_, i) => {
+    const x = i % grid.width;
+    const y = Math.floor(i / grid.width);
+    const [r, g, b, a] = pixelAt(grid, x, y);
+    if (a < 128) return false;
+    if (!background) return true;
+    return Math.hypot(r - background[0], g - background[1], b - background[2]) > BACKGROUND_THRESHOLD;
+  });
+};
+
+/**
+ * Chessboard distance from each foreground pixel to the nearest background pixel
+ * (or the image edge). Background pixels are 0.
+ */
+const distanceToOutline = (mask: boolean[], width: number, height: number): number[] => {
+  const distance = mask.map(filled => (filled ? Infinity : 0));
+  const queue: number[] = [];
+  mask.forEach((filled, i) => { if (!filled) queue.push(i); });
+
+  // Pixels on the image edge border the (implicit) background outside it
+  mask.forEach((filled, i) => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (filled && (x === 0 || y === 0 || x === width - 1 || y === height - 1)) {
+      distance[i] = 1;
+      queue.push(i);
+    }
+  });
+
+  for (let head = 0; head < queue.length; head++) {
+    const i = queue[head];
+    const x = i % width;
+    const y = Math.floor(i / width);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (distance[n] > distance[i] + 1) {
+          distance[n] = distance[i] + 1;
+          queue.push(n);
+        }
+      }
+    }
+  }
+  return distance;
+};
+
+/**
+ * Turns a downscaled image into voxels. Row 0 is the top of the image.
+ */
+export const voxelizeImageData = (grid: PixelGrid, maxDepth: number): GeneratedBuild => {
+  const mask = silhouetteMask(grid);
+  const distance = distanceToOutline(mask, grid.width, grid.height);
+
+  let minX = Infinity, maxX = -Infinity, maxY = -Infinity;
+  mask.forEach((filled, i) => {
+    if (!filled) return;
+    const x = i % grid.width;
+    const y = Math.floor(i / grid.width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  if (!Number.isFinite(minX)) {
+    throw new Error("Couldn't find a subject in the image. Try a photo with a plain background.");
+  }
+
+  const centerX = Math.floor((minX + maxX) / 2);
+  const bricks: GeneratedBuild["bricks"] = [];
+
+  mask.forEach((filled, i) => {
+    if (!filled) return;
+    const px = i % grid.width;
+    const py = Math.floor(i / grid.width);
+    const [r, g, b] = pixelAt(grid, px, py);
+    // Raw image colour; the palette step in App matches it to brick colours
+    const color = rgbToHex([r, g, b]);
+
+    // Thicker towards the middle of the silhouette, symmetric front to back
+    const halfDepth = Math.min(Math.max(1, maxDepth), distance[i]) - 1;
+    for (let z = -halfDepth; z <= halfDepth; z++) {
+      bricks.push({ x: px - centerX, y: maxY - py, z: z || 0, color });
+    }
+  });
+
+  return { bricks };
+};
+
+/**
+ * Downscales the image so it's `resolution` studs wide, correcting for bricks being taller than wide.
+ */
+const loadPixelGrid = async (file: File, resolution: number): Promise<PixelGrid> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const width = Math.max(4, Math.round(resolution));
+    const aspect = (bitmap.height / bitmap.width) * (BRICK_WIDTH / BRICK_HEIGHT);
+    const height = Math.max(4, Math.round(width * aspect));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D is not available");
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Working resolution for multi-view silhouettes, before they're resampled onto the voxel grid
+const VIEW_SAMPLE_WIDTH = 64;
+
+interface Silhouette {
+  width: number;
+  height: number;
+  mask: boolean[];
+  grid: PixelGrid;
+}
+
+/**
+ * Silhouette cropped to the subject's bounding box, so views shot at different
+ * distances still line up once they're stretched onto the same voxel grid.
+ */
+const loadSilhouette = async (file: File): Promise<Silhouette> => {
+  const grid = await loadPixelGrid(file, VIEW_SAMPLE_WIDTH);
+  const mask = silhouetteMask(grid);
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  mask.forEach((filled, i) => {
+    if (!filled) return;
+    const x = i % grid.width;
+    const y = Math.floor(i / grid.width);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+  if (!Number.isFinite(minX)) {
+    throw new Error(`Couldn't find a subject in ${file.name}. Try a photo with a plain background.`);
+  }
+
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const cropped: boolean[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (minY + y) * grid.width + (minX + x);
+      data.set(grid.data.subarray(src * 4, src * 4 + 4), (y * width + x) * 4);
+      cropped.push(mask[src]);
+    }
+  }
+  return { width, height, mask: cropped, grid: { width, height, data } };
+};
+
+/**
+ * Samples a silhouette at normalised coordinates (0..1, origin top-left).
+ */
+const sample = (s: Silhouette, u: number, v: number): { filled: boolean, color: string } => {
+  const x = Math.min(s.width - 1, Math.floor(u * s.width));
+  const y = Math.min(s.height - 1, Math.floor(v * s.height));
+  const [r, g, b] = pixelAt(s.grid, x, y);
+  return { filled: s.mask[y * s.width + x], color: rgbToHex([r, g, b]) };
+};
+
+/**
+ * Visual hull: a voxel survives only if it falls inside every view's silhouette.
+ * Each surface voxel is coloured from the first view that can see it.
+ */
+export const carveViews = (views: Partial<Record<ImageView, Silhouette>>, settings: GenerationSettings["offline"]): GeneratedBuild => {
+  const { front, side, top, back } = views;
+  const reference = front || back;
+  if (!reference) throw new Error("Multi-view generation needs a front or back view");
+
+  // Grid size: width from the settings, height from the front's aspect ratio,
+  // depth from the side view (against height) or else the top view (against width).
+  // Neither goes past the largest baseplate; repair shrinks it to fit the one it goes on
+  const width = Math.min(MAX_BASEPLATE_SIZE, Math.max(4, Math.round(settings.resolution)));
+  const height = Math.max(1, Math.round(width * (reference.height / reference.width) * (BRICK_WIDTH / BRICK_HEIGHT)));
+  const depth = Math.min(MAX_BASEPLATE_SIZE, Math.max(1, Math.round(
+    side ? height * (BRICK_HEIGHT / BRICK_WIDTH) * (side.width / side.height)
+      : top ? width * (top.height / top.width)
+      : settings.maxDepth * 2 - 1
+  )));
+
+  const cells = new Map<string, { x: number, y: number, z: number }>();
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < depth; z++) {
+        // u/v per view; see LabeledImage for which way each camera faces
+        const u = (x + 0.5) / width, v = 1 - (y + 0.5) / height, w = (z + 0.5) / depth;
+        if (front && !sample(front, u, v).filled) continue;
+        if (back && !sample(back, 1 - u, v).filled) continue;
+        if (side && !sample(side, 1 - w, v).filled) continue;
+        if (top && !sample(top, u, w).filled) continue;
+        cells.set(`${x},${y},${z}`, { x, y, z });
+      }
+    }
+  }
+  if (cells.size === 0) {
+    throw new Error("The views don't overlap. Check each photo is labelled with the right side.");
+  }
+
+  const has = (x: number, y: number, z: number) => cells.has(`${x},${y},${z}`);
+  const offsetX = -Math.floor(width / 2);
+  const offsetZ = -Math.floor(depth / 2);
+  const bricks: GeneratedBuild["bricks"] = [];
+
+  cells.forEach(({ x, y, z }) => {
+    const u = (x + 0.5) / width, v = 1 - (y + 0.5) / height, w = (z + 0.5) / depth;
+    let color: string | undefined;
+    if (front && !has(x, y, z + 1)) color = sample(front, u, v).color;
+    else if (back && !has(x, y, z - 1)) color = sample(back, 1 - u, v).color;
+    else if (side && !has(x + 1, y, z)) color = sample(side, 1 - w, v).color;
+    else if (top && !has(x, y + 1, z)) color = sample(top, u, w).color;
+    // Hidden from every view: borrow the front (or back) colour of the column
+    color = color || sample(reference, reference === front ? u : 1 - u, v).color;
+    bricks.push({ x: x + offsetX, y, z: z + offsetZ, color });
+  });
+
+  return { bricks };
+};
+
+export const generateOffline = async (imageFile: File, settings: GenerationSettings["offline"]): Promise<GeneratedBuild> => {
+  const grid = await loadPixelGrid(imageFile, settings.resolution || DEFAULT_OFFLINE_SETTINGS.resolution);
+  return voxelizeImageData(grid, settings.maxDepth || DEFAULT_OFFLINE_SETTINGS.maxDepth);
+};
+
+export const generateOfflineFromViews = async (
+  views: LabeledImage[],
+  settings: GenerationSettings["offline"],
+  signal?: AbortSignal
+): Promise<GeneratedBuild> => {
+  const silhouettes: Partial<Record<ImageView, Silhouette>> = {};
+  for (const view of views) {
+    signal?.throwIfAborted();
+    silhouettes[view.view] = await loadSilhouette(view.file);
+  }
+  return carveViews(silhouettes, {
+    resolution: settings.resolution || DEFAULT_OFFLINE_SETTINGS.resolution,
+    maxDepth: settings.maxDepth || DEFAULT_OFFLINE_SETTINGS.maxDepth,
+  });
+};
+
+export const offlineProvider: GenerationProvider = {
+  id: "offline",
+  label: "Offline (no network)",
+  description: "Deterministic voxelizer that traces the image's silhouette and colours. No API key needed.",
+  requiresApiKey: false,
+  // Only the reference image is used; there is no language model to read a description
+  supportsTextPrompt: false,
+  generate: (request, settings, options) => {
+    if (request.views && request.views.length > 0) {
+      return generateOfflineFromViews(request.views, settings.offline, options?.signal);
+    }
+    if (!request.image) {
+      return Promise.reject(new Error("The offline generator needs an image. Switch provider in settings to build from a description."));
+    }
+    return generateOffline(request.image, settings.offline);
+  },
+};
@@ -0,0 +1,127 @@
+import { GeneratedBuild, GenerationCallOptions, GenerationProvider, GenerationRequest, GenerationSettings } from "../types";
+import { buildGenerationPrompt, buildResponseSchema, describeView } from "./generationPrompt";
+import { readFileAsDataUrl } from "./fileUtils";
+import { createBrickStreamParser } from "./brickStream";
+import { GenerationError, errorFromStatus } from "./generationErrors";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Pulls the JSON object out of a chat reply. Local models often wrap it in a
+ * ```json fence or add a sentence around it even when asked not to.
+ */
+const extractJson = (content: string): string => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  if (fenced) return fenced[1].trim();
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  return start >= 0 && end > start ? content.slice(start, end + 1) : content;
+};
+
+/**
+ * Reads a server-sent-events chat completion stream, calling `onText` with each content delta.
+ * Returns the full content.
+ */
+const readChatStream = async (response: Response, onText: (text: string) => void): Promise<string> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let content = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+
+    const lines = pending.split("\n");
+    pending = lines.pop() || "";
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, "").trim();
+      if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+      const delta: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onText(delta);
+      }
+    }
+  }
+  return content;
+};
+
+export const generateWithOpenAICompatible = async (
+  request: GenerationRequest,
+  settings: GenerationSettings["openai"],
+  { signal, onPartial }: GenerationCallOptions = {}
+): Promise<GeneratedBuild> => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  if (!settings.model) throw new Error("No model configured for the OpenAI-compatible provider");
+
+  try {
+    const content: object[] = [{ type: "text", text: buildGenerationPrompt(request) }];
+    if (request.views && request.views.length > 0) {
+      for (const [index, view] of request.views.entries()) {
+        content.push({ type: "text", text: describeView(view, index) });
+        content.push({ type: "image_url", image_url: { url: await readFileAsDataUrl(view.file) } });
+      }
+    } else if (request.image) {
+      content.push({ type: "image_url", image_url: { url: await readFileAsDataUrl(request.image) } });
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      signal,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: 0.2,
+        stream: true,
+        messages: [{ role: "user", content }],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "lego_build", schema: buildResponseSchema(request) },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw errorFromStatus(response.status, detail);
+    }
+
+    // Servers that ignore `stream` answer with a plain JSON completion
+    let reply: string | undefined;
+    if ((response.headers.get("content-type") || "").includes("text/event-stream")) {
+      const parser = createBrickStreamParser();
+      const partial: unknown[] = [];
+      reply = await readChatStream(response, text => {
+        const found = parser.push(text);
+        if (found.length > 0 && onPartial) {
+          partial.push(...found);
+          onPartial([...partial]);
+        }
+      });
+    } else {
+      const payload = await response.json();
+      reply = payload?.choices?.[0]?.message?.content;
+    }
+    if (!reply) throw new GenerationError("empty", "No response content from the model server");
+
+    return JSON.parse(extractJson(reply)) as GeneratedBuild;
+
+  } catch (error) {
+    console.error("OpenAI-compatible API Error:", error);
+    throw error;
+  }
+};
+
+export const openAICompatibleProvider: GenerationProvider = {
+  id: "openai",
+  label: "OpenAI-compatible server",
+  description: "Any /v1/chat/completions endpoint with vision support, including local model servers.",
+  requiresApiKey: false,
+  supportsTextPrompt: true,
+  generate: (request, settings, options) => generateWithOpenAICompatible(request, settings.openai, options),
+};
@@ -0,0 +1,95 @@
+import { BrickType, PartOccupancy, PartPrimitive } from "../types";
+import catalogFile from "../data/parts.json";
+
+/**
+ * The part catalog, loaded from data/parts.json. A part gives its footprint and height in
+ * plates, which plates of which cells it fills, where its studs and sockets are and the
+ * shapes it is drawn with. Everything but footprint and height defaults to a plain
+ * rectangular brick, so most parts only need one line.
+ *
+ * Kept free of app imports so constants.ts can re-export the catalog.
+ */
+
+interface PartDefinition {
+  label: string;
+  category: string;
+  sizeX: number;
+  sizeZ: number;
+  height: number;
+  specialType?: BrickType["specialType"];
+  tile?: boolean;
+  occupancy?: PartOccupancy[];
+  studs?: Array<[number, number]>;
+  sockets?: Array<[number, number]>;
+  geometry?: PartPrimitive[];
+  bricklink?: string;
+}
+
+interface PartCatalogFile {
+  categories: string[];
+  parts: PartDefinition[];
+}
+
+// Cells filled at one plate of the part, as [x, z]
+const filledCells = (occupancy: PartOccupancy[], plate: number): Array<[number, number]> => {
+  const cells: Array<[number, number]> = [];
+  occupancy.filter(layer => layer.from <= plate && plate < layer.to).forEach(layer => {
+    layer.mask.forEach((row, z) => {
+      Array.from(row).forEach((char, x) => {
+        if (char === "#" && !cells.some(([cx, cz]) => cx === x && cz === z)) cells.push([x, z]);
+      });
+    });
+  });
+  return cells;
+};
+
+/**
+ * Fills in the defaults and checks each part. A broken catalog is a bug in the app, so
+ * problems throw rather than being reported to the user.
+ */
+export const loadPartCatalog = (file: PartCatalogFile): BrickType[] => {
+  const labels = new Set<string>();
+  return file.parts.map(def => {
+    const problem = (message: string) => new Error(`Part catalog: "${def.label}" ${message}`);
+    if (labels.has(def.label)) throw problem("is listed twice");
+    labels.add(def.label);
+    if (!file.categories.includes(def.category)) throw problem(`has unknown category "${def.category}"`);
+    if (![def.sizeX, def.sizeZ, def.height].every(n => Number.isInteger(n) && n >= 1)) {
+      throw problem("needs a whole-number footprint and height");
+    }
+
+    const occupancy = def.occupancy ?? [{
+      mask: Array.from({ length: def.sizeZ }, () => "#".repeat(def.sizeX)),
+      from: 0,
+      to: def.height,
+    }];
+    occupancy.forEach(layer => {
+      if (layer.mask.length !== def.sizeZ || layer.mask.some(row => row.length !== def.sizeX)) {
+        throw problem("has an occupancy mask that doesn't match its footprint");
+      }
+      if (layer.from < 0 || layer.to > def.height || layer.from >= layer.to) {
+        throw problem("has an occupancy layer outside its height");
+      }
+    });
+
+    return {
+      label: def.label,
+      category: def.category,
+      sizeX: def.sizeX,
+      sizeZ: def.sizeZ,
+      height: def.height,
+      ...(def.specialType ? { specialType: def.specialType } : {}),
+      ...(def.tile ? { tile: true } : {}),
+      occupancy,
+      studs: def.studs ?? filledCells(occupancy, def.height - 1),
+      sockets: def.sockets ?? filledCells(occupancy, 0),
+      geometry: def.geometry ?? [{ shape: "box", from: [0, 0, 0], to: [def.sizeX, def.height, def.sizeZ] }],
+      ...(def.bricklink ? { bricklink: def.bricklink } : {}),
+    };
+  });
+};
+
+// Sidebar order
+export const PART_CATEGORIES: string[] = (catalogFile as PartCatalogFile).categories;
+
+export const BRICK_TYPES: BrickType[] = loadPartCatalog(catalogFile as PartCatalogFile);
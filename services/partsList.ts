@@ -0,0 +1,163 @@
+import { BrickData, BrickColor, PartsListRow } from "../types";
+import { BRICK_TYPES, PALETTE } from "../constants";
+import { findBrickType } from "./brickGeometry";
+import { hexToRgb, nearestColor } from "./colorUtils";
+
+/**
+ * Bill of materials for a build, plus CSV and BrickLink wanted-list (XML) export.
+ */
+
+// BrickLink catalog item numbers from the part catalog, keyed by BRICK_TYPES label
+export const BRICKLINK_ITEMS: Record<string, string> = Object.fromEntries(
+  BRICK_TYPES.flatMap(t => (t.bricklink ? [[t.label, t.bricklink]] : []))
+);
+
+interface BrickLinkColor {
+  id: number;
+  name: string;
+  value: string;
+}
+
+// The first entries are our PALETTE; the rest widen the net for generated colours
+export const BRICKLINK_COLORS: BrickLinkColor[] = [
+  { id: 5, name: "Red", value: BrickColor.RED },
+  { id: 7, name: "Blue", value: BrickColor.BLUE },
+  { id: 6, name: "Green", value: BrickColor.GREEN },
+  { id: 3, name: "Yellow", value: BrickColor.YELLOW },
+  { id: 1, name: "White", value: BrickColor.WHITE },
+  { id: 11, name: "Black", value: BrickColor.BLACK },
+  { id: 4, name: "Orange", value: BrickColor.ORANGE },
+  { id: 24, name: "Purple", value: BrickColor.PURPLE },
+  { id: 86, name: "Light Bluish Gray", value: BrickColor.GREY },
+  { id: 85, name: "Dark Bluish Gray", value: "#6C6E68" },
+  { id: 2, name: "Tan", value: "#E4CD9E" },
+  { id: 69, name: "Dark Tan", value: "#958A73" },
+  { id: 88, name: "Reddish Brown", value: "#582A12" },
+  { id: 59, name: "Dark Red", value: "#720E0F" },
+  { id: 63, name: "Dark Blue", value: "#0A3463" },
+  { id: 42, name: "Medium Blue", value: "#5A93DB" },
+  { id: 80, name: "Dark Green", value: "#184632" },
+  { id: 36, name: "Bright Green", value: "#4B9F4A" },
+  { id: 34, name: "Lime", value: "#BBE90B" },
+  { id: 110, name: "Bright Light Orange", value: "#F8BB3D" },
+  { id: 47, name: "Dark Pink", value: "#C870A0" },
+  { id: 104, name: "Bright Pink", value: "#E4ADC8" },
+  { id: 89, name: "Dark Purple", value: "#3F3691" },
+];
+
+// Colours further than this (RGB distance) from every BrickLink colour are left unmapped
+const APPROX_COLOR_TOLERANCE = 40;
+
+export const toBrickLinkColor = (hex: string): { color: BrickLinkColor, exact: boolean } | null => {
+  const exact = BRICKLINK_COLORS.find(c => c.value.toLowerCase() === hex.toLowerCase());
+  if (exact) return { color: exact, exact: true };
+
+  const target = hexToRgb(hex);
+  const best = nearestColor(hex, BRICKLINK_COLORS, c => c.value);
+  if (!target || !best) return null;
+
+  const rgb = hexToRgb(best.value)!;
+  const distance = Math.hypot(rgb[0] - target[0], rgb[1] - target[1], rgb[2] - target[2]);
+  return distance <= APPROX_COLOR_TOLERANCE ? { color: best, exact: false } : null;
+};
+
+const colorName = (hex: string) =>
+  PALETTE.find(p => p.value.toLowerCase() === hex.toLowerCase())?.name || hex.toUpperCase();
+
+/**
+ * Groups bricks by part and colour. Rows are sorted by part label, then by count.
+ */
+export const buildPartsList = (bricks: BrickData[]): PartsListRow[] => {
+  const rows = new Map<string, PartsListRow>();
+
+  bricks.forEach(brick => {
+    const type = findBrickType(brick);
+    const label = type?.label || `${brick.sizeX || 1}x${brick.sizeZ || 1}${brick.specialType ? ` ${brick.specialType}` : ""}`;
+    const color = brick.color.toUpperCase();
+    const key = `${label}|${brick.specialType || ""}|${color}`;
+
+    const existing = rows.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+
+    const brickLinkColor = toBrickLinkColor(color);
+    rows.set(key, {
+      key,
+      label,
+      specialType: brick.specialType,
+      color,
+      colorName: colorName(color),
+      count: 1,
+      brickLinkItemId: type ? BRICKLINK_ITEMS[type.label] ?? null : null,
+      brickLinkColorId: brickLinkColor?.color.id ?? null,
+      brickLinkColorName: brickLinkColor?.color.name ?? null,
+      colorIsApproximate: brickLinkColor ? !brickLinkColor.exact : false,
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    a.label.localeCompare(b.label, undefined, { numeric: true }) || b.count - a.count
+  );
+};
+
+export const isRowMapped = (row: PartsListRow) => row.brickLinkItemId !== null && row.brickLinkColorId !== null;
+
+// ---- CSV ----
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportPartsCsv = (rows: PartsListRow[]): string => {
+  const header = ["Part", "Special Type", "Color", "Hex", "BrickLink Item", "BrickLink Color ID", "BrickLink Color", "Quantity"];
+  const lines = rows.map(row => [
+    row.label,
+    row.specialType,
+    row.colorName,
+    row.color,
+    row.brickLinkItemId,
+    row.brickLinkColorId,
+    row.brickLinkColorName,
+    row.count,
+  ].map(csvCell).join(","));
+  return [header.join(","), ...lines].join("\n") + "\n";
+};
+
+// ---- BrickLink XML ----
+
+/**
+ * BrickLink wanted-list upload format. Rows without an item or colour mapping are skipped.
+ */
+export const exportBrickLinkXml = (rows: PartsListRow[]): { xml: string, skipped: number } => {
+  const merged = new Map<string, { itemId: string, colorId: number, count: number }>();
+  let skipped = 0;
+
+  rows.forEach(row => {
+    if (!isRowMapped(row)) {
+      skipped += row.count;
+      return;
+    }
+    // Several hex shades can snap to the same BrickLink colour
+    const key = `${row.brickLinkItemId}|${row.brickLinkColorId}`;
+    const entry = merged.get(key);
+    if (entry) entry.count += row.count;
+    else merged.set(key, { itemId: row.brickLinkItemId!, colorId: row.brickLinkColorId!, count: row.count });
+  });
+
+  const items = Array.from(merged.values()).map(item => [
+    "  <ITEM>",
+    "    <ITEMTYPE>P</ITEMTYPE>",
+    `    <ITEMID>${item.itemId}</ITEMID>`,
+    `    <COLOR>${item.colorId}</COLOR>`,
+    `    <MINQTY>${item.count}</MINQTY>`,
+    "  </ITEM>",
+  ].join("\n"));
+
+  return {
+    xml: ["<INVENTORY>", ...items, "</INVENTORY>", ""].join("\n"),
+    skipped,
+  };
+};
@@ -0,0 +1,81 @@
+import { Baseplate, BrickData } from "../types";
+import { getBrickCells } from "./brickGeometry";
+import { isOnBaseplates } from "./baseplates";
+import { SpatialIndex, createCellOwners } from "./spatialIndex";
+
+/**
+ * Checks whether parts can go where someone wants to put them. Building, moving and
+ * importing all go through here, so the ghost preview and the board agree on what fits.
+ */
+
+export type PlacementProblem = "below-ground" | "out-of-bounds" | "overlap" | "unsupported";
+
+export interface PlacementIssue {
+  brick: BrickData;
+  problem: PlacementProblem;
+  message: string;
+  // For overlaps: the part it runs into, and the first [x, plate, z] cell they share
+  other?: BrickData;
+  cell?: [number, number, number];
+}
+
+export interface PlacementOptions {
+  // Parts must sit on the baseplate or click onto a part already there
+  requireSupport?: boolean;
+  // Every cell must be over one of these. Left out for imported models, which may be
+  // bigger than the board; they are shown as they are
+  baseplates?: Baseplate[];
+}
+
+/**
+ * Every problem with adding `candidates` to the parts in `existing`, at most one per
+ * candidate: below the ground first, then off the board, then overlapping a part that is
+ * already there (or an earlier candidate). Support is checked for the candidates as a
+ * whole, since a lifted group holds itself together.
+ */
+export const checkPlacement = (
+  candidates: BrickData[],
+  existing: SpatialIndex,
+  { requireSupport = false, baseplates }: PlacementOptions = {}
+): PlacementIssue[] => {
+  const issues: PlacementIssue[] = [];
+  // Earlier candidates, which later ones mustn't overlap either
+  const placed = createCellOwners();
+  const partAt = (x: number, y: number, z: number) => existing.brickAt(x, y, z) || placed.get(x, y, z);
+
+  candidates.forEach(brick => {
+    if (brick.y < 0) {
+      issues.push({ brick, problem: "below-ground", message: "Below the baseplate" });
+      return;
+    }
+    const cells = getBrickCells(brick);
+    if (baseplates && cells.some(([x, , z]) => !isOnBaseplates(baseplates, x, z))) {
+      issues.push({ brick, problem: "out-of-bounds", message: "Sticks out past the edge of the baseplate" });
+      return;
+    }
+    const hit = cells.find(([x, y, z]) => partAt(x, y, z));
+    if (hit) {
+      issues.push({ brick, problem: "overlap", message: "Overlaps another part", other: partAt(...hit), cell: hit });
+      return;
+    }
+    cells.forEach(([x, y, z]) => placed.set(x, y, z, brick));
+  });
+
+  if (requireSupport && candidates.length > 0 && issues.length === 0 && !isSupported(candidates, existing)) {
+    issues.push({ brick: candidates[0], problem: "unsupported", message: "Needs to sit on the baseplate or click onto another part" });
+  }
+  return issues;
+};
+
+/**
+ * The first problem with a placement, or null when it fits.
+ */
+export const validatePlacement = (
+  candidates: BrickData[],
+  existing: SpatialIndex,
+  options: PlacementOptions = {}
+): PlacementIssue | null => checkPlacement(candidates, existing, options)[0] || null;
+
+// True when any candidate rests on the ground or connects through studs to an existing part
+const isSupported = (candidates: BrickData[], existing: SpatialIndex): boolean =>
+  candidates.some(b => b.y === 0 || existing.bricksUnder(b).length > 0 || existing.bricksOnTop(b).length > 0);
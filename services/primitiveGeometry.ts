@@ -0,0 +1,46 @@
+import { BoxGeometry, BufferGeometry, CylinderGeometry } from "three";
+import { BrickPrimitive } from "./brickGeometry";
+
+/**
+ * three.js geometry for one brick primitive, centred on its own origin. Shared by the board,
+ * the exporters and the instruction renderer so every view draws parts the same way.
+ */
+export const createPrimitiveGeometry = (primitive: BrickPrimitive): BufferGeometry => {
+  if (primitive.shape === "cylinder") {
+    const [radius, height, segments] = primitive.args;
+    return new CylinderGeometry(radius, radius, height, segments);
+  }
+
+  const [width, height, depth, edge] = primitive.args;
+  const box = new BoxGeometry(width, height, depth);
+  if (primitive.shape === "box") return box;
+
+  // Wedge: drop the top edge on the -z side down to `edge` above the bottom
+  const positions = box.getAttribute("position");
+  for (let i = 0; i < positions.count; i++) {
+    if (positions.getY(i) > 0 && positions.getZ(i) < 0) positions.setY(i, -height / 2 + edge);
+  }
+  const wedge = box.toNonIndexed();
+  box.dispose();
+  wedge.computeVertexNormals();
+  return wedge;
+};
+
+// Primitives with the same key draw with the same geometry
+export const sharedGeometryKey = (primitive: BrickPrimitive) => `${primitive.shape}:${primitive.args.join(",")}`;
+
+const sharedGeometry = new Map<string, BufferGeometry>();
+
+/**
+ * Cached geometry for drawing on the board; shared between bricks, so never dispose it.
+ * Cylinders keep three.js's groups (side, top, bottom) so studs can carry the logo on top.
+ */
+export const getSharedGeometry = (primitive: BrickPrimitive): BufferGeometry => {
+  const key = sharedGeometryKey(primitive);
+  let geometry = sharedGeometry.get(key);
+  if (!geometry) {
+    geometry = createPrimitiveGeometry(primitive);
+    sharedGeometry.set(key, geometry);
+  }
+  return geometry;
+};
@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from "uuid";
+import { Baseplate, BrickData, ProjectRecord, ProjectSummary, AutosaveRecord } from "../types";
+import { PLATES_PER_BRICK } from "../constants";
+import { createDefaultBaseplates } from "./baseplates";
+
+const DB_NAME = "brickgenius";
+const DB_VERSION = 3;
+const PROJECTS_STORE = "projects";
+const AUTOSAVE_STORE = "autosave";
+const AUTOSAVE_KEY = "current";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the IndexedDB database. The connection is shared.
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        const store = db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+        db.createObjectStore(AUTOSAVE_STORE);
+      }
+      if (event.oldVersion >= 1 && event.oldVersion < DB_VERSION) {
+        const tx = request.transaction!;
+        upgradeRecords(tx.objectStore(PROJECTS_STORE), event.oldVersion);
+        upgradeRecords(tx.objectStore(AUTOSAVE_STORE), event.oldVersion);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Rewrites every record in a store saved by database version `oldVersion` in the current
+ * shape, one version step at a time. Runs inside the upgrade transaction, which stays open
+ * until the cursor is done.
+ */
+const upgradeRecords = (store: IDBObjectStore, oldVersion: number) => {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    let record = cursor.value as { bricks?: BrickData[], baseplates?: Baseplate[] } | undefined;
+    // v2 measures brick y in plates instead of brick layers
+    if (oldVersion < 2 && Array.isArray(record?.bricks)) {
+      record = { ...record, bricks: record.bricks.map(b => ({ ...b, y: b.y * PLATES_PER_BRICK })) };
+    }
+    // v3 stores each project's baseplates; older builds get the board they were made on
+    if (oldVersion < 3 && record && !Array.isArray(record.baseplates)) {
+      record = { ...record, baseplates: createDefaultBaseplates() };
+    }
+    if (record !== cursor.value) cursor.update(record);
+    cursor.continue();
+  };
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Strip transient fields (lift offsets) before persisting
+const cleanBricks = (bricks: BrickData[]): BrickData[] =>
+  bricks.map(({ offsetX, offsetY, offsetZ, ...rest }) => rest);
+
+const toSummary = ({ bricks, baseplates, ...rest }: ProjectRecord): ProjectSummary => ({
+  ...rest,
+  brickCount: bricks.length,
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<ProjectRecord[]>(PROJECTS_STORE, "readonly", store => store.getAll());
+  return records
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<ProjectRecord | undefined> =>
+  runRequest<ProjectRecord | undefined>(PROJECTS_STORE, "readonly", store => store.get(id));
+
+/**
+ * Creates or overwrites a project. Pass no id to create a new one ("Save As").
+ */
+export const saveProject = async (project: {
+  id?: string;
+  name: string;
+  bricks: BrickData[];
+  baseplates: Baseplate[];
+  thumbnail?: string;
+}): Promise<ProjectRecord> => {
+  const now = Date.now();
+  const existing = project.id ? await getProject(project.id) : undefined;
+
+  const record: ProjectRecord = {
+    id: existing?.id || uuidv4(),
+    name: project.name.trim() || "Untitled Build",
+    bricks: cleanBricks(project.bricks),
+    baseplates: project.baseplates,
+    thumbnail: project.thumbnail ?? existing?.thumbnail,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await runRequest(PROJECTS_STORE, "readwrite", store => store.put(record));
+  return record;
+};
+
+export const renameProject = async (id: string, name: string): Promise<ProjectRecord> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error(`Project ${id} not found`);
+
+  const record: ProjectRecord = { ...existing, name: name.trim() || existing.name, updatedAt: Date.now() };
+  await runRequest(PROJECTS_STORE, "readwrite", store => store.put(record));
+  return record;
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const existing = await getProject(id);
+  if (!existing) throw new Error(`Project ${id} not found`);
+
+  return saveProject({
+    name: `${existing.name} (copy)`,
+    bricks: existing.bricks,
+    baseplates: existing.baseplates,
+    thumbnail: existing.thumbnail,
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest(PROJECTS_STORE, "readwrite", store => store.delete(id));
+};
+
+// ---- Autosave / crash recovery ----
+
+export const writeAutosave = async (autosave: Omit<AutosaveRecord, "savedAt">): Promise<void> => {
+  const record: AutosaveRecord = {
+    ...autosave,
+    bricks: cleanBricks(autosave.bricks),
+    savedAt: Date.now(),
+  };
+  await runRequest(AUTOSAVE_STORE, "readwrite", store => store.put(record, AUTOSAVE_KEY));
+};
+
+export const readAutosave = (): Promise<AutosaveRecord | undefined> =>
+  runRequest<AutosaveRecord | undefined>(AUTOSAVE_STORE, "readonly", store => store.get(AUTOSAVE_KEY));
+
+export const clearAutosave = async (): Promise<void> => {
+  await runRequest(AUTOSAVE_STORE, "readwrite", store => store.delete(AUTOSAVE_KEY));
+};
+
+/**
+ * Grabs a small JPEG snapshot of the 3D canvas for the library list.
+ * The canvas must be created with preserveDrawingBuffer for this to capture anything.
+ */
+export const captureThumbnail = (canvas: HTMLCanvasElement | null, width = 192): string | undefined => {
+  if (!canvas || canvas.width === 0 || canvas.height === 0) return undefined;
+
+  try {
+    const height = Math.round(width * (canvas.height / canvas.width));
+    const thumb = document.createElement("canvas");
+    thumb.width = width;
+    thumb.height = height;
+    const ctx = thumb.getContext("2d");
+    if (!ctx) return undefined;
+    ctx.drawImage(canvas, 0, 0, width, height);
+    return thumb.toDataURL("image/jpeg", 0.8);
+  } catch (e) {
+    console.warn("Thumbnail capture failed", e);
+    return undefined;
+  }
+};
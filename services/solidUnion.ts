@@ -0,0 +1,277 @@
+import { Vec3 } from "./brickGeometry";
+
+/**
+ * Boolean union for the print export. Every piece is a convex solid (a cell, a wedge, a
+ * cylinder) or the voxel shell, whose faces are already fused. Faces are cut away where
+ * they run inside another piece, faces lying on one another are kept once, and the pieces
+ * are stitched at every vertex, so the result is closed and each edge is shared by exactly
+ * two triangles.
+ */
+
+// A flat convex polygon, counter-clockwise seen from outside
+export type Polygon = Vec3[];
+
+interface Plane {
+  normal: Vec3;
+  w: number; // normal · p for any point p on the plane
+}
+
+export interface ConvexSolid {
+  faces: Polygon[];
+  planes: Plane[];
+  min: Vec3;
+  max: Vec3;
+}
+
+// Points closer than this to a plane lie on it
+const PLANE_EPSILON = 1e-6;
+// Vertices closer than this are the same vertex
+const WELD_EPSILON = 1e-5;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+// Newell's method: twice the polygon's area along its normal
+const areaVector = (polygon: Polygon): Vec3 => {
+  const n: Vec3 = [0, 0, 0];
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    n[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    n[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    n[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  });
+  return n;
+};
+
+const planeOf = (polygon: Polygon): Plane => {
+  const n = areaVector(polygon);
+  const size = length(n);
+  const normal: Vec3 = [n[0] / size, n[1] / size, n[2] / size];
+  return { normal, w: dot(normal, polygon[0]) };
+};
+
+const boundsOf = (points: Vec3[]): { min: Vec3, max: Vec3 } => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  points.forEach(p => p.forEach((v, i) => {
+    min[i] = Math.min(min[i], v);
+    max[i] = Math.max(max[i], v);
+  }));
+  return { min, max };
+};
+
+const overlaps = (a: { min: Vec3, max: Vec3 }, b: { min: Vec3, max: Vec3 }) =>
+  [0, 1, 2].every(i => a.min[i] <= b.max[i] + PLANE_EPSILON && b.min[i] <= a.max[i] + PLANE_EPSILON);
+
+/**
+ * A convex solid from its faces. Faces may be wound either way and may be degenerate (a
+ * wedge whose thin side has no height); they are turned to face away from the centre and
+ * the degenerate ones dropped.
+ */
+export const convexSolid = (faces: Polygon[]): ConvexSolid => {
+  const points = faces.flat();
+  const centre = points.reduce<Vec3>((sum, p) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0])
+    .map(v => v / points.length) as Vec3;
+
+  const kept = faces
+    .map(face => face.filter((p, i) => length(sub(p, face[(i + 1) % face.length])) > WELD_EPSILON))
+    .filter(face => face.length >= 3 && length(areaVector(face)) > WELD_EPSILON * WELD_EPSILON)
+    .map(face => (dot(areaVector(face), sub(face[0], centre)) < 0 ? [...face].reverse() : face));
+
+  return { faces: kept, planes: kept.map(planeOf), ...boundsOf(points) };
+};
+
+export const boxSolid = (min: Vec3, max: Vec3): ConvexSolid => {
+  const corner = (x: number, y: number, z: number): Vec3 => [[min[0], max[0]][x], [min[1], max[1]][y], [min[2], max[2]][z]];
+  return convexSolid([
+    [corner(0, 0, 0), corner(0, 1, 0), corner(0, 1, 1), corner(0, 0, 1)],
+    [corner(1, 0, 0), corner(1, 1, 0), corner(1, 1, 1), corner(1, 0, 1)],
+    [corner(0, 0, 0), corner(1, 0, 0), corner(1, 0, 1), corner(0, 0, 1)],
+    [corner(0, 1, 0), corner(1, 1, 0), corner(1, 1, 1), corner(0, 1, 1)],
+    [corner(0, 0, 0), corner(1, 0, 0), corner(1, 1, 0), corner(0, 1, 0)],
+    [corner(0, 0, 1), corner(1, 0, 1), corner(1, 1, 1), corner(0, 1, 1)],
+  ]);
+};
+
+/**
+ * Splits a convex polygon by a plane into the parts in front of it (outside) and behind it,
+ * or reports that it lies in the plane.
+ */
+const splitPolygon = (polygon: Polygon, plane: Plane): { front: Polygon | null, back: Polygon | null } | "coplanar" => {
+  const distances = polygon.map(p => dot(plane.normal, p) - plane.w);
+  if (distances.every(d => Math.abs(d) < PLANE_EPSILON)) return "coplanar";
+  if (distances.every(d => d > -PLANE_EPSILON)) return { front: polygon, back: null };
+  if (distances.every(d => d < PLANE_EPSILON)) return { front: null, back: polygon };
+
+  const front: Polygon = [];
+  const back: Polygon = [];
+  polygon.forEach((a, i) => {
+    const j = (i + 1) % polygon.length;
+    const b = polygon[j];
+    const da = distances[i];
+    const db = distances[j];
+    if (da > -PLANE_EPSILON) front.push(a);
+    if (da < PLANE_EPSILON) back.push(a);
+    if ((da > PLANE_EPSILON && db < -PLANE_EPSILON) || (da < -PLANE_EPSILON && db > PLANE_EPSILON)) {
+      const crossing = lerp(a, b, da / (da - db));
+      front.push(crossing);
+      back.push(crossing);
+    }
+  });
+  return { front: front.length >= 3 ? front : null, back: back.length >= 3 ? back : null };
+};
+
+/**
+ * The parts of a polygon outside a convex solid. A part lying on one of the solid's faces
+ * and facing the same way stays when `keepCoplanar` is set, so of two pieces sharing a face
+ * exactly one keeps it; a part against a face turned the other way is inside the union.
+ */
+const clipOutside = (polygon: Polygon, normal: Vec3, solid: ConvexSolid, keepCoplanar: boolean): Polygon[] => {
+  const outside: Polygon[] = [];
+  let rest = polygon;
+  let onFace: "same" | "opposite" | null = null;
+  for (const plane of solid.planes) {
+    const split = splitPolygon(rest, plane);
+    if (split === "coplanar") {
+      onFace = dot(normal, plane.normal) > 0 ? "same" : "opposite";
+      continue;
+    }
+    if (split.front) outside.push(split.front);
+    if (!split.back) return outside;
+    rest = split.back;
+  }
+  if (onFace === "same" && keepCoplanar) outside.push(rest);
+  return outside;
+};
+
+const clipAll = (polygons: Polygon[], normal: Vec3, solids: ConvexSolid[], keepCoplanar: (solid: ConvexSolid) => boolean) =>
+  solids.reduce((fragments, solid) => {
+    const box = boundsOf(fragments.flat());
+    if (fragments.length === 0 || !overlaps(box, solid)) return fragments;
+    return fragments.flatMap(fragment => (overlaps(boundsOf(fragment), solid)
+      ? clipOutside(fragment, normal, solid, keepCoplanar(solid))
+      : [fragment]));
+  }, polygons);
+
+// Buckets of a uniform grid, for finding what lies near a point or box
+const BUCKET_SIZE = 1;
+const bucketRange = (min: Vec3, max: Vec3) => [0, 1, 2].map(i => [
+  Math.floor((min[i] - WELD_EPSILON) / BUCKET_SIZE), Math.floor((max[i] + WELD_EPSILON) / BUCKET_SIZE),
+]);
+const bucketKey = (p: Vec3) => p.map(v => Math.floor(v / BUCKET_SIZE)).join();
+const forEachBucket = (min: Vec3, max: Vec3, visit: (key: string) => void) => {
+  const [[x0, x1], [y0, y1], [z0, z1]] = bucketRange(min, max);
+  for (let x = x0; x <= x1; x++) for (let y = y0; y <= y1; y++) for (let z = z0; z <= z1; z++) visit(`${x},${y},${z}`);
+};
+
+/**
+ * Triangulates polygons that meet edge to edge once their vertices are welded and every
+ * vertex lying along another polygon's edge is added to that edge. Polygons stay convex, so
+ * each is a fan of triangles.
+ */
+const stitch = (polygons: Polygon[]): number[] => {
+  const vertices: Vec3[] = [];
+  const buckets = new Map<string, number[]>();
+  const weld = (p: Vec3): number => {
+    let found = -1;
+    forEachBucket(p, p, key => {
+      if (found >= 0) return;
+      found = buckets.get(key)?.find(i => length(sub(vertices[i], p)) < WELD_EPSILON) ?? -1;
+    });
+    if (found >= 0) return found;
+    vertices.push(p);
+    const key = bucketKey(p);
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(vertices.length - 1);
+    return vertices.length - 1;
+  };
+
+  const welded = polygons
+    .map(polygon => ({ normal: areaVector(polygon), indices: polygon.map(weld) }))
+    .map(({ normal, indices }) => ({ normal, indices: indices.filter((v, i) => v !== indices[(i + 1) % indices.length]) }))
+    .filter(({ normal, indices }) => indices.length >= 3 && length(normal) > WELD_EPSILON * WELD_EPSILON);
+
+  const positions: number[] = [];
+  welded.forEach(({ normal, indices }) => {
+    // Vertices of other polygons along each edge, in order
+    const ring: number[] = [];
+    indices.forEach((a, i) => {
+      const b = indices[(i + 1) % indices.length];
+      ring.push(a);
+      const pa = vertices[a];
+      const edge = sub(vertices[b], pa);
+      const edgeLength = dot(edge, edge);
+      const between: Array<[number, number]> = [];
+      const { min, max } = boundsOf([pa, vertices[b]]);
+      forEachBucket(min, max, key => buckets.get(key)?.forEach(v => {
+        if (v === a || v === b) return;
+        const offset = sub(vertices[v], pa);
+        const t = dot(offset, edge) / edgeLength;
+        if (t <= 0 || t >= 1) return;
+        if (length(sub(offset, [edge[0] * t, edge[1] * t, edge[2] * t])) < WELD_EPSILON) between.push([t, v]);
+      }));
+      between.sort((p, q) => p[0] - q[0]).forEach(([, v]) => ring.push(v));
+    });
+
+    // A fan from the first corner, or from the centre when vertices run along a side (a
+    // fan from a corner would give flat triangles there)
+    const points = ring.map(v => vertices[v]);
+    const straight = points.some((p, i) => {
+      const prev = points[(i + points.length - 1) % points.length];
+      const next = points[(i + 1) % points.length];
+      return dot(cross(sub(p, prev), sub(next, p)), normal) <= WELD_EPSILON * WELD_EPSILON * length(normal);
+    });
+    const apex: Vec3 = straight
+      ? points.reduce<Vec3>((sum, p) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0]).map(v => v / points.length) as Vec3
+      : points[0];
+    points.forEach((p, i) => {
+      const next = points[(i + 1) % points.length];
+      if (!straight && (i === 0 || i === points.length - 1)) return;
+      positions.push(...apex, ...p, ...next);
+    });
+  });
+
+  return positions;
+};
+
+/**
+ * The union of a fused shell and convex solids, as triangle positions. `shellCells` gives
+ * the convex cells of the shell overlapping a box, so solids are cut where they run into
+ * it. Where pieces share a face the shell keeps it, then the solid listed first.
+ */
+export const unionSolids = (
+  shell: Polygon[],
+  shellCells: (min: Vec3, max: Vec3) => ConvexSolid[],
+  solids: ConvexSolid[]
+): number[] => {
+  // Solids by bucket, so each face only meets the solids near it
+  const nearby = new Map<string, number[]>();
+  solids.forEach((solid, index) => forEachBucket(solid.min, solid.max, key => {
+    if (!nearby.has(key)) nearby.set(key, []);
+    nearby.get(key)!.push(index);
+  }));
+  const solidsNear = (polygon: Polygon, except = -1): ConvexSolid[] => {
+    const { min, max } = boundsOf(polygon);
+    const found = new Set<number>();
+    forEachBucket(min, max, key => nearby.get(key)?.forEach(i => found.add(i)));
+    found.delete(except);
+    return Array.from(found).sort((a, b) => a - b).map(i => solids[i]);
+  };
+  const rank = new Map(solids.map((solid, index) => [solid, index]));
+
+  const surface: Polygon[] = [];
+  shell.forEach(face => {
+    surface.push(...clipAll([face], areaVector(face), solidsNear(face), () => true));
+  });
+  solids.forEach((solid, index) => solid.faces.forEach(face => {
+    const normal = areaVector(face);
+    const { min, max } = boundsOf(face);
+    const outsideShell = clipAll([face], normal, shellCells(min, max), () => false);
+    surface.push(...clipAll(outsideShell, normal, solidsNear(face, index), other => index < rank.get(other)!));
+  }));
+
+  return stitch(surface);
+};
@@ -0,0 +1,136 @@
+import { BrickData } from "../types";
+import { getBrickCells, getBrickHeight, getSocketCells, getStudCells } from "./brickGeometry";
+
+/**
+ * Which part fills each stud cell and plate, and which studs and sockets sit where, so
+ * collision and connection questions don't scan the whole build. The board keeps one index
+ * and syncs it with each history step; only parts that changed are re-indexed.
+ */
+
+export interface SpatialIndex {
+  readonly size: number;
+  has: (id: string) => boolean;
+  get: (id: string) => BrickData | undefined;
+  add: (brick: BrickData) => void;
+  remove: (id: string) => void;
+  // Brings the index in line with `bricks`, touching only parts that were added, removed or replaced
+  sync: (bricks: BrickData[]) => void;
+  // The part filling a stud cell at a plate, if any
+  brickAt: (x: number, plate: number, z: number) => BrickData | undefined;
+  // Parts clicked onto the studs of `brick`, and parts whose studs `brick` is clicked onto
+  bricksOnTop: (brick: BrickData) => BrickData[];
+  bricksUnder: (brick: BrickData) => BrickData[];
+}
+
+// Small integers hash far faster than strings or large numbers, so cells are looked up by
+// plate and then by x and z packed together (within ±16384 studs, far beyond any board)
+const AXIS_SPAN = 32768;
+const columnKey = (x: number, z: number) => (x + AXIS_SPAN / 2) * AXIS_SPAN + z + AXIS_SPAN / 2;
+type Cell = [plate: number, column: number];
+const toCell = (x: number, plate: number, z: number): Cell => [plate, columnKey(x, z)];
+
+type CellMap = Map<number, Map<number, BrickData>>;
+const getAt = (map: CellMap, [plate, column]: Cell) => map.get(plate)?.get(column);
+// Same lookup without building a Cell, for the hot paths
+const lookup = (map: CellMap, x: number, plate: number, z: number) => map.get(plate)?.get(columnKey(x, z));
+const setAt = (map: CellMap, [plate, column]: Cell, brick: BrickData) => {
+  let layer = map.get(plate);
+  if (!layer) {
+    layer = new Map();
+    map.set(plate, layer);
+  }
+  layer.set(column, brick);
+};
+// Only clears cells `brick` still owns; a part added over it may have taken them
+const clearAt = (map: CellMap, [plate, column]: Cell, brick: BrickData) => {
+  const layer = map.get(plate);
+  if (layer?.get(column) !== brick) return;
+  layer.delete(column);
+  if (layer.size === 0) map.delete(plate);
+};
+
+/**
+ * Just which part fills each cell, for short-lived checks that never look at connections
+ * or remove anything.
+ */
+export const createCellOwners = () => {
+  const owners: CellMap = new Map();
+  return {
+    get: (x: number, plate: number, z: number) => lookup(owners, x, plate, z),
+    set: (x: number, plate: number, z: number, brick: BrickData) => setAt(owners, toCell(x, plate, z), brick),
+  };
+};
+
+// Cells in the maps below are only ever filled by one part at a time, so each maps to one
+// part: a stud is keyed by the plate above it, a socket by the plate it starts at
+interface Entry {
+  brick: BrickData;
+  cells: Cell[];
+  studs: Cell[];
+  sockets: Cell[];
+}
+
+export const createSpatialIndex = (bricks: BrickData[] = []): SpatialIndex => {
+  const entries = new Map<string, Entry>();
+  const cells: CellMap = new Map();
+  const studs: CellMap = new Map();
+  const sockets: CellMap = new Map();
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entry.cells.forEach(cell => clearAt(cells, cell, entry.brick));
+    entry.studs.forEach(cell => clearAt(studs, cell, entry.brick));
+    entry.sockets.forEach(cell => clearAt(sockets, cell, entry.brick));
+    entries.delete(id);
+  };
+
+  const add = (brick: BrickData) => {
+    remove(brick.id);
+    const top = brick.y + getBrickHeight(brick);
+    const entry: Entry = {
+      brick,
+      cells: getBrickCells(brick).map(([x, y, z]) => toCell(x, y, z)),
+      studs: getStudCells(brick).map(([x, z]) => toCell(x, top, z)),
+      sockets: getSocketCells(brick).map(([x, z]) => toCell(x, brick.y, z)),
+    };
+    entry.cells.forEach(cell => setAt(cells, cell, brick));
+    entry.studs.forEach(cell => setAt(studs, cell, brick));
+    entry.sockets.forEach(cell => setAt(sockets, cell, brick));
+    entries.set(brick.id, entry);
+  };
+
+  const sync = (next: BrickData[]) => {
+    const ids = new Set(next.map(b => b.id));
+    Array.from(entries.keys()).forEach(id => !ids.has(id) && remove(id));
+    // History steps share unchanged brick objects, so identity tells what changed
+    next.forEach(b => entries.get(b.id)?.brick !== b && add(b));
+  };
+
+  // Parts found at `keys`, each once
+  const partsAt = (map: CellMap, at: Cell[]) => {
+    const found: BrickData[] = [];
+    at.forEach(cell => {
+      const brick = getAt(map, cell);
+      if (brick && !found.includes(brick)) found.push(brick);
+    });
+    return found;
+  };
+
+  bricks.forEach(add);
+
+  return {
+    get size() { return entries.size; },
+    has: id => entries.has(id),
+    get: id => entries.get(id)?.brick,
+    add,
+    remove,
+    sync,
+    brickAt: (x, plate, z) => lookup(cells, x, plate, z),
+    bricksOnTop: brick => {
+      const top = brick.y + getBrickHeight(brick);
+      return partsAt(sockets, getStudCells(brick).map(([x, z]) => toCell(x, top, z)));
+    },
+    bricksUnder: brick => partsAt(studs, getSocketCells(brick).map(([x, z]) => toCell(x, brick.y, z))),
+  };
+};
@@ -0,0 +1,133 @@
+import {
+  AmbientLight, Box3, BufferGeometry, Color, DirectionalLight, EdgesGeometry,
+  LineBasicMaterial, LineSegments, Mesh, MeshStandardMaterial, PerspectiveCamera, Scene, Sphere, Vector3, WebGLRenderer
+} from "three";
+import { BrickData } from "../types";
+import { BRICK_WIDTH, PLATE_HEIGHT, BRICK_DEPTH } from "../constants";
+import { BrickPrimitive, getBrickCenter, getBrickHeight, getBrickPrimitives } from "./brickGeometry";
+import { createPrimitiveGeometry } from "./primitiveGeometry";
+
+/**
+ * Offscreen renderer for instruction steps: earlier parts are drawn faded,
+ * parts added in the step are drawn in full colour with a highlight outline.
+ */
+
+const HIGHLIGHT_COLOR = "#F97316";
+const FADE_TOWARDS = new Color("#FFFFFF");
+const CAMERA_FOV = 35;
+
+export interface StepRenderer {
+  render: (previous: BrickData[], added: BrickData[]) => string;
+  dispose: () => void;
+}
+
+/**
+ * Creates a renderer framed on `allBricks`, so every step is shown from the same viewpoint.
+ */
+export const createStepRenderer = (allBricks: BrickData[], width = 640, height = 480): StepRenderer => {
+  const renderer = new WebGLRenderer({ antialias: true, preserveDrawingBuffer: true, alpha: true });
+  renderer.setSize(width, height, false);
+  renderer.setPixelRatio(1);
+  renderer.setClearColor(0xffffff, 0);
+
+  // Frame the finished model
+  const bounds = new Box3();
+  allBricks.forEach(b => {
+    bounds.expandByPoint(new Vector3(
+      (b.x - 0.5) * BRICK_WIDTH, b.y * PLATE_HEIGHT, (b.z - 0.5) * BRICK_DEPTH
+    ));
+    bounds.expandByPoint(new Vector3(
+      (b.x + (b.sizeX || 1) - 0.5) * BRICK_WIDTH, (b.y + getBrickHeight(b)) * PLATE_HEIGHT, (b.z + (b.sizeZ || 1) - 0.5) * BRICK_DEPTH
+    ));
+  });
+  const sphere = bounds.isEmpty() ? new Sphere(new Vector3(), 2) : bounds.getBoundingSphere(new Sphere());
+  const camera = new PerspectiveCamera(CAMERA_FOV, width / height, 0.1, 1000);
+  const distance = (Math.max(sphere.radius, 1) / Math.sin((CAMERA_FOV * Math.PI) / 360)) * 1.05;
+  camera.position.copy(sphere.center).add(new Vector3(1, 0.9, 1).normalize().multiplyScalar(distance));
+  camera.lookAt(sphere.center);
+
+  // Geometries and materials are shared between steps
+  const geometries = new Map<string, BufferGeometry>();
+  const materials = new Map<string, MeshStandardMaterial>();
+  const edgeMaterial = new LineBasicMaterial({ color: HIGHLIGHT_COLOR });
+  const edgeGeometries = new Map<string, EdgesGeometry>();
+
+  const geometryFor = (primitive: BrickPrimitive) => {
+    const key = `${primitive.shape}:${primitive.args.join(",")}`;
+    let geometry = geometries.get(key);
+    if (!geometry) {
+      geometry = createPrimitiveGeometry(primitive);
+      geometries.set(key, geometry);
+    }
+    return { key, geometry };
+  };
+
+  const materialFor = (color: string, faded: boolean) => {
+    const key = `${color}:${faded}`;
+    let material = materials.get(key);
+    if (!material) {
+      const base = new Color(color);
+      material = new MeshStandardMaterial({
+        color: faded ? base.lerp(FADE_TOWARDS, 0.6) : base,
+        roughness: 0.35,
+        metalness: 0.05,
+        transparent: faded,
+        opacity: faded ? 0.55 : 1,
+      });
+      materials.set(key, material);
+    }
+    return material;
+  };
+
+  const render = (previous: BrickData[], added: BrickData[]): string => {
+    const scene = new Scene();
+    scene.add(new AmbientLight(0xffffff, 1.1));
+    const sun = new DirectionalLight(0xffffff, 1.6);
+    sun.position.set(10, 20, 12);
+    scene.add(sun);
+
+    const addBrick = (brick: BrickData, highlighted: boolean) => {
+      const center = getBrickCenter(brick);
+      getBrickPrimitives(brick, { studs: true }).forEach(primitive => {
+        const { key, geometry } = geometryFor(primitive);
+        const mesh = new Mesh(geometry, materialFor(primitive.color, !highlighted));
+        mesh.position.set(
+          center[0] + primitive.position[0],
+          center[1] + primitive.position[1],
+          center[2] + primitive.position[2]
+        );
+        mesh.rotation.set(...primitive.rotation);
+        scene.add(mesh);
+
+        if (highlighted && primitive.role === "body") {
+          let edges = edgeGeometries.get(key);
+          if (!edges) {
+            edges = new EdgesGeometry(geometry);
+            edgeGeometries.set(key, edges);
+          }
+          const outline = new LineSegments(edges, edgeMaterial);
+          outline.position.copy(mesh.position);
+          outline.rotation.copy(mesh.rotation);
+          scene.add(outline);
+        }
+      });
+    };
+
+    previous.forEach(b => addBrick(b, false));
+    added.forEach(b => addBrick(b, true));
+
+    renderer.render(scene, camera);
+    return renderer.domElement.toDataURL("image/png");
+  };
+
+  const dispose = () => {
+    geometries.forEach(g => g.dispose());
+    edgeGeometries.forEach(g => g.dispose());
+    materials.forEach(m => m.dispose());
+    edgeMaterial.dispose();
+    renderer.dispose();
+    renderer.forceContextLoss();
+  };
+
+  return { render, dispose };
+};
@@ -0,0 +1,42 @@
+import { CanvasTexture, SRGBColorSpace } from "three";
+import { STUD_RADIUS } from "../constants";
+
+/**
+ * The "BRICK GENIUS" lettering on top of each stud, drawn once into a texture for the top
+ * cap of the stud cylinder. It is white apart from the faint letters, so multiplying it
+ * with the brick colour only darkens the lettering.
+ */
+
+const SIZE = 256;
+// Same size and strength as the lettering used to have as text on each stud
+const FONT_SIZE = 0.038;
+const INK_OPACITY = 0.12;
+
+let texture: CanvasTexture | null = null;
+
+export const getStudLogoTexture = (): CanvasTexture => {
+  if (texture) return texture;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, SIZE, SIZE);
+
+  // The cap maps world z to the texture's u and world x to its v, so turning the canvas a
+  // quarter turn makes the lettering read along +x with its top towards -z
+  const pixelsPerUnit = SIZE / (STUD_RADIUS * 2);
+  ctx.translate(SIZE / 2, SIZE / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.font = `${Math.round(FONT_SIZE * pixelsPerUnit)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = `rgba(0, 0, 0, ${INK_OPACITY})`;
+  ctx.fillText("BRICK GENIUS", 0, 0);
+
+  texture = new CanvasTexture(canvas);
+  texture.colorSpace = SRGBColorSpace;
+  texture.anisotropy = 4;
+  return texture;
+};
@@ -13,29 +13,303 @@ export enum BrickColor {
 export interface BrickData {
   id: string;
   x: number;
-  y: number;
+  y: number; // Bottom, in plates above the baseplate (a brick is 3 plates)
   z: number;
   color: string;
   sizeX?: number; // Width in studs (default 1)
   sizeZ?: number; // Depth in studs (default 1)
-  rotation?: number; // Rotation in degrees (0 or 90)
+  rotation?: number; // Rotation in degrees (0, 90, 180 or 270)
   specialType?: 'AXLE' | 'TIRE';
+  height?: number; // Height in plates (default 3, a full brick)
+  tile?: boolean; // Smooth top without studs
+  part?: string; // Catalog label, for parts the footprint alone doesn't identify (slopes, arches…)
   
-  // For lifted groups
+  // For lifted groups (see LiftedGroup)
   offsetX?: number; 
   offsetY?: number; 
   offsetZ?: number;
 }
 
+// Bricks picked up in Move mode. Offsets are relative to the cursor; after quarter turns
+// about `pivot` (the group's centre, in offset units) they can sit on half studs and are
+// rounded when shown or dropped, so turning four times lands exactly where it started.
+export interface LiftedGroup {
+  bricks: BrickData[];
+  anchorId: string;
+  pivot: { x: number; z: number };
+}
+
 export interface GeneratedBuild {
   bricks: Array<Omit<BrickData, 'id'>>;
 }
 
 export type ToolMode = 'VIEW' | 'BUILD' | 'DELETE' | 'MOVE';
 
+export type ExportFormat = 'brick-json' | 'ldraw' | 'gltf' | 'stl' | 'obj';
+
+// ---- Part catalog (data/parts.json) ----
+
+export type PartDirection = '+x' | '-x' | '+z' | '-z';
+export type PartPoint = [number, number, number]; // Studs along x/z from the part's min corner, plates along y
+
+interface PartPrimitiveBase {
+  role?: 'body' | 'axle' | 'tire' | 'rim'; // Default body
+  color?: string; // Fixed colour; default the brick's colour
+}
+
+export type PartPrimitive = PartPrimitiveBase & (
+  | { shape: 'box'; from: PartPoint; to: PartPoint }
+  // Box whose top slopes down towards `thin`, where it is `edge` plates thick; inverted slopes the bottom instead
+  | { shape: 'wedge'; from: PartPoint; to: PartPoint; thin: PartDirection; edge: number; inverted?: boolean }
+  // `length` is in plates along y, studs otherwise
+  | { shape: 'cylinder'; center: PartPoint; radius: number; length: number; axis: 'x' | 'y' | 'z' }
+);
+
+// Plates [from, to) filled under the cells marked '#' in `mask` (one row per z, one character per x)
+export interface PartOccupancy {
+  mask: string[];
+  from: number;
+  to: number;
+}
+
 export interface BrickType {
   label: string;
+  category: string;
   sizeX: number;
   sizeZ: number;
   specialType?: 'AXLE' | 'TIRE';
-}
\ No newline at end of file
+  height?: number; // Plates (default 3)
+  tile?: boolean;
+  occupancy: PartOccupancy[];
+  studs: Array<[number, number]>; // Cells with a stud on top, where parts above connect
+  sockets: Array<[number, number]>; // Cells underneath that grip the studs of parts below
+  geometry: PartPrimitive[];
+  bricklink?: string; // BrickLink item number
+}
+
+// A build area on the ground. x/z are the stud cell of its minimum corner, like a brick's
+export interface Baseplate {
+  id: string;
+  x: number;
+  z: number;
+  width: number; // Studs along x
+  depth: number; // Studs along z
+  color: string;
+  studded: boolean; // false draws a smooth plate
+}
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  bricks: BrickData[];
+  baseplates: Baseplate[];
+  thumbnail?: string; // JPEG data URL
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Omit<ProjectRecord, 'bricks' | 'baseplates'> & { brickCount: number };
+
+export interface AutosaveRecord {
+  bricks: BrickData[];
+  baseplates: Baseplate[];
+  projectId: string | null;
+  projectName: string;
+  dirty: boolean; // true when the autosave holds changes not yet saved to the project
+  savedAt: number;
+}
+
+// ---- Build file format (see docs/build-file-format.md) ----
+
+export interface BuildFileBrick {
+  id: string;
+  type: string; // Catalog part id (BrickType.label)
+  x: number;
+  y: number;
+  z: number;
+  color: string;
+  sizeX: number; // Footprint after rotation
+  sizeZ: number;
+  rotation: number;
+}
+
+export interface BuildFileMetadata {
+  name: string;
+  author?: string;
+  description?: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  generator: string;
+}
+
+export interface BuildFile {
+  format: 'brickgenius-build';
+  version: number;
+  metadata: BuildFileMetadata;
+  board: { baseplates: Baseplate[] };
+  palette: Array<{ name: string; value: string }>;
+  catalog: Array<{ id: string; sizeX: number; sizeZ: number; height: number; tile?: boolean; specialType?: 'AXLE' | 'TIRE' }>;
+  bricks: BuildFileBrick[];
+}
+
+export interface MeshExportOptions {
+  includeStuds: boolean;
+  includeBaseplate: boolean;
+}
+
+// Owned parts of one kind; `type` is a BrickType.label and `color` an upper-case hex
+export interface InventoryItem {
+  type: string;
+  color: string;
+  count: number;
+}
+
+export interface PartsListRow {
+  key: string;
+  label: string; // BrickType.label
+  specialType?: 'AXLE' | 'TIRE';
+  color: string; // Hex, upper case
+  colorName: string;
+  count: number;
+  brickLinkItemId: string | null;
+  brickLinkColorId: number | null;
+  brickLinkColorName: string | null;
+  colorIsApproximate: boolean; // Snapped to the nearest BrickLink colour
+}
+
+export interface InstructionStep {
+  number: number; // 1-based
+  layer: number; // 0-based; each distinct part bottom height is a layer
+  newBrickIds: string[];
+  totalPlaced: number; // Bricks on the model once this step is done
+  callout: PartsListRow[];
+}
+
+// ---- Generation providers ----
+
+export type GenerationProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface GenerationSettings {
+  providerId: GenerationProviderId;
+  gemini: { model: string };
+  // Any server speaking the OpenAI chat completions API (e.g. a local model server)
+  openai: { baseUrl: string; apiKey: string; model: string };
+  offline: { resolution: number; maxDepth: number };
+  repair: { floatingVoxels: FloatingVoxelStrategy };
+  colors: QuantizeSettings;
+  shape: BuildShapeSettings;
+  network: { timeoutSeconds: number; maxRetries: number };
+  optimizer: OptimizerSettings;
+  // Hand building: parts must rest on the baseplate or click onto another part
+  building: { requireSupport: boolean };
+}
+
+// Single 1x1x1 cell as returned by generation, before optimizeBricks merges cells into bricks
+export interface Voxel {
+  x: number;
+  y: number;
+  z: number;
+  color: string;
+  plates?: number; // Plates of its layer it fills from the bottom (1 or 2); the whole layer when left out
+  tile?: boolean; // Smooth top: its top plate is a tile
+}
+
+export type FloatingVoxelStrategy = 'support' | 'remove';
+
+export type BuildFill = 'solid' | 'hollow';
+
+// Size and style limits for a new generation; sizes are in studs (width/depth) and layers (height)
+export interface BuildShapeSettings {
+  targetVoxels: number;
+  maxWidth: number;
+  maxDepth: number;
+  maxHeight: number;
+  fill: BuildFill;
+  // Mirror-symmetric left to right (across x)
+  symmetric: boolean;
+}
+
+export type ColorPaletteId = 'basic' | 'bricklink';
+
+export interface QuantizeSettings {
+  paletteId: ColorPaletteId;
+  maxColors: number;
+  // Ordered dithering between the two nearest colours for gradients
+  dither: boolean;
+}
+
+// 'greedy' packs each layer on its own (fewest bricks); 'stable' staggers seams between layers
+// 'inventory' only uses parts listed in the owned-parts inventory
+export type OptimizerMode = 'greedy' | 'stable' | 'inventory';
+
+export interface OptimizerSettings {
+  mode: OptimizerMode;
+  // Voxels enclosed on all six sides may change colour so they can join a neighbouring brick
+  mergeHiddenColors: boolean;
+}
+
+// How well a layout holds together; bricks are connected when their studs overlap between layers
+export interface ConnectivityReport {
+  bricks: number;
+  // Separate pieces the build falls into when lifted off the baseplate
+  pieces: number;
+  // Percentage of bricks in the largest piece
+  score: number;
+}
+
+// What repairGeneratedBuild had to change; all counts are voxels
+export interface RepairReport {
+  invalid: number;
+  rounded: number;
+  recolored: number;
+  duplicates: number;
+  shift: { x: number; y: number; z: number };
+  outOfBounds: number;
+  supportsAdded: number;
+  floatingRemoved: number;
+  // Size/style adjustments made to honour BuildShapeSettings, already worded for the user
+  shapeChanges: string[];
+}
+
+export type ImageView = 'front' | 'side' | 'top' | 'back';
+
+// Front looks along -z, side is the right-hand side (looking along -x), top looks down with the front at the bottom
+export interface LabeledImage {
+  view: ImageView;
+  file: File;
+}
+
+export interface SpecialPartVoxels {
+  part: string; // Catalog label, e.g. "Wheel"
+  voxels: Array<Pick<Voxel, 'x' | 'y' | 'z'>>;
+}
+
+// Either field may be omitted, but not both
+export interface GenerationRequest {
+  image?: File;
+  // Several photos of the same object; used instead of `image`
+  views?: LabeledImage[];
+  prompt?: string;
+  // Set when editing: the build to change, with `prompt` as the instruction
+  currentBuild?: Voxel[];
+  // Parts in `currentBuild` that aren't plain bricks (wheels, axle bricks), by their voxels
+  specialParts?: SpecialPartVoxels[];
+  shape?: BuildShapeSettings;
+}
+
+export type GenerationErrorKind = 'auth' | 'quota' | 'network' | 'timeout' | 'cancelled' | 'malformed' | 'empty' | 'unknown';
+
+export interface GenerationCallOptions {
+  signal?: AbortSignal;
+  // Streaming providers report the raw bricks parsed so far (cumulative); an empty list means start over
+  onPartial?: (bricks: unknown[]) => void;
+}
+
+export interface GenerationProvider {
+  id: GenerationProviderId;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  supportsTextPrompt: boolean;
+  generate: (request: GenerationRequest, settings: GenerationSettings, options?: GenerationCallOptions) => Promise<GeneratedBuild>;
+}